@@ -1,4 +1,6 @@
 import { Menu, shell } from 'electron'
+import { openProject, requestProjectSave } from './project-manager'
+import { createLibraryWindow } from '../windows/library-window'
 
 /**
  * Creates and sets the main application menu for the Editor window.
@@ -10,7 +12,18 @@ export function createEditorMenu() {
   const template: (Electron.MenuItemConstructorOptions | Electron.MenuItem)[] = [
     // On macOS, the first menu item is the App menu
     ...(isMac ? ([{ role: 'appMenu' }] as Electron.MenuItemConstructorOptions[]) : []),
-    { role: 'fileMenu' },
+    {
+      label: 'File',
+      submenu: [
+        { label: 'Open Project...', accelerator: 'CmdOrCtrl+O', click: () => openProject() },
+        { label: 'Library', accelerator: 'CmdOrCtrl+L', click: () => createLibraryWindow() },
+        { type: 'separator' },
+        { label: 'Save Project', accelerator: 'CmdOrCtrl+S', click: () => requestProjectSave(false) },
+        { label: 'Save Project As...', accelerator: 'CmdOrCtrl+Shift+S', click: () => requestProjectSave(true) },
+        { type: 'separator' },
+        isMac ? { role: 'close' } : { role: 'quit' },
+      ],
+    },
     { role: 'editMenu' },
     { role: 'viewMenu' },
     { role: 'windowMenu' },
@@ -0,0 +1,135 @@
+// Resolves PulseAudio sources (also served by PipeWire's pulse server) for audio capture on Linux.
+
+import log from 'electron-log/main'
+import { execFile, spawn, ChildProcessWithoutNullStreams } from 'node:child_process'
+import { getFFmpegPath } from '../lib/utils'
+
+export interface PulseAudioSource {
+  name: string
+  description: string
+}
+
+// Updates sent to the level meter per second
+const LEVEL_UPDATES_PER_SECOND = 20
+// Signals below this are shown as silence
+const LEVEL_FLOOR_DB = -60
+
+let levelMonitorProcess: ChildProcessWithoutNullStreams | null = null
+let levelMonitorInterval: NodeJS.Timeout | null = null
+
+function runPactl(args: string[]): Promise<string | null> {
+  return new Promise((resolve) => {
+    // Force untranslated output, the parsers below match on English field names
+    execFile('pactl', args, { timeout: 3000, env: { ...process.env, LC_ALL: 'C' } }, (error, stdout) => {
+      if (error) {
+        log.warn(`[AudioSources] pactl ${args.join(' ')} failed:`, error.message)
+        return resolve(null)
+      }
+      resolve(stdout.trim())
+    })
+  })
+}
+
+/**
+ * Lists the input devices (microphones, line-ins) known to the sound server.
+ * Monitor sources of output devices are left out; they are used for system audio instead.
+ */
+export async function listPulseAudioSources(): Promise<PulseAudioSource[]> {
+  const output = await runPactl(['list', 'sources'])
+  if (!output) return []
+
+  const sources: PulseAudioSource[] = []
+  for (const block of output.split(/^Source #\d+$/m).slice(1)) {
+    const name = block.match(/^\s*Name: (.+)$/m)?.[1].trim()
+    if (!name) continue
+    const monitorOf = block.match(/^\s*Monitor of Sink: (.+)$/m)?.[1].trim()
+    if (monitorOf && monitorOf !== 'n/a') continue
+    const description = block.match(/^\s*Description: (.+)$/m)?.[1].trim()
+    sources.push({ name, description: description || name })
+  }
+  log.info(`[AudioSources] Found ${sources.length} PulseAudio input sources.`)
+  return sources
+}
+
+/**
+ * Returns the monitor source of the default output device, which carries everything the desktop plays.
+ * @returns The source name to pass to FFmpeg's pulse input, or null if no sound server is reachable.
+ */
+export async function getSystemAudioMonitorSource(): Promise<string | null> {
+  // `get-default-sink` only exists since pactl 15; older versions report the sink in `pactl info`
+  let sink = await runPactl(['get-default-sink'])
+  if (!sink) {
+    const info = await runPactl(['info'])
+    sink = info?.match(/^Default Sink: (.+)$/m)?.[1].trim() ?? null
+  }
+  if (!sink) return null
+
+  const monitor = `${sink}.monitor`
+  const sources = await runPactl(['list', 'short', 'sources'])
+  if (sources && !sources.split('\n').some((line) => line.split('\t')[1] === monitor)) {
+    log.warn(`[AudioSources] Default sink ${sink} has no monitor source.`)
+    return null
+  }
+  log.info(`[AudioSources] Using system audio monitor source: ${monitor}`)
+  return monitor
+}
+
+/**
+ * Starts reading a source through FFmpeg and reports its peak level, scaled from silence (0) to full scale (1).
+ * Any previously running monitor is stopped first.
+ */
+export function startMicLevelMonitor(sourceName: string, onLevel: (level: number) => void) {
+  stopMicLevelMonitor()
+
+  // Raw mono 16-bit samples at a low rate are plenty for a meter
+  const ffmpeg = spawn(getFFmpegPath(), [
+    '-hide_banner',
+    '-loglevel',
+    'error',
+    '-f',
+    'pulse',
+    '-i',
+    sourceName,
+    '-ac',
+    '1',
+    '-ar',
+    '16000',
+    '-f',
+    's16le',
+    '-',
+  ])
+  levelMonitorProcess = ffmpeg
+  log.info(`[AudioSources] Started level monitor for ${sourceName}`)
+
+  let peak = 0
+  ffmpeg.stdout.on('data', (chunk: Buffer) => {
+    for (let offset = 0; offset + 2 <= chunk.length; offset += 2) {
+      peak = Math.max(peak, Math.abs(chunk.readInt16LE(offset)))
+    }
+  })
+  ffmpeg.stderr.on('data', (data: Buffer) => log.warn(`[AudioSources] Level monitor: ${data.toString()}`))
+  ffmpeg.on('close', (code) => {
+    if (levelMonitorProcess !== ffmpeg) return
+    log.info(`[AudioSources] Level monitor exited with code ${code}`)
+    stopMicLevelMonitor()
+    onLevel(0)
+  })
+
+  levelMonitorInterval = setInterval(() => {
+    const db = peak > 0 ? 20 * Math.log10(peak / 32768) : LEVEL_FLOOR_DB
+    onLevel(Math.max(0, Math.min(1, 1 - db / LEVEL_FLOOR_DB)))
+    peak = 0
+  }, 1000 / LEVEL_UPDATES_PER_SECOND)
+}
+
+export function stopMicLevelMonitor() {
+  if (levelMonitorInterval) {
+    clearInterval(levelMonitorInterval)
+    levelMonitorInterval = null
+  }
+  if (levelMonitorProcess) {
+    const ffmpeg = levelMonitorProcess
+    levelMonitorProcess = null
+    ffmpeg.kill('SIGKILL')
+  }
+}
@@ -0,0 +1,267 @@
+// Opt-in local HTTP endpoint for driving the recorder from scripts, e.g. product walkthroughs run by Playwright.
+// It only listens on the loopback interface, and every request has to carry the token shown in the settings:
+//
+//   curl -X POST -H "Authorization: Bearer <token>" -d '{"label":"Checkout"}' http://127.0.0.1:47825/markers
+//
+//   GET  /status               state, recorded time (ms, without pauses) and number of markers
+//   POST /recording/start      {"displayIndex"?: number, "windowId"?: number, "profileId"?: string}
+//   POST /recording/stop       saves the recording and opens it in the editor
+//   POST /recording/pause      POST /recording/resume      POST /recording/cancel
+//   POST /markers              {"label"?: string} drops a timeline marker at the current moment
+
+import log from 'electron-log/main'
+import http from 'node:http'
+import crypto from 'node:crypto'
+import { screen } from 'electron'
+import Store from 'electron-store'
+import { appState } from '../state'
+import type { RecordingSession } from '../state'
+import { DEFAULT_AUTOMATION_PORT } from '../lib/constants'
+import {
+  startRecording,
+  stopRecording,
+  togglePauseRecording,
+  cancelRecording,
+  getRecordingStatus,
+  addRecordingMarker,
+  recordingEvents,
+} from './recording-manager'
+import type { AutomationSettings } from '../types'
+
+const store = new Store()
+const ENABLED_KEY = 'automation.enabled'
+const PORT_KEY = 'automation.port'
+const TOKEN_KEY = 'automation.token'
+const MAX_BODY_BYTES = 64 * 1024
+
+let server: http.Server | null = null
+// Why the last attempt to listen failed
+let serverError: string | null = null
+
+type RequestBody = Record<string, unknown>
+
+// Fails a request with the given HTTP status
+class RequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+function getToken(): string {
+  let token = store.get(TOKEN_KEY) as string | undefined
+  if (!token) {
+    token = crypto.randomBytes(24).toString('hex')
+    store.set(TOKEN_KEY, token)
+  }
+  return token
+}
+
+export function getAutomationSettings(): AutomationSettings {
+  return {
+    enabled: store.get(ENABLED_KEY, false) as boolean,
+    port: store.get(PORT_KEY, DEFAULT_AUTOMATION_PORT) as number,
+    token: getToken(),
+    error: serverError,
+  }
+}
+
+/**
+ * Saves the changed settings and restarts the endpoint with them.
+ */
+export async function saveAutomationSettings(
+  changes: Partial<Pick<AutomationSettings, 'enabled' | 'port'>>,
+): Promise<AutomationSettings> {
+  if (typeof changes.enabled === 'boolean') store.set(ENABLED_KEY, changes.enabled)
+  if (Number.isInteger(changes.port) && changes.port! >= 1024 && changes.port! <= 65535) {
+    store.set(PORT_KEY, changes.port)
+  }
+  await startAutomationServer()
+  return getAutomationSettings()
+}
+
+/**
+ * Replaces the token, locking out every script that still uses the old one.
+ */
+export function regenerateAutomationToken(): AutomationSettings {
+  store.set(TOKEN_KEY, crypto.randomBytes(24).toString('hex'))
+  return getAutomationSettings()
+}
+
+/**
+ * Starts listening if the endpoint is enabled, after closing the one that was running.
+ */
+export async function startAutomationServer() {
+  await stopAutomationServer()
+  serverError = null
+  const { enabled, port } = getAutomationSettings()
+  if (!enabled) return
+
+  const newServer = http.createServer(handleRequest)
+  await new Promise<void>((resolve) => {
+    newServer.once('error', (error: NodeJS.ErrnoException) => {
+      serverError = error.code === 'EADDRINUSE' ? `Port ${port} is already in use.` : error.message
+      log.error(`[AutomationAPI] Could not listen on port ${port}:`, error)
+      resolve()
+    })
+    newServer.listen(port, '127.0.0.1', () => {
+      server = newServer
+      log.info(`[AutomationAPI] Listening on 127.0.0.1:${port}`)
+      resolve()
+    })
+  })
+}
+
+export function stopAutomationServer(): Promise<void> {
+  const runningServer = server
+  server = null
+  if (!runningServer) return Promise.resolve()
+  return new Promise((resolve) => {
+    runningServer.close(() => resolve())
+    runningServer.closeAllConnections()
+  })
+}
+
+function isAuthorized(header: string | undefined): boolean {
+  const expected = Buffer.from(`Bearer ${getToken()}`)
+  const actual = Buffer.from(header ?? '')
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+function readBody(req: http.IncomingMessage): Promise<RequestBody> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestError(413, 'The request body is too large.'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8').trim()
+      if (!text) return resolve({})
+      try {
+        const body = JSON.parse(text)
+        if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error('not an object')
+        resolve(body)
+      } catch {
+        reject(new RequestError(400, 'The request body must be a JSON object.'))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Resolves once the recording being stopped is saved, with null if nothing usable was left.
+ */
+function waitForSavedRecording(): Promise<RecordingSession | null> {
+  return new Promise((resolve) => {
+    const onSaved = (session: RecordingSession) => {
+      recordingEvents.off('failed', onFailed)
+      resolve(session)
+    }
+    const onFailed = () => {
+      recordingEvents.off('saved', onSaved)
+      resolve(null)
+    }
+    recordingEvents.once('saved', onSaved)
+    recordingEvents.once('failed', onFailed)
+  })
+}
+
+function assertRecording() {
+  const { state } = getRecordingStatus()
+  if (state !== 'recording' && state !== 'paused') throw new RequestError(409, 'Nothing is being recorded.')
+  return state
+}
+
+async function handleStart(body: RequestBody) {
+  if (getRecordingStatus().state !== 'idle') throw new RequestError(409, 'A recording is already in progress.')
+  if (appState.editorWin && !appState.editorWin.isDestroyed()) {
+    throw new RequestError(409, 'Close the editor before starting a new recording.')
+  }
+
+  const profileId = typeof body.profileId === 'string' ? body.profileId : undefined
+  let result
+  if (body.windowId !== undefined) {
+    result = await startRecording({ source: 'window', windowId: Number(body.windowId), profileId })
+  } else {
+    const display =
+      body.displayIndex !== undefined ? screen.getAllDisplays()[Number(body.displayIndex)] : screen.getPrimaryDisplay()
+    if (!display) throw new RequestError(400, `There is no display ${body.displayIndex}.`)
+    result = await startRecording({ source: 'fullscreen', displayId: display.id, profileId })
+  }
+  if (!result || result.canceled) throw new RequestError(500, 'The recording could not be started.')
+  return getRecordingStatus()
+}
+
+async function handleStop() {
+  // Stopping a countdown cancels the recording before it started
+  if (getRecordingStatus().state === 'countdown') {
+    await stopRecording()
+    return getRecordingStatus()
+  }
+  assertRecording()
+  const saved = waitForSavedRecording()
+  await stopRecording()
+  const session = await saved
+  if (!session) throw new RequestError(500, 'The recording could not be saved.')
+  return { ...getRecordingStatus(), screenVideoPath: session.screenVideoPath, metadataPath: session.metadataPath }
+}
+
+async function handleSetPaused(isPaused: boolean) {
+  const state = assertRecording()
+  if ((state === 'paused') !== isPaused) await togglePauseRecording()
+  return getRecordingStatus()
+}
+
+async function handleCancel() {
+  if (getRecordingStatus().state === 'idle') throw new RequestError(409, 'Nothing is being recorded.')
+  await cancelRecording()
+  return getRecordingStatus()
+}
+
+function handleAddMarker(body: RequestBody) {
+  const marker = addRecordingMarker(typeof body.label === 'string' ? body.label : '')
+  if (!marker) throw new RequestError(409, 'Nothing is being recorded.')
+  // Position in the recording, as it will appear on the timeline
+  return { label: marker.label, time: getRecordingStatus().duration }
+}
+
+const ROUTES: Record<string, (body: RequestBody) => unknown> = {
+  'GET /status': () => getRecordingStatus(),
+  'POST /recording/start': handleStart,
+  'POST /recording/stop': handleStop,
+  'POST /recording/pause': () => handleSetPaused(true),
+  'POST /recording/resume': () => handleSetPaused(false),
+  'POST /recording/cancel': handleCancel,
+  'POST /markers': handleAddMarker,
+}
+
+function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  const send = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  if (!isAuthorized(req.headers.authorization)) return send(401, { error: 'Missing or wrong token.' })
+  const { pathname } = new URL(req.url ?? '/', 'http://127.0.0.1')
+  const route = ROUTES[`${req.method} ${pathname}`]
+  if (!route) return send(404, { error: `Unknown endpoint ${req.method} ${pathname}.` })
+
+  readBody(req)
+    .then((body) => route(body))
+    .then((result) => send(200, result))
+    .catch((error) => {
+      if (error instanceof RequestError) return send(error.status, { error: error.message })
+      log.error(`[AutomationAPI] ${req.method} ${pathname} failed:`, error)
+      send(500, { error: (error as Error).message })
+    })
+}
@@ -0,0 +1,135 @@
+// Periodic snapshots of the editor session, used to recover work after a crash.
+
+import log from 'electron-log/main'
+import path from 'node:path'
+import fsPromises from 'node:fs/promises'
+import fsSync from 'node:fs'
+import { dialog } from 'electron'
+import { appState } from '../state'
+import type { RecordingSession } from '../state'
+import type { ScreenArcProject } from '../types'
+import { ensureDirectoryExists, getRecordingDirectory } from '../lib/utils'
+import { AUTOSAVE_FILE_NAME, PROJECT_FILE_VERSION } from '../lib/constants'
+import { getSessionFilePaths, readProjectFile } from './project-manager'
+import { createEditorWindow } from '../windows/editor-window'
+
+function getAutosavePath(): string {
+  return path.join(getRecordingDirectory(), AUTOSAVE_FILE_NAME)
+}
+
+/**
+ * Reads the last autosave snapshot, if any.
+ * @returns The snapshot, or null if none exists or it cannot be parsed.
+ */
+export async function readAutosave(): Promise<ScreenArcProject | null> {
+  const autosavePath = getAutosavePath()
+  if (!fsSync.existsSync(autosavePath)) return null
+  try {
+    return await readProjectFile(autosavePath)
+  } catch (error) {
+    log.warn('[Autosave] Ignoring unreadable autosave snapshot:', error)
+    return null
+  }
+}
+
+/**
+ * Writes the current editor session and the given editor state to the autosave file.
+ * The file is written to a temporary path first so that a crash mid-write never corrupts the last good snapshot.
+ */
+export async function writeAutosave(editorState: Record<string, unknown>) {
+  const session = appState.currentEditorSessionFiles
+  // A headless export must not overwrite a snapshot that a crashed editor left behind
+  if (!session || appState.isHeadless) return
+
+  const snapshot: ScreenArcProject = {
+    version: PROJECT_FILE_VERSION,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    session,
+    editorState,
+    projectPath: appState.currentProjectPath ?? undefined,
+  }
+
+  const autosavePath = getAutosavePath()
+  const tempPath = `${autosavePath}.tmp`
+  try {
+    await ensureDirectoryExists(getRecordingDirectory())
+    await fsPromises.writeFile(tempPath, JSON.stringify(snapshot), 'utf-8')
+    // The editor may have closed and cleared the snapshot while this one was being written
+    if (appState.currentEditorSessionFiles !== session) {
+      await fsPromises.rm(tempPath, { force: true })
+      return
+    }
+    await fsPromises.rename(tempPath, autosavePath)
+  } catch (error) {
+    log.error('[Autosave] Failed to write autosave snapshot:', error)
+  }
+}
+
+/**
+ * Removes the autosave snapshot once the session it describes has ended cleanly.
+ * Synchronous, so that the snapshot is gone even when the app exits right after the editor closes.
+ */
+export function clearAutosave() {
+  try {
+    fsSync.rmSync(getAutosavePath(), { force: true })
+  } catch (error) {
+    log.error('[Autosave] Failed to remove autosave snapshot:', error)
+  }
+}
+
+/**
+ * Returns the media files of the autosaved session so that orphan cleanup keeps them.
+ */
+export async function getAutosaveReferencedFiles(): Promise<string[]> {
+  const snapshot = await readAutosave()
+  return snapshot ? getSessionFilePaths(snapshot.session) : []
+}
+
+/**
+ * Returns the autosaved editor state if it belongs to the given session.
+ */
+export async function getAutosavedEditorState(session: RecordingSession): Promise<Record<string, unknown> | null> {
+  const snapshot = await readAutosave()
+  if (!snapshot || snapshot.session.screenVideoPath !== session.screenVideoPath) return null
+  return snapshot.editorState
+}
+
+/**
+ * Checks for a session left behind by a crash and offers to restore it.
+ * Must run before any editor window is created, since that triggers orphan cleanup.
+ * @returns True if the session was restored into a new editor window.
+ */
+export async function recoverAutosavedSession(): Promise<boolean> {
+  const snapshot = await readAutosave()
+  if (!snapshot) return false
+
+  const { session } = snapshot
+  if (!fsSync.existsSync(session.screenVideoPath) || !fsSync.existsSync(session.metadataPath)) {
+    log.warn('[Autosave] Media for the autosaved session is missing. Discarding snapshot.')
+    clearAutosave()
+    return false
+  }
+
+  const projectName = snapshot.projectPath ? path.basename(snapshot.projectPath) : null
+  const { response } = await dialog.showMessageBox({
+    type: 'question',
+    buttons: ['Restore', 'Discard'],
+    defaultId: 0,
+    cancelId: 1,
+    message: 'Restore unfinished editing session?',
+    detail: `ScreenArc did not close properly last time. ${
+      projectName ? `Unsaved changes to "${projectName}"` : 'An unsaved recording'
+    } from ${new Date(snapshot.updatedAt).toLocaleString()} can be restored.`,
+  })
+
+  if (response !== 0) {
+    log.info('[Autosave] User discarded the autosaved session.')
+    clearAutosave()
+    return false
+  }
+
+  log.info('[Autosave] Restoring autosaved session:', session)
+  createEditorWindow(session, { projectPath: snapshot.projectPath, editorState: snapshot.editorState })
+  return true
+}
@@ -0,0 +1,53 @@
+// Lines up the tracks of a recording. Every FFmpeg capture input is stamped with the wall clock, so the
+// first timestamp FFmpeg reports for each input ("start: ...") is when that device really began
+// delivering frames or samples. Those times are compared with each other and with the mouse events.
+
+import type { SyncSegment, SyncTrack } from '../types'
+
+// Device clocks differ per input and per platform and cannot be compared, the wall clock can
+const WALLCLOCK_INPUT_ARGS = ['-use_wallclock_as_timestamps', '1']
+
+/**
+ * Adds wall-clock timestamping to every input of a capture command.
+ */
+export function withWallclockTimestamps(inputArgs: string[]): string[] {
+  return inputArgs.flatMap((arg) => (arg === '-i' ? [...WALLCLOCK_INPUT_ARGS, arg] : [arg]))
+}
+
+/**
+ * Reads the start time of each input from FFmpeg's stderr output, e.g.
+ * "Input #1, x11grab, from ':0.0+0,0':" followed by "  Duration: N/A, start: 1718000000.123456, ...".
+ * @param stderr - FFmpeg's output from the beginning.
+ * @returns The start time (ms) by input index, or null while FFmpeg has not opened all inputs yet.
+ */
+export function readInputStartTimes(stderr: string): Map<number, number> | null {
+  // The input summary is complete once the output summary follows it
+  if (!/^Output #0/m.test(stderr)) return null
+
+  const startTimes = new Map<number, number>()
+  for (const match of stderr.matchAll(/^Input #(\d+),.*\n\s*Duration: [^,]+, start: (-?\d+(?:\.\d+)?)/gm)) {
+    startTimes.set(Number(match[1]), Number(match[2]) * 1000)
+  }
+  return startTimes
+}
+
+/**
+ * Maps a position on the screen video to the matching position in a track file.
+ * All values share the unit of `time`.
+ * @param userOffset - Extra delay of the track chosen in the editor; positive values play it later.
+ * @returns The position in the track file. Negative while the track has not started yet.
+ */
+export function getTrackSourceTime(
+  time: number,
+  track: SyncTrack,
+  segments: SyncSegment[] | null | undefined,
+  userOffset = 0,
+): number {
+  let segment = segments?.[0]
+  for (const candidate of segments ?? []) {
+    if (time >= candidate.start) segment = candidate
+  }
+  const trackSync = segment?.tracks[track]
+  if (!segment || !trackSync) return time - userOffset
+  return trackSync.start + (time - segment.start) - trackSync.offset - userOffset
+}
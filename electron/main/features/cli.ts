@@ -0,0 +1,302 @@
+// Headless command-line mode: records or exports without showing any window, e.g. to produce demo videos
+// in CI against an Xvfb display.
+//
+//   screenarc record --display 0 --duration 30 --out demo.screenarc
+//   screenarc export demo.screenarc --preset Default --format mp4 --resolution 1080p --out demo.mp4
+//
+// Progress is printed to stdout, errors to stderr, and the exit code tells whether the command succeeded.
+
+import log from 'electron-log/main'
+import { app, screen } from 'electron'
+import path from 'node:path'
+import fsSync from 'node:fs'
+import Store from 'electron-store'
+import { appState } from '../state'
+import type { RecordingSession } from '../state'
+import type { ExportPipeline, ExportWorkerLimit, HeadlessExportRequest, ScreenArcProject } from '../types'
+import { PROJECT_FILE_EXTENSION } from '../lib/constants'
+import { startRecording, stopRecording, recordingEvents } from './recording-manager'
+import { exportEvents } from './export-manager'
+import { createProjectFile, getSessionFilePaths, readProjectFile, registerProject } from './project-manager'
+import { createEditorWindow } from '../windows/editor-window'
+
+const store = new Store()
+
+const COMMANDS = ['record', 'export'] as const
+const EXPORT_FORMATS = ['mp4', 'gif'] as const
+const EXPORT_RESOLUTIONS = ['720p', '1080p', '2k'] as const
+const EXPORT_FPS = ['30', '60'] as const
+const EXPORT_QUALITIES = ['low', 'medium', 'high'] as const
+// Options that take a value. Anything else starting with `--` is left to Chromium, e.g. --no-sandbox.
+const VALUE_OPTIONS = [
+  'display',
+  'duration',
+  'out',
+  'profile',
+  'preset',
+  'format',
+  'resolution',
+  'fps',
+  'quality',
+  'workers',
+]
+// The built-in preset lives in the editor and is only stored once the presets are changed
+const DEFAULT_PRESET_NAME = 'Default'
+// An export that reports nothing for this long is considered stuck, e.g. because the video did not load
+const EXPORT_STALL_TIMEOUT_MS = 2 * 60 * 1000
+const EXIT_SUCCESS = 0
+const EXIT_FAILURE = 1
+const EXIT_USAGE = 2
+
+const USAGE = `Usage:
+  screenarc record --out <project> [--display <index>] [--duration <seconds>] [--profile <id>]
+  screenarc export <project> [--out <file>] [--preset <name>] [--format mp4|gif]
+                   [--resolution 720p|1080p|2k] [--fps 30|60] [--quality low|medium|high] [--workers <count>]`
+
+type CliCommand =
+  | { command: 'record'; displayIndex: number; durationSeconds: number | null; projectPath: string; profileId?: string }
+  | { command: 'export'; projectPath: string; request: HeadlessExportRequest }
+
+function print(message: string) {
+  log.info(`[CLI] ${message}`)
+  process.stdout.write(`${message}\n`)
+}
+
+function printError(message: string) {
+  log.error(`[CLI] ${message}`)
+  process.stderr.write(`${message}\n`)
+}
+
+/**
+ * Electron passes its own executable first and, when not packaged, the app path second.
+ */
+function getArguments(argv: string[]): string[] {
+  return argv.slice(app.isPackaged ? 1 : 2)
+}
+
+export function isCliInvocation(argv: string[]): boolean {
+  return getArguments(argv).some((arg) => (COMMANDS as readonly string[]).includes(arg))
+}
+
+function parseCommand(argv: string[]): CliCommand {
+  const args = getArguments(argv)
+  const commandIndex = args.findIndex((arg) => (COMMANDS as readonly string[]).includes(arg))
+  const command = args[commandIndex] as (typeof COMMANDS)[number]
+
+  const positionals: string[] = []
+  const options = new Map<string, string>()
+  for (let i = commandIndex + 1; i < args.length; i++) {
+    const arg = args[i]
+    if (!arg.startsWith('--')) {
+      positionals.push(arg)
+      continue
+    }
+    const separator = arg.indexOf('=')
+    const name = arg.slice(2, separator > 0 ? separator : undefined)
+    if (!VALUE_OPTIONS.includes(name)) continue
+    const value = separator > 0 ? arg.slice(separator + 1) : args[++i]
+    if (value === undefined || value === '') throw new Error(`Missing value for --${name}.`)
+    options.set(name, value)
+  }
+
+  const pick = <T extends string>(name: string, allowed: readonly T[], fallback: T): T => {
+    const value = options.get(name) ?? fallback
+    if (!(allowed as readonly string[]).includes(value)) {
+      throw new Error(`Invalid --${name} "${value}". Expected one of: ${allowed.join(', ')}.`)
+    }
+    return value as T
+  }
+
+  if (command === 'record') {
+    const out = options.get('out')
+    if (!out) throw new Error('record needs --out <project>.')
+    const displayIndex = Number(options.get('display') ?? 0)
+    if (!Number.isInteger(displayIndex) || displayIndex < 0) throw new Error('--display must be a display index.')
+    const duration = options.has('duration') ? Number(options.get('duration')) : null
+    if (duration !== null && !(duration > 0)) throw new Error('--duration must be a number of seconds.')
+    return {
+      command,
+      displayIndex,
+      durationSeconds: duration,
+      projectPath: path.resolve(
+        path.extname(out) === `.${PROJECT_FILE_EXTENSION}` ? out : `${out}.${PROJECT_FILE_EXTENSION}`,
+      ),
+      profileId: options.get('profile'),
+    }
+  }
+
+  const projectPath = positionals[0]
+  if (!projectPath) throw new Error('export needs the path of a project.')
+  const format = pick('format', EXPORT_FORMATS, 'mp4')
+  const workers = options.has('workers') ? Number(options.get('workers')) : undefined
+  if (workers !== undefined && !(Number.isInteger(workers) && workers > 0)) {
+    throw new Error('--workers must be a positive number.')
+  }
+  const out = options.get('out') ?? projectPath.replace(new RegExp(`\\.${PROJECT_FILE_EXTENSION}$`), '') + `.${format}`
+  return {
+    command,
+    projectPath: path.resolve(projectPath),
+    request: {
+      presetName: options.get('preset'),
+      exportSettings: {
+        format,
+        resolution: pick('resolution', EXPORT_RESOLUTIONS, '1080p'),
+        fps: Number(pick('fps', EXPORT_FPS, '30')) as 30 | 60,
+        quality: pick('quality', EXPORT_QUALITIES, 'medium'),
+        workers,
+      },
+      outputPath: path.resolve(out),
+    },
+  }
+}
+
+/**
+ * Records a display until the duration is reached or the process is interrupted, then saves a project.
+ */
+async function runRecord({
+  displayIndex,
+  durationSeconds,
+  projectPath,
+  profileId,
+}: CliCommand & { command: 'record' }) {
+  const displays = screen.getAllDisplays()
+  const display = displays[displayIndex]
+  if (!display) {
+    printError(`There is no display ${displayIndex}, found ${displays.length}.`)
+    return EXIT_FAILURE
+  }
+
+  const saved = new Promise<RecordingSession | null>((resolve) => {
+    recordingEvents.once('saved', resolve)
+    recordingEvents.once('failed', () => resolve(null))
+  })
+
+  const result = await startRecording({ source: 'fullscreen', displayId: display.id, profileId })
+  if (!result || result.canceled) {
+    recordingEvents.removeAllListeners()
+    printError('The recording could not be started.')
+    return EXIT_FAILURE
+  }
+
+  print(`Recording display ${displayIndex}${durationSeconds ? ` for ${durationSeconds} seconds` : ''}...`)
+  const stop = () => {
+    print('Stopping...')
+    stopRecording()
+  }
+  const timer = durationSeconds ? setTimeout(stop, durationSeconds * 1000) : null
+  process.once('SIGINT', stop)
+  process.once('SIGTERM', stop)
+
+  const session = await saved
+  if (timer) clearTimeout(timer)
+  process.off('SIGINT', stop)
+  process.off('SIGTERM', stop)
+  recordingEvents.removeAllListeners()
+
+  if (!session) {
+    printError('The recording could not be saved.')
+    return EXIT_FAILURE
+  }
+  await createProjectFile(projectPath, session)
+  print(`Saved ${projectPath}`)
+  return EXIT_SUCCESS
+}
+
+/**
+ * Loads the project into a hidden editor, which builds the render state and starts the export itself.
+ */
+async function runExport({ projectPath, request }: CliCommand & { command: 'export' }) {
+  let project: ScreenArcProject
+  try {
+    project = await readProjectFile(projectPath)
+  } catch (error) {
+    printError(`Could not open ${projectPath}: ${(error as Error).message}`)
+    return EXIT_FAILURE
+  }
+
+  const missingFiles = getSessionFilePaths(project.session).filter((filePath) => !fsSync.existsSync(filePath))
+  if (missingFiles.length > 0) {
+    printError(`The project references files that no longer exist:\n${missingFiles.join('\n')}`)
+    return EXIT_FAILURE
+  }
+
+  if (request.presetName) {
+    const presets = Object.values(store.get('presets', {}) as Record<string, { name: string }>)
+    const presetNames = [DEFAULT_PRESET_NAME, ...presets.map((preset) => preset.name)]
+    if (!presetNames.includes(request.presetName)) {
+      printError(`There is no preset "${request.presetName}". Available: ${[...new Set(presetNames)].join(', ')}.`)
+      return EXIT_FAILURE
+    }
+  }
+
+  // The editor cleans up recordings that no known project references
+  registerProject(projectPath)
+
+  let lastReportedStep = -1
+  let stallTimer: NodeJS.Timeout | null = null
+  const completion = new Promise<{
+    success: boolean
+    error?: string
+    pipeline?: ExportPipeline
+    workerLimit?: ExportWorkerLimit
+  }>((resolve) => {
+    const resetStallTimer = () => {
+      if (stallTimer) clearTimeout(stallTimer)
+      stallTimer = setTimeout(
+        () => resolve({ success: false, error: 'The export stopped making progress.' }),
+        EXPORT_STALL_TIMEOUT_MS,
+      )
+    }
+    const onProgress = ({ progress }: { progress: number }) => {
+      resetStallTimer()
+      const step = Math.floor(progress / 10) * 10
+      if (step <= lastReportedStep) return
+      lastReportedStep = step
+      print(`Exporting... ${step}%`)
+    }
+    exportEvents.on('export:progress', onProgress)
+    exportEvents.once('export:complete', resolve)
+    resetStallTimer()
+  })
+
+  createEditorWindow(project.session, { projectPath, editorState: project.editorState, exportRequest: request })
+  const { success, error, pipeline, workerLimit } = await completion
+  if (stallTimer) clearTimeout(stallTimer)
+  exportEvents.removeAllListeners()
+
+  appState.renderWorkers.forEach((worker) => worker.destroy())
+  appState.editorWin?.destroy()
+
+  if (!success) {
+    printError(`Export failed: ${error ?? 'unknown error'}`)
+    return EXIT_FAILURE
+  }
+  print(`Exported ${request.outputPath}`)
+  if (pipeline) print(`Decoded with ${pipeline.decoder}, encoded with ${pipeline.encoder}.`)
+  if (workerLimit) print(`Rendered by ${workerLimit.used} of ${workerLimit.requested} workers, limited by free memory.`)
+  return EXIT_SUCCESS
+}
+
+/**
+ * Runs the command given on the command line and exits the app with its exit code.
+ */
+export async function runCli(argv: string[]) {
+  appState.isHeadless = true
+
+  let command: CliCommand
+  try {
+    command = parseCommand(argv)
+  } catch (error) {
+    printError(`${(error as Error).message}\n\n${USAGE}`)
+    app.exit(EXIT_USAGE)
+    return
+  }
+
+  let exitCode = EXIT_FAILURE
+  try {
+    exitCode = command.command === 'record' ? await runRecord(command) : await runExport(command)
+  } catch (error) {
+    printError(`${command.command} failed: ${(error as Error).message}`)
+  }
+  app.exit(exitCode)
+}
@@ -0,0 +1,163 @@
+// Software fallback for reading video frames during export. When the render worker has no working WebCodecs
+// decoder, FFmpeg decodes the recording here and the worker pulls its frames as raw RGBA pixels.
+
+import log from 'electron-log/main'
+import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process'
+import { getFFmpegPath, probeMedia } from '../lib/utils'
+
+// Frames decoded ahead of the worker. Each one is a full RGBA picture, so only a few are kept.
+const MAX_BUFFERED_FRAMES = 4
+// Used when the frame rate of the file cannot be read
+const FALLBACK_FRAME_RATE = 30
+// Rates above this only add frames that the export never shows
+const MAX_FRAME_RATE = 60
+
+interface DecoderSession {
+  ffmpeg: ChildProcessWithoutNullStreams
+  frameRate: number
+  // Time in the video of the first decoded frame
+  startTime: number
+  frames: Buffer[]
+  // Index of the first frame in `frames`, counted from `startTime`
+  nextFrameIndex: number
+  isFinished: boolean
+  wakeReader: (() => void) | null
+}
+
+export interface DecoderInfo {
+  id: number
+  width: number
+  height: number
+  frameRate: number
+}
+
+const sessions = new Map<number, DecoderSession>()
+let nextSessionId = 1
+
+/**
+ * Starts decoding a video from the given time, scaled down to at most the given height.
+ */
+export async function openExportDecoder(videoPath: string, maxHeight: number, startTime = 0): Promise<DecoderInfo> {
+  const media = await probeMedia(videoPath)
+  if (!media.width || !media.height) throw new Error(`Could not read the video size of ${videoPath}.`)
+
+  const height = Math.min(media.height, Math.max(2, Math.round(maxHeight / 2) * 2))
+  // Even sizes, which every pixel format FFmpeg might convert through can hold
+  const width = Math.max(2, Math.round((media.width * (height / media.height)) / 2) * 2)
+  const frameRate = Math.min(media.frameRate || FALLBACK_FRAME_RATE, MAX_FRAME_RATE)
+  const frameSize = width * height * 4
+
+  const ffmpeg = spawn(getFFmpegPath(), [
+    '-v',
+    'error',
+    // Before the input, so FFmpeg jumps to the keyframe in front of it instead of decoding everything up to it
+    ...(startTime > 0 ? ['-ss', String(startTime)] : []),
+    '-i',
+    videoPath,
+    '-an',
+    // Frame n is shown from startTime + n / frameRate seconds on
+    '-vf',
+    `setpts=PTS-STARTPTS,fps=${frameRate},scale=${width}:${height}`,
+    '-f',
+    'rawvideo',
+    '-pix_fmt',
+    'rgba',
+    '-',
+  ])
+
+  const id = nextSessionId++
+  const session: DecoderSession = {
+    ffmpeg,
+    frameRate,
+    startTime,
+    frames: [],
+    nextFrameIndex: 0,
+    isFinished: false,
+    wakeReader: null,
+  }
+  sessions.set(id, session)
+
+  const wake = () => {
+    const wakeReader = session.wakeReader
+    session.wakeReader = null
+    wakeReader?.()
+  }
+
+  let frame = Buffer.allocUnsafe(frameSize)
+  let filled = 0
+  ffmpeg.stdout.on('data', (chunk: Buffer) => {
+    let offset = 0
+    while (offset < chunk.length) {
+      const length = Math.min(frameSize - filled, chunk.length - offset)
+      chunk.copy(frame, filled, offset, offset + length)
+      filled += length
+      offset += length
+      if (filled === frameSize) {
+        session.frames.push(frame)
+        frame = Buffer.allocUnsafe(frameSize)
+        filled = 0
+      }
+    }
+    if (session.frames.length >= MAX_BUFFERED_FRAMES) ffmpeg.stdout.pause()
+    wake()
+  })
+  ffmpeg.stderr.on('data', (data) => log.warn(`[ExportDecoder] FFmpeg: ${data.toString().trim()}`))
+  ffmpeg.on('close', (code) => {
+    session.isFinished = true
+    if (code !== 0 && code !== null) log.error(`[ExportDecoder] FFmpeg exited with code ${code} for ${videoPath}`)
+    wake()
+  })
+
+  log.info(`[ExportDecoder] Decoding ${videoPath} at ${width}x${height}, ${frameRate} fps from ${startTime}s`)
+  return { id, width, height, frameRate }
+}
+
+function takeFrame(session: DecoderSession): Promise<Buffer | null> {
+  return new Promise((resolve) => {
+    const tryTake = () => {
+      const frame = session.frames.shift()
+      if (frame) {
+        session.nextFrameIndex++
+        if (session.frames.length < MAX_BUFFERED_FRAMES) session.ffmpeg.stdout.resume()
+        return resolve(frame)
+      }
+      if (session.isFinished) return resolve(null)
+      session.wakeReader = tryTake
+    }
+    tryTake()
+  })
+}
+
+/**
+ * Returns the frame shown at the given time. Times must not go backwards, since the video is only read forward;
+ * open a new decoder at the earlier time instead.
+ * @returns The RGBA pixels, or null if the frame is the one returned last time or the video has ended.
+ */
+export async function readExportDecoderFrame(id: number, time: number): Promise<Buffer | null> {
+  const session = sessions.get(id)
+  if (!session) throw new Error(`Decoder ${id} is not open.`)
+
+  const targetIndex = Math.floor((time - session.startTime) * session.frameRate + 1e-6)
+  let frame: Buffer | null = null
+  while (session.nextFrameIndex <= targetIndex) {
+    const next = await takeFrame(session)
+    if (!next) break
+    frame = next
+  }
+  return frame
+}
+
+export function closeExportDecoder(id: number) {
+  const session = sessions.get(id)
+  if (!session) return
+  sessions.delete(id)
+  session.frames = []
+  if (!session.isFinished) session.ffmpeg.kill('SIGKILL')
+}
+
+/**
+ * Stops every decoder, e.g. when the render worker goes away in the middle of an export.
+ */
+export function closeAllExportDecoders() {
+  for (const id of [...sessions.keys()]) closeExportDecoder(id)
+}
@@ -1,28 +1,347 @@
 // Contains business logic for video export.
 
 import log from 'electron-log/main'
-import { app, BrowserWindow, IpcMainInvokeEvent, ipcMain } from 'electron'
-import { spawn } from 'node:child_process'
+import { app, BrowserWindow, IpcMainEvent, IpcMainInvokeEvent, ipcMain } from 'electron'
+import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process'
+import { EventEmitter } from 'node:events'
 import path from 'node:path'
 import fs from 'node:fs'
 import fsPromises from 'node:fs/promises'
+import os from 'node:os'
 import { appState } from '../state'
 import { getFFmpegPath, calculateExportDimensions } from '../lib/utils'
 import { spawnSync } from 'node:child_process'
 import { VITE_DEV_SERVER_URL, RENDERER_DIST, PRELOAD_SCRIPT } from '../lib/constants'
+import { getTrackSourceTime } from './capture-sync'
+import { closeAllExportDecoders } from './export-decoder'
+import type { ExportPipeline, ExportWorkerLimit, SyncTrack } from '../types'
 
 const FFMPEG_PATH = getFFmpegPath()
+// libx264 quality when the render worker cannot encode the video itself
+const SOFTWARE_ENCODER_CRF: Record<string, number> = { low: 28, medium: 23, high: 18 }
+// Shortest part of the export given to a worker of its own, since every worker loads the whole project first
+const MIN_SEGMENT_SECONDS = 5
+// Rough memory of a render worker besides its frames: the renderer process, its decoders and its FFmpeg
+const RENDER_WORKER_BASE_MEMORY = 400 * 1024 * 1024
+// Output-sized RGBA frames a worker holds at once: the canvas, frames waiting in the encoder and in FFmpeg's pipe
+const RENDER_WORKER_FRAME_BUFFERS = 32
+
+/**
+ * How many render workers fit in free memory at the given output size. Half of the total memory is left to the
+ * rest of the system, as free memory can drop while the export runs.
+ */
+function getRenderWorkerLimit(outputWidth: number, outputHeight: number) {
+  const memoryPerWorker = RENDER_WORKER_BASE_MEMORY + outputWidth * outputHeight * 4 * RENDER_WORKER_FRAME_BUFFERS
+  const availableMemory = Math.min(os.freemem(), os.totalmem() / 2)
+  return Math.max(1, Math.floor(availableMemory / memoryPerWorker))
+}
 
+/**
+ * Emits 'export:progress' and 'export:complete' with the payloads the editor receives, for code in the
+ * main process that waits on an export, like the command line.
+ */
+export const exportEvents = new EventEmitter()
+
+/**
+ * Applies the project's cuts and speed regions to an audio track so that it matches the exported video timeline.
+ * Each segment is written to its own file in a temporary directory and the segments are concatenated.
+ * The track's sync offsets decide where each segment is read from.
+ * @returns The path of the processed file, or null if processing failed and the original should be used.
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function startExport(event: IpcMainInvokeEvent, { projectState, exportSettings, outputPath }: any) {
-  log.info('[ExportManager] Starting export process...')
-  const editorWindow = BrowserWindow.fromWebContents(event.sender)
-  if (!editorWindow) return
+function prepareProcessedAudio(audioPath: string, track: SyncTrack, projectState: any): string | null {
+  // Build timeline boundaries from cuts and speed regions
+  const duration = projectState.duration
+  const cutRegions: { start: number; end: number }[] = Object.values(projectState.cutRegions || {}).map((r: any) => ({ start: r.startTime, end: r.startTime + r.duration }))
+  const speedRegions: { start: number; end: number; speed: number }[] = Object.values(projectState.speedRegions || {}).map((r: any) => ({ start: r.startTime, end: r.startTime + r.duration, speed: r.speed }))
+
+  // Gather all boundary times
+  const times = new Set<number>([0, duration])
+  cutRegions.forEach((c) => { times.add(c.start); times.add(c.end) })
+  speedRegions.forEach((s) => { times.add(s.start); times.add(s.end) })
+  const sortedTimes = Array.from(times).sort((a, b) => a - b)
+
+  // Collect non-cut segments with associated speed
+  type Segment = { start: number; duration: number; speed: number }
+  const segments: Segment[] = []
+  for (let i = 0; i < sortedTimes.length - 1; i++) {
+    const start = sortedTimes[i]
+    const end = sortedTimes[i + 1]
+    const segDur = end - start
+    if (segDur <= 0) continue
+    const inCut = cutRegions.some((c) => start >= c.start && start < c.end)
+    if (inCut) continue
+    const speedRegion = speedRegions.find((s) => start >= s.start && start < s.end)
+    const speed = speedRegion ? speedRegion.speed : 1
+    segments.push({ start, duration: segDur, speed })
+  }
+
+  if (segments.length === 0) return null
+
+  // Safe Approach: Create separate segment files and concat them.
+  // This avoids complex filter string limits and escaping issues.
+  const tmpDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'screenarc-audio-'))
+  const segmentFiles: string[] = []
+
+  // Helper to build atempo filter chain
+  const buildAtempoFilter = (factor: number) => {
+     if (Math.abs(factor - 1) < 0.01) return null
+     const filters: number[] = []
+     let remaining = factor
+     while (remaining > 2.0) { filters.push(2.0); remaining /= 2.0 }
+     while (remaining < 0.5) { filters.push(0.5); remaining /= 0.5 }
+     filters.push(remaining)
+     return filters.map((f) => `atempo=${f}`).join(',')
+  }
+
+  let i = 0
+  for (const seg of segments) {
+    const outPath = path.join(tmpDir, `seg-${i}.m4a`)
+    // Note: using -ss and -t with input seeking is fast but less precise for some container formats.
+    // For AAC/M4A, we place -ss BEFORE -i for fast seek, but we must ensure we are accurate.
+    // To be perfectly accurate (frame accurate), we should re-encode.
+    // We use -vn to discard video if any.
+    
+    // Where the track matches the segment; if it only starts later, the gap is filled with silence
+    const trackStart = getTrackSourceTime(
+      seg.start,
+      track,
+      projectState.syncSegments,
+      projectState.trackOffsets?.[track] ?? 0,
+    )
+    const leadingSilence = Math.max(0, -trackStart)
+
+    const args: string[] = [
+       '-y', 
+       '-ss', Math.max(0, trackStart).toFixed(4), 
+       '-t', seg.duration.toFixed(4), 
+       '-i', audioPath, 
+       '-vn'
+    ]
+
+    const filters = [
+      leadingSilence > 0 ? `adelay=${Math.round(leadingSilence * 1000)}:all=1` : null,
+      buildAtempoFilter(seg.speed),
+    ].filter((filter): filter is string => !!filter)
+    if (filters.length > 0) {
+      // The delay pushes the end of the read audio past the segment, so the output is cut to its length
+      args.push('-af', filters.join(','), '-t', (seg.duration / seg.speed).toFixed(4), '-c:a', 'aac', '-b:a', '192k')
+    } else {
+       // Always re-encode for precise cuts, otherwise -c copy snaps to keyframes/packets
+      args.push('-c:a', 'aac', '-b:a', '192k')
+    }
+    args.push(outPath)
+
+    log.info(`[ExportManager] Processing audio segment ${i}: start=${seg.start}, dur=${seg.duration}, speed=${seg.speed}`)
+    const res = spawnSync(FFMPEG_PATH, args, { encoding: 'utf-8' })
+    
+    if (res.status !== 0) {
+      log.error('[ExportManager] Failed to create audio segment:', res.stdout, res.stderr)
+      // Cleanup: best effort
+      try { fs.rmSync(tmpDir, { recursive: true, force: true }) } catch {}
+      return null
+    }
+    segmentFiles.push(outPath)
+    i++
+  }
+
+  const listFile = path.join(tmpDir, 'concat.txt')
+  writeConcatList(listFile, segmentFiles)
+
+  const finalOut = path.join(tmpDir, 'processed.m4a')
+  log.info('[ExportManager] Concatenating audio segments...')
+  
+  const concatRes = spawnSync(FFMPEG_PATH, [
+      '-y', 
+      '-f', 'concat', 
+      '-safe', '0', 
+      '-i', listFile, 
+      '-c', 'copy', 
+      finalOut
+  ], { encoding: 'utf-8' })
+
+  if (concatRes.status !== 0) {
+    log.error('[ExportManager] Failed to concat audio:', concatRes.stdout, concatRes.stderr)
+    try { fs.rmSync(tmpDir, { recursive: true, force: true }) } catch {}
+    return null
+  }
+
+  // Attach temp dir for cleanup NOT as a property of string, but we manage it implicitly. 
+  // We can't attach prop to string primitive.
+  // We will cleanup based on the directory of the file later.
+  return finalOut
+}
+
+/**
+ * Writes the file list read by FFmpeg's concat demuxer.
+ */
+function writeConcatList(listPath: string, filePaths: string[]) {
+  // Forward slashes, which the demuxer accepts on every platform
+  const listContent = filePaths
+    .map((filePath) => `file '${filePath.replace(/\\/g, '/').replace(/'/g, "'\\''")}'`)
+    .join('\n')
+  fs.writeFileSync(listPath, listContent)
+}
+
+/**
+ * Removes the temporary directories created by prepareProcessedAudio.
+ */
+function cleanupProcessedAudio(processedAudioPaths: string[]) {
+  for (const processedAudioPath of processedAudioPaths) {
+    try {
+      const tmpDir = path.dirname(processedAudioPath)
+      if (fs.existsSync(tmpDir)) fs.rmSync(tmpDir, { recursive: true, force: true })
+    } catch (err) {
+      log.error('[ExportManager] Failed to cleanup processed audio temp:', err)
+    }
+  }
+}
+
+/**
+ * Builds the FFmpeg command that writes the frames sent by the render worker to the output file.
+ * Frames encoded with WebCodecs arrive as an H.264 stream and are copied; all others arrive as raw RGBA pictures.
+ */
+function getFfmpegArgs({
+  format,
+  quality,
+  fps,
+  width,
+  height,
+  encoder,
+  audioInputs,
+  audioVolumes,
+  outputPath,
+}: {
+  format: 'mp4' | 'gif'
+  quality: string
+  fps: number
+  width: number
+  height: number
+  encoder: ExportPipeline['encoder']
+  audioInputs: string[]
+  audioVolumes: number[]
+  outputPath: string
+}): string[] {
+  const args = ['-y']
+
+  if (format === 'mp4' && encoder === 'webcodecs') {
+    // Input is raw H.264 Byte Stream (Annex B)
+    // We specify framerate here so FFmpeg knows how to interpret the stream timing
+    args.push('-thread_queue_size', '1024', '-f', 'h264', '-r', fps.toString(), '-i', '-')
+  } else {
+    args.push(
+      '-f',
+      'rawvideo',
+      '-vcodec',
+      'rawvideo',
+      '-pix_fmt',
+      'rgba',
+      '-s',
+      `${width}x${height}`,
+      '-r',
+      fps.toString(),
+      '-i',
+      '-',
+    )
+  }
+  audioInputs.forEach((audioInput) => args.push('-i', audioInput))
+
+  if (format === 'gif') {
+    args.push('-vf', 'split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse', outputPath)
+    return args
+  }
+
+  if (encoder === 'webcodecs') {
+    // Renderer already encoded the video to H.264 using hardware acceleration (WebCodecs)
+    // We just copy the video stream and mux it with audio.
+    // Use setts bitstream filter to generate monotonic timestamps (PTS=DTS=N) since raw stream lacks them
+    args.push('-c:v', 'copy', '-bsf:v', 'setts=dts=N:pts=N')
+    log.info('[ExportManager] Using video stream copy (Renderer pre-encoded)')
+  } else {
+    args.push(
+      '-c:v',
+      'libx264',
+      '-preset',
+      'fast',
+      '-crf',
+      String(SOFTWARE_ENCODER_CRF[quality] ?? SOFTWARE_ENCODER_CRF.medium),
+      '-pix_fmt',
+      'yuv420p',
+      '-movflags',
+      '+faststart',
+    )
+    log.info('[ExportManager] Encoding RGBA frames with libx264')
+  }
 
-  if (appState.renderWorker) {
-    appState.renderWorker.close()
+  args.push(...getAudioMixArgs(audioVolumes), outputPath)
+  return args
+}
+
+/**
+ * Mixes the audio inputs that follow the video input, each at its own volume.
+ */
+function getAudioMixArgs(audioVolumes: number[]): string[] {
+  if (audioVolumes.length === 0) return []
+  // Inputs #1..n are the audio tracks (processed or original). Each gets its volume applied before mixing;
+  // amix would otherwise scale every input down by the number of tracks.
+  const volumeFilters = audioVolumes.map((volume, i) => `[${i + 1}:a]volume=${volume.toFixed(3)}[a${i}]`)
+  const audioFilter =
+    audioVolumes.length > 1
+      ? `${volumeFilters.join(';')};${audioVolumes.map((_, i) => `[a${i}]`).join('')}amix=inputs=${audioVolumes.length}:duration=longest:normalize=0[aout]`
+      : volumeFilters[0].replace('[a0]', '[aout]')
+  return ['-filter_complex', audioFilter, '-map', '0:v:0', '-map', '[aout]', '-c:a', 'aac', '-shortest']
+}
+
+/**
+ * Builds the FFmpeg command that joins the segments rendered by several workers and adds the audio.
+ * Segments from the same encoder are joined without encoding them again. H.264 from WebCodecs and libx264 use
+ * different profiles, so a mix of both is encoded once more with libx264.
+ */
+function getConcatArgs({
+  listPath,
+  quality,
+  reencode,
+  audioInputs,
+  audioVolumes,
+  outputPath,
+}: {
+  listPath: string
+  quality: string
+  reencode: boolean
+  audioInputs: string[]
+  audioVolumes: number[]
+  outputPath: string
+}): string[] {
+  const args = ['-y', '-f', 'concat', '-safe', '0', '-i', listPath]
+  audioInputs.forEach((audioInput) => args.push('-i', audioInput))
+  if (reencode) {
+    const crf = String(SOFTWARE_ENCODER_CRF[quality] ?? SOFTWARE_ENCODER_CRF.medium)
+    args.push('-c:v', 'libx264', '-preset', 'fast', '-crf', crf, '-pix_fmt', 'yuv420p')
+  } else {
+    args.push('-c:v', 'copy')
   }
-  appState.renderWorker = new BrowserWindow({
+  args.push('-movflags', '+faststart', ...getAudioMixArgs(audioVolumes), outputPath)
+  return args
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function getExportDuration(projectState: any): number {
+  let exportDuration = projectState.duration || 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Object.values(projectState.cutRegions || {}).forEach((region: any) => (exportDuration -= region.duration))
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  Object.values(projectState.speedRegions || {}).forEach((region: any) => {
+    exportDuration -= region.duration
+    exportDuration += region.duration / region.speed
+  })
+  return Math.max(0, exportDuration)
+}
+
+/**
+ * Opens a hidden window that renders part of the export.
+ */
+function createRenderWorker(): BrowserWindow {
+  const worker = new BrowserWindow({
     show: false,
     width: 1280,
     height: 720,
@@ -36,322 +355,284 @@ export async function startExport(event: IpcMainInvokeEvent, { projectState, exp
   })
   if (VITE_DEV_SERVER_URL) {
     const renderUrl = `${VITE_DEV_SERVER_URL}#renderer`
-    appState.renderWorker.loadURL(renderUrl)
+    worker.loadURL(renderUrl)
     log.info(`[ExportManager] Loading render worker URL (Dev): ${renderUrl}`)
   } else {
     const renderPath = path.join(RENDERER_DIST, 'index.html')
-    appState.renderWorker.loadFile(renderPath, { hash: 'renderer' })
+    worker.loadFile(renderPath, { hash: 'renderer' })
     log.info(`[ExportManager] Loading render worker file (Prod): ${renderPath}#renderer`)
   }
+  return worker
+}
+
+// A part of the export timeline, rendered by its own worker into its own file
+interface ExportSegment {
+  worker: BrowserWindow
+  outputPath: string
+  ffmpeg: ChildProcessWithoutNullStreams | null
+  pipeline: ExportPipeline | null
+  progress: number
+  frameCount: number
+  // Exit code of the segment's FFmpeg, undefined while it runs
+  exitCode?: number | null
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function startExport(event: IpcMainInvokeEvent, { projectState, exportSettings, outputPath }: any) {
+  log.info('[ExportManager] Starting export process...')
+  const editorWindow = BrowserWindow.fromWebContents(event.sender)
+  if (!editorWindow) return
+
+  for (const worker of appState.renderWorkers) {
+    if (!worker.isDestroyed()) worker.close()
+  }
 
   const { resolution, fps, format } = exportSettings
   const { width: outputWidth, height: outputHeight } = calculateExportDimensions(resolution, projectState.aspectRatio)
 
 
-  // Determine input format based on output format
-  // If MP4, we receive H.264 stream from Renderer (WebCodecs)
-  // If other (GIF), we receive raw RGBA frames
   const isMp4 = format === 'mp4'
 
-  const ffmpegArgs = ['-y']
-  
-  if (isMp4) {
-    // Input is raw H.264 Byte Stream (Annex B)
-    // We specify framerate here so FFmpeg knows how to interpret the stream timing
-    ffmpegArgs.push(
-       '-thread_queue_size', '1024',
-       '-f', 'h264', 
-       '-r', fps.toString(), 
-       '-i', '-'
-    )
-  } else {
-    ffmpegArgs.push(
-      '-f', 'rawvideo',
-      '-vcodec', 'rawvideo',
-      '-pix_fmt', 'rgba',
-      '-s', `${outputWidth}x${outputHeight}`,
-      '-r', fps.toString(),
-      '-i', '-'
-    )
-  }
-
-  // If there's an audio track, preprocess it to apply cuts and speed regions
-  // so the final audio matches the exported video timeline.
-  // This generates a temporary processed audio file (if needed) and uses it
-  // as the audio input for FFmpeg.
-  let processedAudioPath: string | null = null
-  if (projectState.audioPath) {
+  // Each worker renders one segment, and the segments are joined at the end. A GIF's palette is built from all of
+  // its frames, so GIFs are rendered by a single worker. Workers that would not fit in free memory are left out,
+  // and the editor is told so.
+  const requestedWorkers = Number(exportSettings.workers) > 0 ? Math.floor(exportSettings.workers) : os.cpus().length
+  const maxSegments = Math.max(1, Math.floor(getExportDuration(projectState) / MIN_SEGMENT_SECONDS))
+  const wantedSegments = isMp4 ? Math.max(1, Math.min(requestedWorkers, maxSegments)) : 1
+  const segmentCount = Math.min(wantedSegments, getRenderWorkerLimit(outputWidth, outputHeight))
+  const workerLimit: ExportWorkerLimit | undefined =
+    segmentCount < wantedSegments ? { requested: wantedSegments, used: segmentCount } : undefined
+  if (workerLimit) log.warn(`[ExportManager] Free memory limits the export to ${segmentCount} worker(s).`)
+  const segmentDir =
+    segmentCount > 1 ? await fsPromises.mkdtemp(path.join(app.getPath('temp'), 'screenarc-segments-')) : null
+  const segments: ExportSegment[] = Array.from({ length: segmentCount }, (_, index) => ({
+    worker: createRenderWorker(),
+    outputPath: segmentDir ? path.join(segmentDir, `segment-${index}.mp4`) : outputPath,
+    ffmpeg: null,
+    pipeline: null,
+    progress: 0,
+    frameCount: 0,
+  }))
+  appState.renderWorkers = segments.map((segment) => segment.worker)
+  log.info(`[ExportManager] Rendering with ${segmentCount} worker(s).`)
+
+  // Preprocess each audio track to apply cuts and speed regions so it matches the exported
+  // video timeline. Tracks are then mixed with their own volume, scaled by the master volume.
+  // GIFs have no audio, so the work is skipped for them.
+  const masterVolume = projectState.isMuted ? 0 : (projectState.volume ?? 1)
+  const audioTracks: { track: SyncTrack; path: string; volume: number }[] = [
+    { track: 'mic' as const, path: projectState.audioPath, volume: projectState.trackVolumes?.mic ?? 1 },
+    { track: 'system' as const, path: projectState.systemAudioPath, volume: projectState.trackVolumes?.system ?? 1 },
+  ]
+    .filter((track) => isMp4 && !!track.path)
+    .map((track) => ({ ...track, volume: track.volume * masterVolume }))
+    .filter((track) => track.volume > 0)
+
+  const processedAudioPaths: string[] = []
+  const audioInputs: string[] = []
+  for (const track of audioTracks) {
+    let processedAudioPath: string | null = null
     try {
-      processedAudioPath = await (async function prepareProcessedAudio(): Promise<string | null> {
-        const audioPath = projectState.audioPath
-        if (!audioPath) return null
-
-        // Build timeline boundaries from cuts and speed regions
-        const duration = projectState.duration
-        const cutRegions: { start: number; end: number }[] = Object.values(projectState.cutRegions || {}).map((r: any) => ({ start: r.startTime, end: r.startTime + r.duration }))
-        const speedRegions: { start: number; end: number; speed: number }[] = Object.values(projectState.speedRegions || {}).map((r: any) => ({ start: r.startTime, end: r.startTime + r.duration, speed: r.speed }))
-
-        // Gather all boundary times
-        const times = new Set<number>([0, duration])
-        cutRegions.forEach((c) => { times.add(c.start); times.add(c.end) })
-        speedRegions.forEach((s) => { times.add(s.start); times.add(s.end) })
-        const sortedTimes = Array.from(times).sort((a, b) => a - b)
-
-        // Collect non-cut segments with associated speed
-        type Segment = { start: number; duration: number; speed: number }
-        const segments: Segment[] = []
-        for (let i = 0; i < sortedTimes.length - 1; i++) {
-          const start = sortedTimes[i]
-          const end = sortedTimes[i + 1]
-          const segDur = end - start
-          if (segDur <= 0) continue
-          const inCut = cutRegions.some((c) => start >= c.start && start < c.end)
-          if (inCut) continue
-          const speedRegion = speedRegions.find((s) => start >= s.start && start < s.end)
-          const speed = speedRegion ? speedRegion.speed : 1
-          segments.push({ start, duration: segDur, speed })
-        }
-
-        if (segments.length === 0) return null
-
-        // Safe Approach: Create separate segment files and concat them.
-        // This avoids complex filter string limits and escaping issues.
-        const tmpDir = fs.mkdtempSync(path.join(app.getPath('temp'), 'screenarc-audio-'))
-        const segmentFiles: string[] = []
-
-        // Helper to build atempo filter chain
-        const buildAtempoFilter = (factor: number) => {
-           if (Math.abs(factor - 1) < 0.01) return null
-           const filters: number[] = []
-           let remaining = factor
-           while (remaining > 2.0) { filters.push(2.0); remaining /= 2.0 }
-           while (remaining < 0.5) { filters.push(0.5); remaining /= 0.5 }
-           filters.push(remaining)
-           return filters.map((f) => `atempo=${f}`).join(',')
-        }
-
-        let i = 0
-        for (const seg of segments) {
-          const outPath = path.join(tmpDir, `seg-${i}.m4a`)
-          // Note: using -ss and -t with input seeking is fast but less precise for some container formats.
-          // For AAC/M4A, we place -ss BEFORE -i for fast seek, but we must ensure we are accurate.
-          // To be perfectly accurate (frame accurate), we should re-encode.
-          // We use -vn to discard video if any.
-          
-          const args: string[] = [
-             '-y', 
-             '-ss', seg.start.toFixed(4), 
-             '-t', seg.duration.toFixed(4), 
-             '-i', audioPath, 
-             '-vn'
-          ]
-
-          const atempo = buildAtempoFilter(seg.speed)
-          if (atempo) {
-            args.push('-af', atempo, '-c:a', 'aac', '-b:a', '192k')
-          } else {
-             // Always re-encode for precise cuts, otherwise -c copy snaps to keyframes/packets
-            args.push('-c:a', 'aac', '-b:a', '192k')
-          }
-          args.push(outPath)
-
-          log.info(`[ExportManager] Processing audio segment ${i}: start=${seg.start}, dur=${seg.duration}, speed=${seg.speed}`)
-          const res = spawnSync(FFMPEG_PATH, args, { encoding: 'utf-8' })
-          
-          if (res.status !== 0) {
-            log.error('[ExportManager] Failed to create audio segment:', res.stdout, res.stderr)
-            // Cleanup: best effort
-            try { fs.rmSync(tmpDir, { recursive: true, force: true }) } catch {}
-            return null
-          }
-          segmentFiles.push(outPath)
-          i++
-        }
-
-        // Create concat list file (critical: forward slashes)
-        const listFile = path.join(tmpDir, 'concat.txt')
-        const listContent = segmentFiles
-          .map((f) => {
-            const normalizedPath = f.replace(/\\/g, '/')
-            return `file '${normalizedPath.replace(/'/g, "'\\''")}'`
-          })
-          .join('\n')
-        
-        fs.writeFileSync(listFile, listContent)
-
-        const finalOut = path.join(tmpDir, 'processed.m4a')
-        log.info('[ExportManager] Concatenating audio segments...')
-        
-        const concatRes = spawnSync(FFMPEG_PATH, [
-            '-y', 
-            '-f', 'concat', 
-            '-safe', '0', 
-            '-i', listFile, 
-            '-c', 'copy', 
-            finalOut
-        ], { encoding: 'utf-8' })
-
-        if (concatRes.status !== 0) {
-          log.error('[ExportManager] Failed to concat audio:', concatRes.stdout, concatRes.stderr)
-          try { fs.rmSync(tmpDir, { recursive: true, force: true }) } catch {}
-          return null
-        }
-
-        // Attach temp dir for cleanup NOT as a property of string, but we manage it implicitly. 
-        // We can't attach prop to string primitive.
-        // We will cleanup based on the directory of the file later.
-        return finalOut
-      })()
+      processedAudioPath = prepareProcessedAudio(track.path, track.track, projectState)
     } catch (e) {
       log.error('[ExportManager] Error preparing processed audio:', e)
-      processedAudioPath = null
     }
 
     if (processedAudioPath) {
-      ffmpegArgs.push('-i', processedAudioPath)
+      processedAudioPaths.push(processedAudioPath)
+      audioInputs.push(processedAudioPath)
     } else {
-      ffmpegArgs.push('-i', projectState.audioPath)
+      audioInputs.push(track.path)
     }
   }
+  const audioVolumes = audioTracks.map((track) => track.volume)
 
-  // --- Hardware acceleration auto-detect with real encoder check ---
-  // --- Detect GPU type for encoder selection (Windows only) ---
-  if (isMp4) {
-    // Renderer already encoded the video to H.264 using hardware acceleration (WebCodecs)
-    // We just copy the video stream and mux it with audio.
-    // Use setts bitstream filter to generate monotonic timestamps (PTS=DTS=N) since raw stream lacks them
-    ffmpegArgs.push('-c:v', 'copy', '-bsf:v', 'setts=dts=N:pts=N')
-    log.info('[ExportManager] Using video stream copy (Renderer pre-encoded)')
+  // Joins the segments once all of them are encoded
+  let concatFfmpeg: ChildProcessWithoutNullStreams | null = null
+  let exportCompleted = false
 
-    // If audio present
-    if (projectState.audioPath) {
-      // Use input #1 (audio) which is either processed or original
-      ffmpegArgs.push('-map', '0:v:0', '-map', '1:a:0', '-c:a', 'aac', '-shortest')
+  const notify = (channel: 'export:progress' | 'export:complete', payload: Record<string, unknown>) => {
+    exportEvents.emit(channel, payload)
+    if (editorWindow && !editorWindow.isDestroyed()) {
+      editorWindow.webContents.send(channel, payload)
+    } else if (channel === 'export:complete') {
+      log.warn('[ExportManager] Editor window was destroyed. Could not send export:complete message.')
     }
-  } else {
-    ffmpegArgs.push('-vf', 'split[s0][s1];[s0]palettegen[p];[s1][p]paletteuse')
   }
-  ffmpegArgs.push(outputPath)
 
-  log.info('[ExportManager] Spawning FFmpeg with args:', ffmpegArgs.join(' '))
-  const ffmpeg = spawn(FFMPEG_PATH, ffmpegArgs)
-  let ffmpegClosed = false
-  let exportCompleted = false
+  const closeRenderWorker = (worker: BrowserWindow) => {
+    if (!worker.isDestroyed()) worker.close()
+    appState.renderWorkers = appState.renderWorkers.filter((renderWorker) => renderWorker !== worker)
+  }
 
-  ffmpeg.stderr.on('data', (data) => log.info(`[FFmpeg stderr]: ${data.toString()}`))
+  const removeListeners = () => {
+    ipcMain.removeListener('render:ready', readyListener)
+    ipcMain.removeListener('export:pipeline', pipelineListener)
+    ipcMain.removeListener('export:frame-data', frameListener)
+    ipcMain.removeListener('export:render-finished', finishListener)
+    ipcMain.removeListener('export:cancel', cancellationHandler)
+    ipcMain.removeListener('export:render-error', renderErrorListener)
+  }
 
-  const cancellationHandler = () => {
-    log.warn('[ExportManager] Received "export:cancel". Terminating export.')
+  // Ends the export exactly once, stopping whatever still runs
+  const completeExport = (payload: { success: boolean; error?: string; pipeline?: ExportPipeline }) => {
+    if (exportCompleted) return
     exportCompleted = true
-    if (ffmpeg && !ffmpeg.killed) {
-      ffmpeg.kill('SIGKILL')
+    for (const segment of segments) {
+      if (segment.ffmpeg && segment.exitCode === undefined) segment.ffmpeg.kill('SIGKILL')
+      closeRenderWorker(segment.worker)
     }
-    if (appState.renderWorker && !appState.renderWorker.isDestroyed()) {
-      appState.renderWorker.close()
+    if (concatFfmpeg && concatFfmpeg.exitCode === null) concatFfmpeg.kill('SIGKILL')
+    closeAllExportDecoders()
+    cleanupProcessedAudio(processedAudioPaths)
+    if (segmentDir) {
+      fsPromises
+        .rm(segmentDir, { recursive: true, force: true })
+        .catch((err) => log.error('[ExportManager] Failed to cleanup export segments:', err))
     }
-    if (fs.existsSync(outputPath)) {
-      fsPromises.unlink(outputPath).catch((err) => log.error('Failed to delete cancelled export file:', err))
+    if (!payload.success && fs.existsSync(outputPath)) {
+      fsPromises.unlink(outputPath).catch((err) => log.error('Failed to delete unfinished export file:', err))
     }
+    notify('export:complete', payload.success ? { ...payload, outputPath, workerLimit } : payload)
+    removeListeners()
+  }
 
-    // Cleanup processed audio temp dir if created
-    try {
-      if (processedAudioPath) {
-        const tmpDir = path.dirname(processedAudioPath)
-        if (fs.existsSync(tmpDir)) fs.rmSync(tmpDir, { recursive: true, force: true })
+  // Software anywhere in the export is reported, since it is what makes the export slow
+  const getPipeline = (): ExportPipeline => ({
+    decoder: segments.some((segment) => segment.pipeline?.decoder === 'ffmpeg') ? 'ffmpeg' : 'webcodecs',
+    encoder: segments.some((segment) => segment.pipeline?.encoder === 'ffmpeg') ? 'ffmpeg' : 'webcodecs',
+  })
+
+  const getSegment = (e: IpcMainEvent) =>
+    segments.find((segment) => !segment.worker.isDestroyed() && segment.worker.webContents.id === e.sender.id)
+
+  const joinSegments = () => {
+    // Workers whose part of the timeline held no frames have nothing to add
+    const renderedSegments = segments.filter((segment) => segment.frameCount > 0)
+    const encoders = new Set(renderedSegments.map((segment) => segment.pipeline?.encoder))
+    const listPath = path.join(segmentDir!, 'segments.txt')
+    writeConcatList(
+      listPath,
+      renderedSegments.map((segment) => segment.outputPath),
+    )
+
+    const concatArgs = getConcatArgs({
+      listPath,
+      quality: exportSettings.quality,
+      reencode: encoders.size > 1,
+      audioInputs,
+      audioVolumes,
+      outputPath,
+    })
+    log.info('[ExportManager] Joining segments with args:', concatArgs.join(' '))
+    notify('export:progress', { progress: 99, stage: 'Joining segments...' })
+    const joinProcess = spawn(FFMPEG_PATH, concatArgs)
+    concatFfmpeg = joinProcess
+    joinProcess.stderr.on('data', (data) => log.info(`[FFmpeg stderr]: ${data.toString()}`))
+    joinProcess.on('close', (code) => {
+      log.info(`[ExportManager] FFmpeg joining segments exited with code ${code}.`)
+      if (code === 0) completeExport({ success: true, pipeline: getPipeline() })
+      else completeExport({ success: false, error: `FFmpeg exited with code ${code} while joining segments` })
+    })
+  }
+
+  const cancellationHandler = () => {
+    log.warn('[ExportManager] Received "export:cancel". Terminating export.')
+    completeExport({ success: false, error: 'Export cancelled.' })
+  }
+
+  // Each worker is told which segment it renders once it has loaded
+  const readyListener = (e: IpcMainEvent) => {
+    const index = segments.findIndex((segment) => segment.worker.webContents.id === e.sender.id)
+    if (index < 0) return
+    log.info(`[ExportManager] Worker ${index + 1}/${segmentCount} ready. Sending project state.`)
+    segments[index].worker.webContents.send('render:start', {
+      projectState,
+      exportSettings,
+      segment: { index, count: segmentCount },
+    })
+  }
+
+  const pipelineListener = (e: IpcMainEvent, selected: ExportPipeline) => {
+    const segment = getSegment(e)
+    if (!segment || segment.ffmpeg || exportCompleted) return
+    segment.pipeline = selected
+    log.info(`[ExportManager] Render worker decodes with ${selected.decoder} and encodes with ${selected.encoder}.`)
+
+    // A single segment is the final file, otherwise the audio is added when the segments are joined
+    const ffmpegArgs = getFfmpegArgs({
+      format,
+      quality: exportSettings.quality,
+      fps,
+      width: outputWidth,
+      height: outputHeight,
+      encoder: selected.encoder,
+      audioInputs: segmentDir ? [] : audioInputs,
+      audioVolumes: segmentDir ? [] : audioVolumes,
+      outputPath: segment.outputPath,
+    })
+    log.info('[ExportManager] Spawning FFmpeg with args:', ffmpegArgs.join(' '))
+    const encoderProcess = spawn(FFMPEG_PATH, ffmpegArgs)
+    segment.ffmpeg = encoderProcess
+    encoderProcess.stderr.on('data', (data) => log.info(`[FFmpeg stderr]: ${data.toString()}`))
+
+    encoderProcess.on('close', (code) => {
+      segment.exitCode = code
+      log.info(`[ExportManager] FFmpeg process exited with code ${code}.`)
+      closeRenderWorker(segment.worker)
+      if (exportCompleted) return
+
+      // FFmpeg fails on a segment without frames, which is then left out
+      if (code !== 0 && segment.frameCount > 0) {
+        completeExport({
+          success: false,
+          error: code === null ? 'Export cancelled.' : `FFmpeg exited with code ${code}`,
+        })
+        return
       }
-    } catch (err) {
-      log.error('[ExportManager] Failed to cleanup processed audio temp:', err)
-    }
+      if (segments.some((other) => other.exitCode === undefined)) return
+      if (!segmentDir) completeExport({ success: true, pipeline: getPipeline() })
+      else if (segments.some((other) => other.frameCount > 0)) joinSegments()
+      else completeExport({ success: false, error: 'The export has no frames.' })
+    })
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const frameListener = (_e: any, { frame, progress }: { frame: Buffer; progress: number }) => {
-    if (!ffmpegClosed && ffmpeg.stdin.writable) ffmpeg.stdin.write(frame)
-    if (editorWindow && !editorWindow.isDestroyed()) {
-      editorWindow.webContents.send('export:progress', { progress, stage: 'Rendering...' })
-    }
+  const frameListener = (e: IpcMainEvent, { frame, progress }: { frame: Buffer; progress: number }) => {
+    const segment = getSegment(e)
+    if (!segment) return
+    const { ffmpeg } = segment
+    if (ffmpeg && segment.exitCode === undefined && ffmpeg.stdin.writable) ffmpeg.stdin.write(frame)
+    segment.frameCount++
+    segment.progress = progress
+    // Segments are of equal length, so each one makes up the same share of the export
+    const totalProgress = segments.reduce((sum, other) => sum + other.progress, 0) / segmentCount
+    const { decoder, encoder } = getPipeline()
+    const isSoftware = decoder === 'ffmpeg' || encoder === 'ffmpeg'
+    notify('export:progress', {
+      progress: totalProgress,
+      stage: isSoftware ? 'Rendering (software)...' : 'Rendering...',
+    })
   }
 
-  const finishListener = () => {
-    log.info('[ExportManager] Render finished. Closing FFmpeg stdin.')
-    if (!ffmpegClosed && ffmpeg.stdin.writable) {
+  const finishListener = (e: IpcMainEvent) => {
+    const segment = getSegment(e)
+    if (!segment) return
+    log.info(`[ExportManager] Render of segment ${segments.indexOf(segment) + 1} finished. Closing FFmpeg stdin.`)
+    const { ffmpeg } = segment
+    if (ffmpeg && segment.exitCode === undefined && ffmpeg.stdin.writable) {
       ffmpeg.stdin.end()
     }
   }
 
-  const renderErrorListener = (_e: any, { error }: { error: string }) => {
+  const renderErrorListener = (_e: IpcMainEvent, { error }: { error: string }) => {
     log.error('[ExportManager] Render error:', error)
-    exportCompleted = true
-    if (ffmpeg && !ffmpeg.killed) {
-      ffmpeg.kill('SIGKILL')
-    }
-    if (appState.renderWorker && !appState.renderWorker.isDestroyed()) {
-      appState.renderWorker.close()
-    }
-    appState.renderWorker = null
-
-    if (editorWindow && !editorWindow.isDestroyed()) {
-      editorWindow.webContents.send('export:complete', { success: false, error })
-    }
-
-    // Clean up all listeners
-    ipcMain.removeListener('export:frame-data', frameListener)
-    ipcMain.removeListener('export:render-finished', finishListener)
-    ipcMain.removeListener('export:cancel', cancellationHandler)
-    ipcMain.removeListener('export:render-error', renderErrorListener)
+    completeExport({ success: false, error })
   }
 
+  ipcMain.on('render:ready', readyListener)
+  ipcMain.on('export:pipeline', pipelineListener)
   ipcMain.on('export:frame-data', frameListener)
   ipcMain.on('export:render-finished', finishListener)
   ipcMain.on('export:render-error', renderErrorListener)
   ipcMain.once('export:cancel', cancellationHandler) // Use once to avoid multiple calls
-
-  ffmpeg.on('close', (code) => {
-    ffmpegClosed = true
-    log.info(`[ExportManager] FFmpeg process exited with code ${code}.`)
-
-    // Cleanup processed audio temporary directory if created
-    try {
-      if (processedAudioPath) {
-        const tmpDir = path.dirname(processedAudioPath)
-        if (fs.existsSync(tmpDir)) fs.rmSync(tmpDir, { recursive: true, force: true })
-      }
-    } catch (err) {
-      log.error('[ExportManager] Failed to cleanup processed audio temp:', err)
-    }
-
-    if (appState.renderWorker && !appState.renderWorker.isDestroyed()) {
-      appState.renderWorker.close()
-    }
-    appState.renderWorker = null
-
-    if (!exportCompleted) {
-      // Check if the editor window still exists before sending a message
-      if (editorWindow && !editorWindow.isDestroyed()) {
-        if (code === null) {
-          // Cancelled by SIGKILL
-          editorWindow.webContents.send('export:complete', { success: false, error: 'Export cancelled.' })
-        } else if (code === 0) {
-          editorWindow.webContents.send('export:complete', { success: true, outputPath })
-        } else {
-          editorWindow.webContents.send('export:complete', { success: false, error: `FFmpeg exited with code ${code}` })
-        }
-      } else {
-        log.warn('[ExportManager] Editor window was destroyed. Could not send export:complete message.')
-      }
-    }
-
-    // Clean up all listeners
-    ipcMain.removeListener('export:frame-data', frameListener)
-    ipcMain.removeListener('export:render-finished', finishListener)
-    ipcMain.removeListener('export:cancel', cancellationHandler)
-    ipcMain.removeListener('export:render-error', renderErrorListener)
-  })
-
-  ipcMain.once('render:ready', () => {
-    log.info('[ExportManager] Worker ready. Sending project state.')
-    if (appState.renderWorker && !appState.renderWorker.isDestroyed()) {
-      appState.renderWorker.webContents.send('render:start', { projectState, exportSettings })
-    }
-  })
 }
@@ -0,0 +1,65 @@
+// Decides which of the captured keystrokes end up in the recording metadata.
+// Keystrokes are filtered before the metadata or the recording journal is written, so typed text never reaches
+// the disk unmasked.
+
+import { KEYSTROKE_BURST_GAP_MS, KEYSTROKE_MIN_MASKED_BURST } from '../lib/constants'
+import type { KeystrokeItem } from '../types'
+
+const MASK_CHARACTER = '•'
+
+// A character typed as text, i.e. without a modifier other than Shift
+const isTypedCharacter = (keystroke: KeystrokeItem) =>
+  keystroke.key.length === 1 && keystroke.modifiers.every((modifier) => modifier === 'Shift')
+
+/**
+ * True for keystrokes shown in 'shortcuts' mode: key combinations and keys such as Enter or F5.
+ */
+export function isShortcutKeystroke(keystroke: KeystrokeItem) {
+  return !isTypedCharacter(keystroke) && keystroke.key !== 'Space'
+}
+
+/**
+ * Counts the keystrokes whose masking is already known at the given time: all of them, except for a trailing burst
+ * that may still go on and be masked once it ends.
+ */
+export function countSettledKeystrokes(keystrokes: KeystrokeItem[], now: number): number {
+  const last = keystrokes[keystrokes.length - 1]
+  if (!last || !isTypedCharacter(last) || now - last.timestamp >= KEYSTROKE_BURST_GAP_MS) return keystrokes.length
+
+  let burstStart = keystrokes.length - 1
+  while (
+    burstStart > 0 &&
+    isTypedCharacter(keystrokes[burstStart - 1]) &&
+    keystrokes[burstStart].timestamp - keystrokes[burstStart - 1].timestamp < KEYSTROKE_BURST_GAP_MS
+  ) {
+    burstStart--
+  }
+  return burstStart
+}
+
+/**
+ * Masks runs of characters that could be a password: typed quickly and not followed by a space. Prose keeps showing
+ * since its words are separated by spaces, while a password ends with Enter, Tab, a pause or a click elsewhere.
+ */
+export function maskPasswordBursts(keystrokes: KeystrokeItem[]): KeystrokeItem[] {
+  const result = keystrokes.map((keystroke) => ({ ...keystroke }))
+
+  let burstStart = 0
+  for (let i = 0; i <= result.length; i++) {
+    const keystroke = result[i]
+    const previous = result[i - 1]
+    const continuesBurst =
+      keystroke &&
+      isTypedCharacter(keystroke) &&
+      (i === burstStart || keystroke.timestamp - previous.timestamp < KEYSTROKE_BURST_GAP_MS)
+    if (continuesBurst) continue
+
+    const burstLength = i - burstStart
+    const isFollowedBySpace = keystroke?.key === 'Space'
+    if (!isFollowedBySpace && burstLength >= KEYSTROKE_MIN_MASKED_BURST) {
+      for (let j = burstStart; j < i; j++) result[j].key = MASK_CHARACTER
+    }
+    burstStart = keystroke && isTypedCharacter(keystroke) ? i : i + 1
+  }
+  return result
+}
@@ -0,0 +1,271 @@
+// Lists, opens, renames and deletes recordings and projects for the library window.
+
+import log from 'electron-log/main'
+import path from 'node:path'
+import fsPromises from 'node:fs/promises'
+import fsSync from 'node:fs'
+import { dialog } from 'electron'
+import { appState } from '../state'
+import type { RecordingSession } from '../state'
+import type { LibraryItem } from '../types'
+import { getRecordingDirectory, probeMedia } from '../lib/utils'
+import { PROJECT_FILE_EXTENSION } from '../lib/constants'
+import {
+  getKnownProjects,
+  getProjectReferencedFiles,
+  getSessionFilePaths,
+  openProject,
+  openSessionInEditor,
+  readProjectFile,
+  registerProject,
+  unregisterProject,
+} from './project-manager'
+
+const RECORDING_METADATA_PATTERN = /^ScreenArc-recording-(\d+)\.json$/
+
+// What opening, renaming and deleting need to know about an item, without probing its media
+type LibraryEntry = Pick<LibraryItem, 'kind' | 'filePath' | 'name' | 'session' | 'isOpenInEditor'>
+
+function isOpenInEditor(session: RecordingSession): boolean {
+  return appState.currentEditorSessionFiles?.screenVideoPath === session.screenVideoPath
+}
+
+async function buildLibraryItem(
+  kind: LibraryItem['kind'],
+  filePath: string,
+  name: string,
+  session: RecordingSession,
+  createdAt: number,
+): Promise<LibraryItem> {
+  const media = await probeMedia(session.screenVideoPath)
+  return {
+    kind,
+    filePath,
+    name,
+    session,
+    createdAt,
+    duration: media.duration,
+    width: media.width,
+    height: media.height,
+    hasWebcam: !!session.webcamVideoPath && fsSync.existsSync(session.webcamVideoPath),
+    hasAudio:
+      [session.audioPath, session.systemAudioPath].some((file) => !!file && fsSync.existsSync(file)) || media.hasAudio,
+    isOpenInEditor: isOpenInEditor(session),
+  }
+}
+
+const getRecordingName = (title: string | undefined, createdAt: number) =>
+  title || `Recording ${new Date(createdAt).toLocaleString()}`
+
+async function readRecordingSession(
+  metadataPath: string,
+): Promise<{ session: RecordingSession; title?: string } | null> {
+  const baseName = path.basename(metadataPath, '.json')
+  const dir = path.dirname(metadataPath)
+  const screenVideoPath = path.join(dir, `${baseName}-screen.mp4`)
+  if (!fsSync.existsSync(screenVideoPath)) return null
+
+  const webcamVideoPath = path.join(dir, `${baseName}-webcam.mp4`)
+  const audioPath = path.join(dir, `${baseName}-audio.aac`)
+  const systemAudioPath = path.join(dir, `${baseName}-system-audio.aac`)
+  let metadata: { title?: string; geometry?: RecordingSession['recordingGeometry'] } = {}
+  try {
+    metadata = JSON.parse(await fsPromises.readFile(metadataPath, 'utf-8'))
+  } catch (error) {
+    log.warn(`[Library] Could not read metadata ${metadataPath}:`, error)
+  }
+
+  return {
+    title: metadata.title,
+    session: {
+      screenVideoPath,
+      metadataPath,
+      webcamVideoPath: fsSync.existsSync(webcamVideoPath) ? webcamVideoPath : undefined,
+      audioPath: fsSync.existsSync(audioPath) ? audioPath : undefined,
+      systemAudioPath: fsSync.existsSync(systemAudioPath) ? systemAudioPath : undefined,
+      // The stored geometry is already scaled to video pixels
+      recordingGeometry: metadata.geometry ?? { x: 0, y: 0, width: 0, height: 0 },
+      scaleFactor: 1,
+    },
+  }
+}
+
+/**
+ * Lists all projects (in the recording directory or previously saved elsewhere) and all
+ * recordings in the recording directory that are not part of a project.
+ */
+export async function listLibraryItems(): Promise<LibraryItem[]> {
+  const recordingDir = getRecordingDirectory()
+  let dirEntries: string[] = []
+  try {
+    dirEntries = await fsPromises.readdir(recordingDir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      log.error('[Library] Could not read recording directory:', error)
+    }
+  }
+
+  const projectPaths = new Set(getKnownProjects())
+  dirEntries
+    .filter((file) => path.extname(file) === `.${PROJECT_FILE_EXTENSION}`)
+    .forEach((file) => projectPaths.add(path.join(recordingDir, file)))
+
+  const items: LibraryItem[] = []
+  for (const projectPath of projectPaths) {
+    if (!fsSync.existsSync(projectPath)) continue
+    try {
+      const project = await readProjectFile(projectPath)
+      if (!fsSync.existsSync(project.session.screenVideoPath)) continue
+      const name = path.basename(projectPath, `.${PROJECT_FILE_EXTENSION}`)
+      items.push(await buildLibraryItem('project', projectPath, name, project.session, project.createdAt))
+    } catch (error) {
+      log.warn(`[Library] Skipping unreadable project ${projectPath}:`, error)
+    }
+  }
+
+  const referencedFiles = await getProjectReferencedFiles()
+  for (const file of dirEntries) {
+    const match = file.match(RECORDING_METADATA_PATTERN)
+    if (!match) continue
+    const metadataPath = path.join(recordingDir, file)
+    if (referencedFiles.has(metadataPath)) continue
+    // Skip the recording that is still being captured
+    if (appState.currentRecordingSession?.metadataPath === metadataPath) continue
+
+    const recording = await readRecordingSession(metadataPath)
+    if (!recording) continue
+    const createdAt = Number(match[1])
+    const name = getRecordingName(recording.title, createdAt)
+    items.push(await buildLibraryItem('recording', metadataPath, name, recording.session, createdAt))
+  }
+
+  return items.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+/**
+ * Resolves a single library item from its project or metadata file. Only files the library lists are accepted:
+ * known projects and projects or recordings in the recording directory.
+ */
+async function findLibraryItem(filePath: string): Promise<LibraryEntry | undefined> {
+  const isInRecordingDir = path.dirname(filePath) === getRecordingDirectory()
+  try {
+    if (path.extname(filePath) === `.${PROJECT_FILE_EXTENSION}`) {
+      if (!isInRecordingDir && !getKnownProjects().includes(filePath)) return undefined
+      if (!fsSync.existsSync(filePath)) return undefined
+      const { session } = await readProjectFile(filePath)
+      if (!fsSync.existsSync(session.screenVideoPath)) return undefined
+      const name = path.basename(filePath, `.${PROJECT_FILE_EXTENSION}`)
+      return { kind: 'project', filePath, name, session, isOpenInEditor: isOpenInEditor(session) }
+    }
+
+    const match = path.basename(filePath).match(RECORDING_METADATA_PATTERN)
+    if (!match || !isInRecordingDir) return undefined
+    const recording = await readRecordingSession(filePath)
+    if (!recording) return undefined
+    const { session, title } = recording
+    const name = getRecordingName(title, Number(match[1]))
+    return { kind: 'recording', filePath, name, session, isOpenInEditor: isOpenInEditor(session) }
+  } catch (error) {
+    log.warn(`[Library] Could not read library item ${filePath}:`, error)
+    return undefined
+  }
+}
+
+export async function openLibraryItem(filePath: string): Promise<{ success: boolean; error?: string }> {
+  if (appState.currentRecordingSession) return { success: false, error: 'Stop the recording before opening an item.' }
+  const item = await findLibraryItem(filePath)
+  if (!item) return { success: false, error: 'Item no longer exists.' }
+
+  if (item.kind === 'project') {
+    const result = await openProject(item.filePath)
+    return { success: !result.canceled }
+  }
+  const opened = await openSessionInEditor(item.session)
+  return { success: opened }
+}
+
+/**
+ * Renames a library item. Projects are renamed on disk; bare recordings keep their file names
+ * (cleanup relies on them) and store the new name as a title in their metadata instead.
+ */
+export async function renameLibraryItem(
+  filePath: string,
+  newName: string,
+): Promise<{ success: boolean; error?: string; filePath?: string }> {
+  const trimmedName = newName.trim()
+  if (!trimmedName) return { success: false, error: 'Name cannot be empty.' }
+
+  const item = await findLibraryItem(filePath)
+  if (!item) return { success: false, error: 'Item no longer exists.' }
+
+  try {
+    if (item.kind === 'project') {
+      if (/[\\/:*?"<>|]/.test(trimmedName)) {
+        return { success: false, error: 'Name contains characters that are not allowed in file names.' }
+      }
+      const newPath = path.join(path.dirname(filePath), `${trimmedName}.${PROJECT_FILE_EXTENSION}`)
+      if (newPath === filePath) return { success: true, filePath }
+      if (fsSync.existsSync(newPath)) return { success: false, error: 'A project with this name already exists.' }
+
+      await fsPromises.rename(filePath, newPath)
+      unregisterProject(filePath)
+      registerProject(newPath)
+      if (appState.currentProjectPath === filePath) {
+        appState.currentProjectPath = newPath
+      }
+      log.info(`[Library] Renamed project ${filePath} -> ${newPath}`)
+      return { success: true, filePath: newPath }
+    }
+
+    const metadata = JSON.parse(await fsPromises.readFile(filePath, 'utf-8'))
+    metadata.title = trimmedName
+    await fsPromises.writeFile(filePath, JSON.stringify(metadata), 'utf-8')
+    log.info(`[Library] Renamed recording ${filePath} to "${trimmedName}"`)
+    return { success: true, filePath }
+  } catch (error) {
+    log.error(`[Library] Failed to rename ${filePath}:`, error)
+    return { success: false, error: (error as Error).message }
+  }
+}
+
+/**
+ * Deletes a library item after confirmation. Media files still referenced by another project are kept.
+ */
+export async function deleteLibraryItem(filePath: string): Promise<{ success: boolean; error?: string }> {
+  const item = await findLibraryItem(filePath)
+  if (!item) return { success: false, error: 'Item no longer exists.' }
+  if (item.isOpenInEditor) {
+    return { success: false, error: 'This item is open in the editor. Close it before deleting.' }
+  }
+
+  const parent = appState.libraryWin ?? undefined
+  const options: Electron.MessageBoxOptions = {
+    type: 'warning',
+    buttons: ['Delete', 'Cancel'],
+    defaultId: 1,
+    cancelId: 1,
+    message: `Delete "${item.name}"?`,
+    detail: 'The recording files will be permanently removed.',
+  }
+  const { response } = parent ? await dialog.showMessageBox(parent, options) : await dialog.showMessageBox(options)
+  if (response !== 0) return { success: false }
+
+  try {
+    const filesToDelete = getSessionFilePaths(item.session)
+    if (item.kind === 'project') {
+      await fsPromises.rm(filePath, { force: true })
+      unregisterProject(filePath)
+    }
+
+    // Computed after the project was unregistered, so only other projects count
+    const stillReferenced = await getProjectReferencedFiles()
+    await Promise.all(
+      filesToDelete.filter((file) => !stillReferenced.has(file)).map((file) => fsPromises.rm(file, { force: true })),
+    )
+    log.info(`[Library] Deleted ${item.kind} ${filePath}`)
+    return { success: true }
+  } catch (error) {
+    log.error(`[Library] Failed to delete ${filePath}:`, error)
+    return { success: false, error: (error as Error).message }
+  }
+}
@@ -5,10 +5,12 @@ import { dialog } from 'electron'
 import { createRequire } from 'node:module'
 import { createHash } from 'node:crypto'
 import { MOUSE_RECORDING_FPS } from '../lib/constants'
-import { MOUSE_BUTTONS } from '../lib/system-constants'
+import { MOUSE_BUTTONS, MODIFIER_KEYS, X11_KEYSYMS, MACOS_KEYCODES } from '../lib/system-constants'
 import * as winCursorManager from '../lib/win-cursor-manager'
 import * as macosCursorManager from '../lib/macos-cursor-manager'
-import { MetaDataItem } from '../types'
+import { MetaDataItem, KeystrokeItem } from '../types'
+import { XInputEventStream, XInputRawEvent, findXInput } from './xinput-events'
+import { appState } from '../state'
 
 const require = createRequire(import.meta.url)
 const hash = (buffer: Buffer) => createHash('sha1').update(buffer).digest('hex')
@@ -29,6 +31,7 @@ const ANIMATED_CURSORS = {
 let X11Module: any
 let mouseEvents: any
 let iohook: any
+let hasWarnedMissingXInput = false
 
 export function initializeMouseTrackerDependencies() {
   if (process.platform === 'linux') {
@@ -64,9 +67,19 @@ export function initializeMouseTrackerDependencies() {
   }
 }
 
+// Event mask of XFixesSelectCursorInput that reports every change of the displayed cursor
+const XFIXES_DISPLAY_CURSOR_NOTIFY_MASK = 1
+
+const isModifierKey = (key: string) => (MODIFIER_KEYS as readonly string[]).includes(key)
+
 // --- Interfaces and Classes ---
+export interface MouseTrackerOptions {
+  // Also emit a 'key' event for every key pressed together with the modifiers held at that moment
+  captureKeys?: boolean
+}
+
 export interface IMouseTracker extends EventEmitter {
-  start(cursorImageMap: Map<string, any>): Promise<boolean>
+  start(cursorImageMap: Map<string, any>, options?: MouseTrackerOptions): Promise<boolean>
   stop(): void
 }
 
@@ -74,10 +87,26 @@ class LinuxMouseTracker extends EventEmitter implements IMouseTracker {
   private intervalId: NodeJS.Timeout | null = null
   private X: any | null = null
   private Fixes: any | null = null
+  private root: any = null
   private cursorImageMap: Map<string, any> | null = null
+  // Key of the current cursor image, refreshed whenever XFixes reports a cursor change
+  private currentImageKey = ''
   private lastButtonMask = 0
-
-  async start(cursorImageMap: Map<string, any>): Promise<boolean> {
+  private lastEventData: Pick<MetaDataItem, 'x' | 'y' | 'cursorImageKey'> | null = null
+  private xinput: XInputEventStream | null = null
+  // Motion events arrive far faster than pointer queries return, so at most one query is in flight
+  private isMoveQueryInFlight = false
+  private hasPendingMove = false
+  private pendingPointerQueries = 0
+  private lastEmittedAt = 0
+  private isPolling = false
+  // Keysyms of every keycode, starting at minKeycode. Only loaded when keys are captured.
+  private keyboardMapping: number[][] | null = null
+  private minKeycode = 0
+  private pressedKeycodes = new Set<number>()
+  private lastKeymap: number[] = []
+
+  async start(cursorImageMap: Map<string, any>, options: MouseTrackerOptions = {}): Promise<boolean> {
     this.cursorImageMap = cursorImageMap
     if (!X11Module) {
       log.error('[MouseTracker-Linux] Cannot start, x11 module not loaded.')
@@ -86,7 +115,22 @@ class LinuxMouseTracker extends EventEmitter implements IMouseTracker {
     try {
       const display = await this.createClient()
       this.X = display.client
-      const root = display.screen[0].root
+      this.root = display.screen[0].root
+
+      if (options.captureKeys) {
+        this.minKeycode = display.min_keycode
+        this.X.GetKeyboardMapping(
+          display.min_keycode,
+          display.max_keycode - display.min_keycode + 1,
+          (err: Error, mapping: number[][]) => {
+            if (err) {
+              log.error('[MouseTracker-Linux] Could not get keyboard mapping, keys will not be captured:', err)
+              return
+            }
+            this.keyboardMapping = mapping
+          },
+        )
+      }
 
       this.X.require('fixes', (err: Error, Fixes: any) => {
         if (err) {
@@ -94,9 +138,29 @@ class LinuxMouseTracker extends EventEmitter implements IMouseTracker {
           return
         }
         this.Fixes = Fixes
-        this.intervalId = setInterval(() => this.pollMouseState(root), 1000 / MOUSE_RECORDING_FPS)
+        this.updateCursorImage()
+        Fixes.SelectCursorInput(this.root, XFIXES_DISPLAY_CURSOR_NOTIFY_MASK)
+      })
+      this.X.on('event', (event: any) => {
+        if (event.name === 'DisplayCursorNotify') this.updateCursorImage()
       })
 
+      this.emitMove()
+      if (findXInput()) {
+        this.xinput = new XInputEventStream()
+        this.xinput.on('event', this.handleRawEvent)
+        this.xinput.on('exit', () => {
+          if (!this.X || this.isPolling) return
+          log.warn('[MouseTracker-Linux] XInput2 events stopped, falling back to polling the pointer.')
+          this.startPolling()
+        })
+        this.xinput.start()
+        this.intervalId = setInterval(this.emitIdleMove, 1000 / MOUSE_RECORDING_FPS)
+      } else {
+        log.warn('[MouseTracker-Linux] xinput is not installed, polling the pointer instead.')
+        this.startPolling()
+      }
+
       this.X.on('error', (err: any) => log.error('[MouseTracker-Linux] X11 client error:', err))
       return true
     } catch (err) {
@@ -110,66 +174,227 @@ class LinuxMouseTracker extends EventEmitter implements IMouseTracker {
       clearInterval(this.intervalId)
       this.intervalId = null
     }
+    this.xinput?.removeAllListeners()
+    this.xinput?.stop()
+    this.xinput = null
     this.X?.close()
     this.X = null
+    this.Fixes = null
+    this.lastEventData = null
+    this.isMoveQueryInFlight = false
+    this.hasPendingMove = false
+    this.pendingPointerQueries = 0
+    this.isPolling = false
+    this.keyboardMapping = null
+    this.pressedKeycodes.clear()
+    this.lastKeymap = []
     log.info('[MouseTracker-Linux] Stopped.')
   }
 
-  private pollMouseState = (root: any) => {
-    if (!this.X || !this.Fixes) return
-
-    this.Fixes.GetCursorImage((err: Error, cursorData: any) => {
+  private updateCursorImage = () => {
+    this.Fixes?.GetCursorImage((err: Error, cursorData: any) => {
       if (err) {
         log.error('[MouseTracker-Linux] Error getting cursor image:', err)
         return
       }
 
-      if (!this.X) {
-        log.error('[MouseTracker-Linux] X11 client not initialized or closed.')
+      const cursorImage = Buffer.from(cursorData.cursorImage.slice(8))
+      const imageKey = hash(cursorImage)
+
+      if (!this.cursorImageMap?.has(imageKey) && cursorImage.length > 0) {
+        this.cursorImageMap?.set(imageKey, {
+          width: cursorData.width,
+          height: cursorData.height,
+          xhot: cursorData.xhot,
+          yhot: cursorData.yhot,
+          image: Array.from(cursorImage), // CHANGE: Store as an array of numbers
+        })
+      }
+      this.currentImageKey = imageKey
+    })
+  }
+
+  /**
+   * Looks up the pointer position and passes it on with the time of the request.
+   * X11 answers requests in order, so events are emitted in the order they were requested.
+   */
+  private queryPointer(
+    onPointer: (eventData: Pick<MetaDataItem, 'timestamp' | 'x' | 'y' | 'cursorImageKey'>, pointer: any) => void,
+  ) {
+    if (!this.X) return
+    const timestamp = Date.now()
+    this.pendingPointerQueries++
+    this.X.QueryPointer(this.root, (err: any, pointer: any) => {
+      this.pendingPointerQueries--
+      if (err) {
+        log.error('[MouseTracker-Linux] Error querying pointer:', err)
         return
       }
+      this.lastEventData = { x: pointer.rootX, y: pointer.rootY, cursorImageKey: this.currentImageKey }
+      this.lastEmittedAt = Date.now()
+      onPointer({ ...this.lastEventData, timestamp }, pointer)
+    })
+  }
 
-      this.X.QueryPointer(root, (err: any, pointer: any) => {
-        if (err) {
-          log.error('[MouseTracker-Linux] Error querying pointer:', err)
-          return
-        }
+  private emitMove = () => {
+    if (this.isMoveQueryInFlight) {
+      this.hasPendingMove = true
+      return
+    }
+    this.isMoveQueryInFlight = true
+    this.queryPointer((eventData) => {
+      this.isMoveQueryInFlight = false
+      this.emit('data', { ...eventData, type: 'move' })
+      if (this.hasPendingMove) {
+        this.hasPendingMove = false
+        this.emitMove()
+      }
+    })
+  }
 
-        const cursorImage = Buffer.from(cursorData.cursorImage.slice(8))
-        const imageKey = hash(cursorImage)
-
-        if (!this.cursorImageMap?.has(imageKey) && cursorImage.length > 0) {
-          this.cursorImageMap?.set(imageKey, {
-            width: cursorData.width,
-            height: cursorData.height,
-            xhot: cursorData.xhot,
-            yhot: cursorData.yhot,
-            image: Array.from(cursorImage), // CHANGE: Store as an array of numbers
-          })
+  // The renderer hides the cursor when no event is close to the current frame, so a still pointer is
+  // repeated at the polling rate. The position is known already and needs no X11 request.
+  private emitIdleMove = () => {
+    if (!this.lastEventData || this.pendingPointerQueries > 0) return
+    if (Date.now() - this.lastEmittedAt < 1000 / MOUSE_RECORDING_FPS) return
+    const data: MetaDataItem = {
+      ...this.lastEventData,
+      cursorImageKey: this.currentImageKey,
+      timestamp: Date.now(),
+      type: 'move',
+    }
+    this.lastEmittedAt = data.timestamp
+    this.emit('data', data)
+  }
+
+  private handleRawEvent = (event: XInputRawEvent) => {
+    switch (event.type) {
+      case 'RawMotion':
+        this.emitMove()
+        break
+      case 'RawButtonPress':
+      case 'RawButtonRelease':
+        this.handleRawButton(event.detail, event.type === 'RawButtonPress')
+        break
+      case 'RawKeyPress':
+        this.handleRawKey(event.detail, true)
+        break
+      case 'RawKeyRelease':
+        this.handleRawKey(event.detail, false)
+        break
+    }
+  }
+
+  private handleRawButton(button: number, isPressed: boolean) {
+    const { UP, DOWN, LEFT, RIGHT } = MOUSE_BUTTONS.LINUX_X11_SCROLL
+    const deltaY = button === UP ? -1 : button === DOWN ? 1 : 0
+    const deltaX = button === LEFT ? -1 : button === RIGHT ? 1 : 0
+
+    if (deltaX || deltaY) {
+      // Every scroll step is reported as a press and release; the press is enough
+      if (!isPressed) return
+      this.queryPointer((eventData) => this.emit('data', { ...eventData, type: 'scroll', deltaX, deltaY }))
+      return
+    }
+
+    const mappedButton = this.mapButton(button)
+    if (mappedButton === 'unknown') return
+    this.queryPointer((eventData) =>
+      this.emit('data', { ...eventData, type: 'click', button: mappedButton, pressed: isPressed }),
+    )
+  }
+
+  private handleRawKey(keycode: number, isPressed: boolean) {
+    if (!this.keyboardMapping) return
+    if (!isPressed) {
+      this.pressedKeycodes.delete(keycode)
+      return
+    }
+    this.pressedKeycodes.add(keycode)
+    this.emitKeys([keycode], [...this.pressedKeycodes])
+  }
+
+  private startPolling() {
+    this.isPolling = true
+    if (this.intervalId) clearInterval(this.intervalId)
+    this.intervalId = setInterval(this.pollMouseState, 1000 / MOUSE_RECORDING_FPS)
+  }
+
+  // Fallback when XInput2 events are unavailable. Quick clicks and scroll steps between two polls are lost.
+  private pollMouseState = () => {
+    if (!this.X) return
+    if (this.keyboardMapping) this.pollKeyboardState()
+
+    this.queryPointer((eventData, pointer) => {
+      const currentButtonMask = pointer.keyMask & 0x0700 // Mask for buttons 1-3
+
+      if (currentButtonMask !== this.lastButtonMask) {
+        const changedDown = currentButtonMask & ~this.lastButtonMask
+        const changedUp = this.lastButtonMask & ~currentButtonMask
+        if (changedDown) {
+          this.emit('data', { ...eventData, type: 'click', button: this.mapButtonMask(changedDown), pressed: true })
         }
+        if (changedUp) {
+          this.emit('data', { ...eventData, type: 'click', button: this.mapButtonMask(changedUp), pressed: false })
+        }
+      } else {
+        this.emit('data', { ...eventData, type: 'move' })
+      }
+      this.lastButtonMask = currentButtonMask
+    })
+  }
 
-        const timestamp = Date.now()
-        const currentButtonMask = pointer.keyMask & 0x1f00 // Mask for buttons 1-5
-
-        const eventData: any = { timestamp, x: pointer.rootX, y: pointer.rootY, cursorImageKey: imageKey }
-
-        if (currentButtonMask !== this.lastButtonMask) {
-          const changedDown = currentButtonMask & ~this.lastButtonMask
-          const changedUp = this.lastButtonMask & ~currentButtonMask
-          if (changedDown) {
-            this.emit('data', { ...eventData, type: 'click', button: this.mapButton(changedDown), pressed: true })
-          }
-          if (changedUp) {
-            this.emit('data', { ...eventData, type: 'click', button: this.mapButton(changedUp), pressed: false })
-          }
-        } else {
-          this.emit('data', { ...eventData, type: 'move' })
+  // Polled counterpart of handleRawKey, used with pollMouseState
+  private pollKeyboardState = () => {
+    this.X.QueryKeymap((err: Error, keymap: number[]) => {
+      if (err || !this.keyboardMapping) return
+
+      const pressedKeycodes: number[] = []
+      const newlyPressed: number[] = []
+      for (let byte = 0; byte < 32; byte++) {
+        for (let bit = 0; bit < 8; bit++) {
+          if (!(keymap[byte] & (1 << bit))) continue
+          const keycode = byte * 8 + bit
+          pressedKeycodes.push(keycode)
+          if (!(this.lastKeymap[byte] & (1 << bit))) newlyPressed.push(keycode)
         }
-        this.lastButtonMask = currentButtonMask
-      })
+      }
+      this.lastKeymap = Array.from(keymap)
+      this.emitKeys(newlyPressed, pressedKeycodes)
     })
   }
 
+  /**
+   * Emits a 'key' event for each newly pressed key that is not a modifier.
+   * @param pressedKeycodes All keys held at that moment, used to find the active modifiers.
+   */
+  private emitKeys(newlyPressed: number[], pressedKeycodes: number[]) {
+    if (newlyPressed.length === 0) return
+
+    const modifiers = [
+      ...new Set(
+        pressedKeycodes.map((keycode) => this.getKeyName(keycode, false)).filter((key) => key && isModifierKey(key)),
+      ),
+    ] as string[]
+    const isShifted = modifiers.includes('Shift')
+
+    for (const keycode of newlyPressed) {
+      const key = this.getKeyName(keycode, isShifted)
+      if (!key || isModifierKey(key)) continue
+      const keystroke: KeystrokeItem = { timestamp: Date.now(), key, modifiers }
+      this.emit('key', keystroke)
+    }
+  }
+
+  private getKeyName(keycode: number, isShifted: boolean): string | null {
+    const keysyms = this.keyboardMapping?.[keycode - this.minKeycode]
+    if (!keysyms) return null
+    // The second keysym is the Shift level; keys without one use the first for both
+    const keysym = (isShifted && keysyms[1]) || keysyms[0]
+    if (X11_KEYSYMS[keysym]) return X11_KEYSYMS[keysym]
+    return keysym > 0x20 && keysym <= 0xff ? String.fromCharCode(keysym) : null
+  }
+
   private createClient(): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!X11Module) return reject(new Error('x11 module is not available.'))
@@ -177,7 +402,20 @@ class LinuxMouseTracker extends EventEmitter implements IMouseTracker {
     })
   }
 
-  private mapButton = (code: number) => {
+  private mapButton = (button: number) => {
+    switch (button) {
+      case MOUSE_BUTTONS.LINUX_X11.LEFT:
+        return 'left'
+      case MOUSE_BUTTONS.LINUX_X11.MIDDLE:
+        return 'middle'
+      case MOUSE_BUTTONS.LINUX_X11.RIGHT:
+        return 'right'
+      default:
+        return 'unknown'
+    }
+  }
+
+  private mapButtonMask = (code: number) => {
     switch (code) {
       case MOUSE_BUTTONS.LINUX_X11_MASK.LEFT:
         return 'left'
@@ -199,7 +437,9 @@ class WindowsMouseTracker extends EventEmitter implements IMouseTracker {
   private lastPosition = { x: 0, y: 0 }
   private animationStartTime: number | null = null
 
-  async start(): Promise<boolean> {
+  async start(_cursorImageMap?: Map<string, any>, options: MouseTrackerOptions = {}): Promise<boolean> {
+    if (options.captureKeys) log.warn('[MouseTracker-Windows] Keystroke capture is not supported on Windows.')
+
     // Listen for position changes to update our state.
     mouseEvents.on('mousemove', (event: any) => {
       this.lastPosition = { x: event.x, y: event.y }
@@ -294,8 +534,9 @@ class MacOSMouseTracker extends EventEmitter implements IMouseTracker {
   private currentCursorName = 'arrow'
   private currentAniFrame = 0
   private lastPosition = { x: 0, y: 0 }
+  private heldModifiers = new Set<string>()
 
-  async start(): Promise<boolean> {
+  async start(_cursorImageMap?: Map<string, any>, options: MouseTrackerOptions = {}): Promise<boolean> {
     if (!iohook) {
       log.error('[MouseTracker-macOS] Cannot start, iohook-macos module not loaded.')
       return false
@@ -329,6 +570,18 @@ class MacOSMouseTracker extends EventEmitter implements IMouseTracker {
     iohook.on('rightMouseup', (event: any) => this.emitClickEvent(event, false))
     iohook.on('otherMouseup', (event: any) => this.emitClickEvent(event, false))
 
+    if (options.captureKeys) {
+      this.heldModifiers.clear()
+      iohook.on('keyDown', (event: any) => this.emitKeyEvent(event.keyCode))
+      // Modifier keys only report flag changes, each of which toggles the modifier of the key
+      iohook.on('flagsChanged', (event: any) => {
+        const key = MACOS_KEYCODES[event.keyCode]
+        if (!key || !isModifierKey(key)) return
+        if (this.heldModifiers.has(key)) this.heldModifiers.delete(key)
+        else this.heldModifiers.add(key)
+      })
+    }
+
     iohook.startMonitoring()
 
     // This poller is the SOLE source of 'move' events, ensuring a constant stream.
@@ -364,6 +617,16 @@ class MacOSMouseTracker extends EventEmitter implements IMouseTracker {
     this.emit('data', data)
   }
 
+  private emitKeyEvent = (keyCode: number) => {
+    let key = MACOS_KEYCODES[keyCode]
+    if (!key || isModifierKey(key)) return
+    // Key codes name the unshifted key; letters are the only ones whose shifted form is known on every layout
+    if (this.heldModifiers.has('Shift') && /^[a-z]$/.test(key)) key = key.toUpperCase()
+
+    const keystroke: KeystrokeItem = { timestamp: Date.now(), key, modifiers: [...this.heldModifiers] }
+    this.emit('key', keystroke)
+  }
+
   private pollAndEmitMove = () => {
     this.updateCursorState()
 
@@ -399,6 +662,22 @@ class MacOSMouseTracker extends EventEmitter implements IMouseTracker {
   }
 }
 
+/**
+ * Tells the user once per run that clicks are polled because the `xinput` tool is missing.
+ * Recording still works, so this is a warning and not an error.
+ */
+function warnMissingXInput() {
+  if (hasWarnedMissingXInput || appState.isHeadless) return
+  hasWarnedMissingXInput = true
+  dialog.showMessageBox({
+    type: 'warning',
+    message: 'xinput is not installed',
+    detail:
+      'ScreenArc uses the xinput tool to capture clicks, scrolling and keys as they happen. Without it, quick clicks ' +
+      'and scroll steps can be missed. Install it with your package manager, e.g. "sudo apt install xinput".',
+  })
+}
+
 // --- Factory Function ---
 export function createMouseTracker(): IMouseTracker | null {
   switch (process.platform) {
@@ -407,6 +686,7 @@ export function createMouseTracker(): IMouseTracker | null {
         dialog.showErrorBox('Dependency Missing', 'Could not load the required module for mouse tracking on Linux.')
         return null
       }
+      if (!findXInput()) warnMissingXInput()
       return new LinuxMouseTracker()
     case 'win32':
       if (!mouseEvents) {
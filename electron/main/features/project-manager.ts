@@ -0,0 +1,281 @@
+// Saving and opening `.screenarc` project files, and tracking which recordings they reference.
+
+import log from 'electron-log/main'
+import path from 'node:path'
+import fsPromises from 'node:fs/promises'
+import fsSync from 'node:fs'
+import { dialog } from 'electron'
+import Store from 'electron-store'
+import { appState } from '../state'
+import type { RecordingSession } from '../state'
+import type { ScreenArcProject } from '../types'
+import { ensureDirectoryExists, getRecordingDirectory } from '../lib/utils'
+import { PROJECT_FILE_EXTENSION, PROJECT_FILE_VERSION } from '../lib/constants'
+import { createEditorWindow, cleanupEditorFiles } from '../windows/editor-window'
+import { notifyLibraryChanged } from '../windows/library-window'
+
+const store = new Store()
+const PROJECT_REGISTRY_KEY = 'projects.known'
+const PROJECT_FILE_FILTERS = [{ name: 'ScreenArc Project', extensions: [PROJECT_FILE_EXTENSION] }]
+
+export function getSessionFilePaths(session: RecordingSession): string[] {
+  return [
+    session.screenVideoPath,
+    session.metadataPath,
+    session.webcamVideoPath,
+    session.audioPath,
+    session.systemAudioPath,
+  ].filter((filePath): filePath is string => !!filePath)
+}
+
+export function getKnownProjects(): string[] {
+  return store.get(PROJECT_REGISTRY_KEY, []) as string[]
+}
+
+export function registerProject(projectPath: string) {
+  const known = getKnownProjects().filter((p) => p !== projectPath)
+  store.set(PROJECT_REGISTRY_KEY, [projectPath, ...known])
+}
+
+export function unregisterProject(projectPath: string) {
+  store.set(
+    PROJECT_REGISTRY_KEY,
+    getKnownProjects().filter((p) => p !== projectPath),
+  )
+}
+
+/**
+ * Reads and validates a project file from disk.
+ * @throws If the file cannot be parsed or was written by a newer version of the app.
+ */
+export async function readProjectFile(projectPath: string): Promise<ScreenArcProject> {
+  const content = await fsPromises.readFile(projectPath, 'utf-8')
+  const project = JSON.parse(content) as ScreenArcProject
+
+  if (!project || typeof project !== 'object' || !project.session?.screenVideoPath || !project.session?.metadataPath) {
+    throw new Error('The file is not a valid ScreenArc project.')
+  }
+  if (typeof project.version !== 'number' || project.version > PROJECT_FILE_VERSION) {
+    throw new Error('This project was created with a newer version of ScreenArc.')
+  }
+  return project
+}
+
+/**
+ * Collects every media file referenced by a known project so that cleanup routines leave them alone.
+ * Projects that no longer exist on disk are dropped from the registry.
+ */
+export async function getProjectReferencedFiles(): Promise<Set<string>> {
+  const referenced = new Set<string>()
+  const stillExisting: string[] = []
+
+  for (const projectPath of getKnownProjects()) {
+    if (!fsSync.existsSync(projectPath)) continue
+    stillExisting.push(projectPath)
+    try {
+      const project = await readProjectFile(projectPath)
+      getSessionFilePaths(project.session).forEach((filePath) => referenced.add(filePath))
+    } catch (error) {
+      log.warn(`[ProjectManager] Could not read project ${projectPath}:`, error)
+    }
+  }
+
+  store.set(PROJECT_REGISTRY_KEY, stillExisting)
+  return referenced
+}
+
+export async function isSessionReferencedByProject(session: RecordingSession): Promise<boolean> {
+  const referenced = await getProjectReferencedFiles()
+  return referenced.has(session.screenVideoPath)
+}
+
+/**
+ * Asks the editor renderer for its current state. The renderer answers by invoking `project:save`.
+ */
+export function requestProjectSave(saveAs: boolean) {
+  if (!appState.editorWin || appState.editorWin.isDestroyed()) return
+  appState.editorWin.webContents.send('project:save-requested', { saveAs })
+}
+
+/**
+ * Writes the active editor session and the given editor state to a project file.
+ * Prompts for a location when the session has not been saved yet or when `saveAs` is set.
+ */
+export async function saveProject(
+  editorState: Record<string, unknown>,
+  saveAs: boolean,
+): Promise<{ canceled: boolean; filePath?: string; error?: string }> {
+  const session = appState.currentEditorSessionFiles
+  if (!session) return { canceled: true }
+
+  let projectPath = appState.currentProjectPath
+  if (!projectPath || saveAs) {
+    const recordingDir = getRecordingDirectory()
+    await ensureDirectoryExists(recordingDir)
+    const defaultName = `${path.basename(session.metadataPath, '.json')}.${PROJECT_FILE_EXTENSION}`
+    const options: Electron.SaveDialogOptions = {
+      title: 'Save Project',
+      defaultPath: projectPath ?? path.join(recordingDir, defaultName),
+      filters: PROJECT_FILE_FILTERS,
+    }
+    const { canceled, filePath } = appState.editorWin
+      ? await dialog.showSaveDialog(appState.editorWin, options)
+      : await dialog.showSaveDialog(options)
+    if (canceled || !filePath) return { canceled: true }
+    projectPath =
+      path.extname(filePath) === `.${PROJECT_FILE_EXTENSION}` ? filePath : `${filePath}.${PROJECT_FILE_EXTENSION}`
+  }
+
+  let createdAt = Date.now()
+  if (projectPath === appState.currentProjectPath && fsSync.existsSync(projectPath)) {
+    try {
+      createdAt = (await readProjectFile(projectPath)).createdAt ?? createdAt
+    } catch {
+      // Overwriting an unreadable file, start fresh
+    }
+  }
+
+  const project: ScreenArcProject = {
+    version: PROJECT_FILE_VERSION,
+    createdAt,
+    updatedAt: Date.now(),
+    session,
+    editorState,
+  }
+
+  try {
+    await fsPromises.writeFile(projectPath, JSON.stringify(project, null, 2), 'utf-8')
+  } catch (error) {
+    log.error(`[ProjectManager] Failed to save project to ${projectPath}:`, error)
+    dialog.showErrorBox('Save Failed', `Could not save the project: ${(error as Error).message}`)
+    return { canceled: false, error: (error as Error).message }
+  }
+
+  appState.currentProjectPath = projectPath
+  registerProject(projectPath)
+  notifyLibraryChanged()
+  log.info(`[ProjectManager] Project saved to ${projectPath}`)
+  return { canceled: false, filePath: projectPath }
+}
+
+/**
+ * Writes a new project for a recording that was never opened in the editor. The editor fills in
+ * its defaults when the project is opened.
+ */
+export async function createProjectFile(projectPath: string, session: RecordingSession) {
+  const project: ScreenArcProject = {
+    version: PROJECT_FILE_VERSION,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    session,
+    editorState: {},
+  }
+  await ensureDirectoryExists(path.dirname(projectPath))
+  await fsPromises.writeFile(projectPath, JSON.stringify(project, null, 2), 'utf-8')
+  registerProject(projectPath)
+  notifyLibraryChanged()
+  log.info(`[ProjectManager] Project created at ${projectPath}`)
+}
+
+/**
+ * Opens a project file, either into the current editor window or into a new one.
+ * @param projectPath - Optional path; when omitted the user is asked to pick a file.
+ */
+export async function openProject(projectPath?: string): Promise<{ canceled: boolean; filePath?: string }> {
+  if (!projectPath) {
+    const parent = appState.editorWin ?? appState.recorderWin
+    const options: Electron.OpenDialogOptions = {
+      title: 'Open Project',
+      defaultPath: getRecordingDirectory(),
+      properties: ['openFile'],
+      filters: PROJECT_FILE_FILTERS,
+    }
+    const { canceled, filePaths } = parent
+      ? await dialog.showOpenDialog(parent, options)
+      : await dialog.showOpenDialog(options)
+    if (canceled || filePaths.length === 0) return { canceled: true }
+    projectPath = filePaths[0]
+  }
+
+  let project: ScreenArcProject
+  try {
+    project = await readProjectFile(projectPath)
+  } catch (error) {
+    log.error(`[ProjectManager] Failed to open project ${projectPath}:`, error)
+    dialog.showErrorBox('Open Failed', `Could not open the project: ${(error as Error).message}`)
+    return { canceled: true }
+  }
+
+  const missingFiles = getSessionFilePaths(project.session).filter((filePath) => !fsSync.existsSync(filePath))
+  if (missingFiles.length > 0) {
+    dialog.showErrorBox(
+      'Missing Media',
+      `The project references files that no longer exist:\n\n${missingFiles.join('\n')}`,
+    )
+    return { canceled: true }
+  }
+
+  registerProject(projectPath)
+  const opened = await openSessionInEditor(project.session, { projectPath, editorState: project.editorState })
+  if (!opened) return { canceled: true }
+
+  log.info(`[ProjectManager] Opened project ${projectPath}`)
+  return { canceled: false, filePath: projectPath }
+}
+
+/**
+ * Shows a recording session in the editor. Reuses the open editor window if there is one,
+ * asking before discarding a recording that is not part of any saved project.
+ * @returns False if the user canceled.
+ */
+export async function openSessionInEditor(
+  session: RecordingSession,
+  project?: { projectPath?: string; editorState?: Record<string, unknown> },
+): Promise<boolean> {
+  // Opening the editor closes the recorder, and its cleanup would touch the files being recorded
+  if (appState.currentRecordingSession) {
+    log.warn('[ProjectManager] Not opening a session in the editor while recording.')
+    return false
+  }
+  const editorWin = appState.editorWin
+  if (!editorWin || editorWin.isDestroyed()) {
+    createEditorWindow(
+      session,
+      project?.editorState ? { projectPath: project.projectPath, editorState: project.editorState } : undefined,
+    )
+    appState.recorderWin?.close()
+    return true
+  }
+
+  const previous = appState.currentEditorSessionFiles
+  if (
+    previous &&
+    previous.screenVideoPath !== session.screenVideoPath &&
+    !(await isSessionReferencedByProject(previous))
+  ) {
+    const { response } = await dialog.showMessageBox(editorWin, {
+      type: 'warning',
+      buttons: ['Open Anyway', 'Cancel'],
+      defaultId: 1,
+      cancelId: 1,
+      message: 'Discard the current recording?',
+      detail: 'The recording open in the editor has not been saved to a project and will be deleted.',
+    })
+    if (response !== 0) return false
+    cleanupEditorFiles(previous)
+  }
+
+  appState.currentEditorSessionFiles = session
+  appState.currentProjectPath = project?.projectPath ?? null
+  editorWin.webContents.send('project:open', {
+    videoPath: session.screenVideoPath,
+    metadataPath: session.metadataPath,
+    webcamVideoPath: session.webcamVideoPath,
+    audioPath: session.audioPath,
+    systemAudioPath: session.systemAudioPath,
+    projectPath: project?.projectPath,
+    editorState: project?.editorState,
+  })
+  editorWin.focus()
+  return true
+}
@@ -0,0 +1,283 @@
+// Watches a running recording: reads FFmpeg's progress reports and the free space of the recording
+// directory, warns while the capture is struggling or the disk fills up, and keeps a report of the session.
+
+import log from 'electron-log/main'
+import { EventEmitter } from 'node:events'
+import fsPromises from 'node:fs/promises'
+import {
+  DISK_SPACE_CHECK_INTERVAL_MS,
+  DISK_SPACE_WARNING_BYTES,
+  DISK_SPACE_STOP_BYTES,
+  HEALTH_SAMPLE_WINDOW_MS,
+  LOW_FPS_RATIO,
+  DROPPED_FRAMES_RATIO,
+  HEALTH_WARNING_INTERVAL_MS,
+} from '../lib/constants'
+import type { HealthWarning, HealthWarningType, RecordingHealthReport, RecordingHealthStatus } from '../types'
+
+// FFmpeg's machine-readable progress on stdout, one `key=value` block per report
+export const FFMPEG_PROGRESS_ARGS = ['-progress', 'pipe:1', '-nostats']
+
+// Counters of one FFmpeg process; they start over with every segment
+interface ProgressCounters {
+  frames: number
+  droppedFrames: number
+  duplicatedFrames: number
+  outputSize: number
+  // Encoded time (ms)
+  duration: number
+}
+
+interface ProgressSample {
+  time: number
+  frames: number
+  skippedFrames: number
+}
+
+const EMPTY_COUNTERS: ProgressCounters = {
+  frames: 0,
+  droppedFrames: 0,
+  duplicatedFrames: 0,
+  outputSize: 0,
+  duration: 0,
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  return `${Math.round(bytes / 1024 ** 2)} MB`
+}
+
+/**
+ * Emits 'status' with a RecordingHealthStatus after every progress report and disk check,
+ * 'warning' with a HealthWarning when something goes wrong, and 'disk-full' once when the
+ * recording has to stop for lack of space.
+ */
+export class RecordingHealthMonitor extends EventEmitter {
+  private diskCheckInterval: NodeJS.Timeout | null = null
+  private pendingOutput = ''
+  private block: Record<string, string> = {}
+  // Totals of the segments that already ended
+  private completed: ProgressCounters = { ...EMPTY_COUNTERS }
+  private current: ProgressCounters = { ...EMPTY_COUNTERS }
+  private samples: ProgressSample[] = []
+  private fps = 0
+  private minFps: number | null = null
+  private freeDiskSpace: number | null = null
+  private minFreeDiskSpace: number | null = null
+  private isStoppedForDiskSpace = false
+  private isPaused = false
+  private warnings: HealthWarning[] = []
+  private lastWarningAt = new Map<HealthWarningType, number>()
+
+  constructor(
+    private readonly recordingDir: string,
+    private readonly targetFps: number,
+  ) {
+    super()
+  }
+
+  start() {
+    this.checkDiskSpace()
+    this.diskCheckInterval = setInterval(() => this.checkDiskSpace(), DISK_SPACE_CHECK_INTERVAL_MS)
+  }
+
+  stop() {
+    if (this.diskCheckInterval) {
+      clearInterval(this.diskCheckInterval)
+      this.diskCheckInterval = null
+    }
+    this.removeAllListeners()
+  }
+
+  /**
+   * Called when a new FFmpeg process starts, after a pause or at the beginning.
+   */
+  startSegment() {
+    this.completed = {
+      frames: this.completed.frames + this.current.frames,
+      droppedFrames: this.completed.droppedFrames + this.current.droppedFrames,
+      duplicatedFrames: this.completed.duplicatedFrames + this.current.duplicatedFrames,
+      outputSize: this.completed.outputSize + this.current.outputSize,
+      duration: this.completed.duration + this.current.duration,
+    }
+    this.current = { ...EMPTY_COUNTERS }
+    this.pendingOutput = ''
+    this.block = {}
+    // The rate across a pause means nothing
+    this.samples = []
+    this.setPaused(false)
+  }
+
+  setPaused(isPaused: boolean) {
+    this.isPaused = isPaused
+    this.emitStatus()
+  }
+
+  /**
+   * Feeds FFmpeg's stdout, which carries the progress reports.
+   */
+  handleProgressOutput(output: string) {
+    const lines = (this.pendingOutput + output).split('\n')
+    this.pendingOutput = lines.pop() ?? ''
+
+    for (const line of lines) {
+      const separator = line.indexOf('=')
+      if (separator < 0) continue
+      const key = line.slice(0, separator).trim()
+      this.block[key] = line.slice(separator + 1).trim()
+      // Every report ends with its `progress` line
+      if (key === 'progress') {
+        this.applyProgress(this.block)
+        this.block = {}
+      }
+    }
+  }
+
+  getReport(): RecordingHealthReport {
+    const totals = this.getTotals()
+    const seconds = totals.duration / 1000
+    return {
+      targetFps: this.targetFps,
+      averageFps: seconds > 0 ? totals.frames / seconds : 0,
+      minFps: this.minFps,
+      droppedFrames: totals.droppedFrames,
+      duplicatedFrames: totals.duplicatedFrames,
+      averageBitrateKbps: seconds > 0 ? (totals.outputSize * 8) / 1000 / seconds : 0,
+      outputSize: totals.outputSize,
+      minFreeDiskSpace: this.minFreeDiskSpace,
+      stoppedForDiskSpace: this.isStoppedForDiskSpace,
+      warnings: this.warnings,
+    }
+  }
+
+  private getTotals(): ProgressCounters {
+    return {
+      frames: this.completed.frames + this.current.frames,
+      droppedFrames: this.completed.droppedFrames + this.current.droppedFrames,
+      duplicatedFrames: this.completed.duplicatedFrames + this.current.duplicatedFrames,
+      outputSize: this.completed.outputSize + this.current.outputSize,
+      duration: this.completed.duration + this.current.duration,
+    }
+  }
+
+  private applyProgress(block: Record<string, string>) {
+    // Fields are "N/A" until FFmpeg has something to report; keep the last known value then
+    const read = (key: string, fallback: number) => {
+      const value = Number(block[key])
+      return Number.isFinite(value) ? value : fallback
+    }
+    // Older FFmpeg versions only print out_time_ms, which despite its name is in microseconds too
+    const outTimeUs = read('out_time_us', read('out_time_ms', this.current.duration * 1000))
+    this.current = {
+      frames: read('frame', this.current.frames),
+      droppedFrames: read('drop_frames', this.current.droppedFrames),
+      duplicatedFrames: read('dup_frames', this.current.duplicatedFrames),
+      outputSize: read('total_size', this.current.outputSize),
+      duration: Math.max(0, outTimeUs / 1000),
+    }
+
+    const now = Date.now()
+    const sample = {
+      time: now,
+      frames: this.current.frames,
+      skippedFrames: this.current.droppedFrames + this.current.duplicatedFrames,
+    }
+    this.samples.push(sample)
+    while (this.samples.length > 2 && now - this.samples[1].time >= HEALTH_SAMPLE_WINDOW_MS) this.samples.shift()
+    this.assessCapture(sample)
+    this.emitStatus()
+  }
+
+  /**
+   * Judges the capture over the sample window, once the window is full.
+   */
+  private assessCapture(latest: ProgressSample) {
+    const oldest = this.samples[0]
+    const elapsed = latest.time - oldest.time
+    const frames = latest.frames - oldest.frames
+    if (elapsed > 0) this.fps = (frames / elapsed) * 1000
+    // Startup is slow, so nothing is judged before a full window was recorded
+    if (elapsed < HEALTH_SAMPLE_WINDOW_MS) return
+
+    this.minFps = this.minFps === null ? this.fps : Math.min(this.minFps, this.fps)
+
+    if (this.fps < this.targetFps * LOW_FPS_RATIO) {
+      this.warn(
+        'low-fps',
+        `Capturing at ${this.fps.toFixed(0)} of ${this.targetFps} fps. Close other apps or pick a lighter profile.`,
+      )
+    }
+    const skippedFrames = latest.skippedFrames - oldest.skippedFrames
+    if (frames > 0 && skippedFrames / frames > DROPPED_FRAMES_RATIO) {
+      this.warn('dropped-frames', `${skippedFrames} frames dropped or repeated in the last few seconds.`)
+    }
+  }
+
+  private async checkDiskSpace() {
+    let freeDiskSpace: number
+    try {
+      const stats = await fsPromises.statfs(this.recordingDir)
+      freeDiskSpace = stats.bavail * stats.bsize
+    } catch (error) {
+      log.warn('[RecordingHealth] Could not read free disk space:', error)
+      return
+    }
+    this.freeDiskSpace = freeDiskSpace
+    this.minFreeDiskSpace =
+      this.minFreeDiskSpace === null ? freeDiskSpace : Math.min(this.minFreeDiskSpace, freeDiskSpace)
+
+    if (freeDiskSpace < DISK_SPACE_STOP_BYTES) {
+      if (!this.isStoppedForDiskSpace) {
+        this.isStoppedForDiskSpace = true
+        this.warn('disk-full', `Only ${formatBytes(freeDiskSpace)} left on disk. The recording was stopped and saved.`)
+        this.emit('disk-full')
+      }
+    } else if (freeDiskSpace < DISK_SPACE_WARNING_BYTES) {
+      const minutesLeft = this.getMinutesLeft(freeDiskSpace - DISK_SPACE_STOP_BYTES)
+      const timeLeft = minutesLeft !== null ? `, enough for about ${minutesLeft} more minutes` : ''
+      this.warn('low-disk-space', `Disk space is running low: ${formatBytes(freeDiskSpace)} left${timeLeft}.`)
+    }
+    this.emitStatus()
+  }
+
+  /**
+   * Estimates how long the recording can go on before it uses up the given space, from the average bitrate.
+   */
+  private getMinutesLeft(bytes: number): number | null {
+    const { averageBitrateKbps } = this.getReport()
+    if (averageBitrateKbps <= 0) return null
+    // The screen video is the largest output by far, but not the only one
+    return Math.max(0, Math.floor(bytes / ((averageBitrateKbps * 1000) / 8) / 60 / 1.2))
+  }
+
+  private warn(type: HealthWarningType, message: string) {
+    const now = Date.now()
+    const lastWarningAt = this.lastWarningAt.get(type)
+    if (lastWarningAt !== undefined && now - lastWarningAt < HEALTH_WARNING_INTERVAL_MS) return
+    this.lastWarningAt.set(type, now)
+
+    const warning: HealthWarning = { timestamp: now, type, message }
+    this.warnings.push(warning)
+    log.warn(`[RecordingHealth] ${message}`)
+    this.emit('warning', warning)
+  }
+
+  private emitStatus() {
+    const totals = this.getTotals()
+    const latestWarning = this.warnings[this.warnings.length - 1] ?? null
+    const status: RecordingHealthStatus = {
+      isPaused: this.isPaused,
+      duration: totals.duration,
+      fps: this.fps,
+      targetFps: this.targetFps,
+      droppedFrames: totals.droppedFrames,
+      duplicatedFrames: totals.duplicatedFrames,
+      bitrateKbps: totals.duration > 0 ? (totals.outputSize * 8) / totals.duration : 0,
+      outputSize: totals.outputSize,
+      freeDiskSpace: this.freeDiskSpace,
+      warning:
+        latestWarning && Date.now() - latestWarning.timestamp < HEALTH_WARNING_INTERVAL_MS ? latestWarning : null,
+    }
+    this.emit('status', status)
+  }
+}
@@ -0,0 +1,68 @@
+// Configurable global shortcuts for controlling a recording. They are only held while they can do
+// something, so that ScreenArc does not take key combinations away from other apps the rest of the time.
+
+import log from 'electron-log/main'
+import { globalShortcut } from 'electron'
+import Store from 'electron-store'
+import { DEFAULT_RECORDING_HOTKEYS } from '../lib/constants'
+import type { RecordingHotkeyAction, RecordingHotkeys } from '../types'
+
+const store = new Store()
+const HOTKEYS_KEY = 'recorder.hotkeys'
+
+// Accelerators currently registered by this module
+const registeredAccelerators = new Set<string>()
+
+export function getRecordingHotkeys(): RecordingHotkeys {
+  const saved = store.get(HOTKEYS_KEY) as Partial<RecordingHotkeys> | undefined
+  return { ...DEFAULT_RECORDING_HOTKEYS, ...saved }
+}
+
+/**
+ * Saves changed shortcuts. A shortcut taken over from another action is removed from that action.
+ * @returns All shortcuts after the change.
+ */
+export function saveRecordingHotkeys(changes: Partial<RecordingHotkeys>): RecordingHotkeys {
+  const hotkeys = getRecordingHotkeys()
+  for (const [action, accelerator] of Object.entries(changes) as [RecordingHotkeyAction, string][]) {
+    if (!(action in hotkeys) || typeof accelerator !== 'string') continue
+    for (const other of Object.keys(hotkeys) as RecordingHotkeyAction[]) {
+      if (other !== action && accelerator && hotkeys[other] === accelerator) hotkeys[other] = ''
+    }
+    hotkeys[action] = accelerator
+  }
+  store.set(HOTKEYS_KEY, hotkeys)
+  return hotkeys
+}
+
+/**
+ * Registers the shortcuts of the given actions and releases all others.
+ * @returns The actions whose shortcut could not be registered, usually because another app holds it.
+ */
+export function setActiveRecordingHotkeys(
+  handlers: Partial<Record<RecordingHotkeyAction, () => void>>,
+): RecordingHotkeyAction[] {
+  clearRecordingHotkeys()
+  const hotkeys = getRecordingHotkeys()
+  const failedActions: RecordingHotkeyAction[] = []
+
+  for (const [action, handler] of Object.entries(handlers) as [RecordingHotkeyAction, () => void][]) {
+    const accelerator = hotkeys[action]
+    if (!accelerator) continue
+    let isRegistered = false
+    try {
+      isRegistered = globalShortcut.register(accelerator, handler)
+    } catch (error) {
+      // Thrown for accelerators Electron cannot parse, e.g. ones saved by an older version
+      log.warn(`[RecordingHotkeys] Invalid shortcut "${accelerator}" for ${action}:`, error)
+    }
+    if (isRegistered) registeredAccelerators.add(accelerator)
+    else failedActions.push(action)
+  }
+  return failedActions
+}
+
+export function clearRecordingHotkeys() {
+  for (const accelerator of registeredAccelerators) globalShortcut.unregister(accelerator)
+  registeredAccelerators.clear()
+}
@@ -0,0 +1,211 @@
+// Keeps an on-disk record of the running recording so that it can be recovered if the app dies mid-recording.
+// Next to the media files, `<name>.recording.json` lists the session and its segments, and
+// `<name>.events.jsonl` receives the mouse events, cursor images, keystrokes and markers as they come in.
+
+import log from 'electron-log/main'
+import path from 'node:path'
+import fsPromises from 'node:fs/promises'
+import fsSync from 'node:fs'
+import { appState } from '../state'
+import type { RecordingSession, RecordingSegment, SegmentTrack } from '../state'
+import type { KeystrokeItem, RecordingMarker } from '../types'
+import { getRecordingDirectory } from '../lib/utils'
+import { RECORDING_JOURNAL_FLUSH_INTERVAL_MS } from '../lib/constants'
+import { countSettledKeystrokes, maskPasswordBursts } from './keystroke-filter'
+
+const MANIFEST_SUFFIX = '.recording.json'
+const EVENTS_SUFFIX = '.events.jsonl'
+
+interface JournalManifest {
+  session: RecordingSession
+  segments: RecordingSegment[]
+}
+
+export interface InterruptedRecording extends JournalManifest {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  events: any[]
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  cursorImages: Record<string, any>
+  keystrokes: KeystrokeItem[]
+  markers: RecordingMarker[]
+}
+
+let flushInterval: NodeJS.Timeout | null = null
+let flushedEventCount = 0
+let flushedKeystrokeCount = 0
+let flushedMarkerCount = 0
+let flushedCursorKeys = new Set<string>()
+let isFlushing = false
+
+/**
+ * Returns the media files of a segment, or the final files of a session.
+ */
+export function getRecordingMediaFiles(files: Partial<Pick<RecordingSession, SegmentTrack>>): string[] {
+  return [files.screenVideoPath, files.webcamVideoPath, files.audioPath, files.systemAudioPath].filter(
+    (filePath): filePath is string => !!filePath,
+  )
+}
+
+function getJournalPaths(session: RecordingSession) {
+  const base = session.metadataPath.replace(/\.json$/, '')
+  return { manifestPath: `${base}${MANIFEST_SUFFIX}`, eventsPath: `${base}${EVENTS_SUFFIX}` }
+}
+
+/**
+ * Writes the manifest of the current recording. Called whenever a segment starts or ends.
+ */
+export async function writeRecordingJournal() {
+  const session = appState.currentRecordingSession
+  if (!session) return
+
+  const manifest: JournalManifest = { session, segments: appState.recordingSegments }
+  const { manifestPath } = getJournalPaths(session)
+  const tempPath = `${manifestPath}.tmp`
+  try {
+    await fsPromises.writeFile(tempPath, JSON.stringify(manifest), 'utf-8')
+    await fsPromises.rename(tempPath, manifestPath)
+  } catch (error) {
+    log.error('[RecordingJournal] Failed to write manifest:', error)
+  }
+}
+
+/**
+ * Appends the mouse events, cursor images, keystrokes and markers recorded since the last flush.
+ * Keystrokes are masked first, and those of a burst still being typed wait for a later flush.
+ */
+export async function flushRecordingJournal() {
+  const session = appState.currentRecordingSession
+  if (!session || isFlushing) return
+  isFlushing = true
+
+  const lines: string[] = []
+  for (const [key, image] of appState.runtimeCursorImageMap) {
+    if (flushedCursorKeys.has(key)) continue
+    flushedCursorKeys.add(key)
+    lines.push(JSON.stringify({ cursor: [key, image] }))
+  }
+  const events = appState.recordedMouseEvents
+  for (let i = flushedEventCount; i < events.length; i++) {
+    lines.push(JSON.stringify({ event: events[i] }))
+  }
+  flushedEventCount = events.length
+  // Typed text is only journaled masked, so a burst is held back until it has ended and its masking is known
+  const pendingKeystrokes = appState.recordedKeystrokes.slice(flushedKeystrokeCount)
+  const settledKeystrokes = pendingKeystrokes.slice(0, countSettledKeystrokes(pendingKeystrokes, Date.now()))
+  for (const keystroke of maskPasswordBursts(settledKeystrokes)) {
+    lines.push(JSON.stringify({ keystroke }))
+  }
+  flushedKeystrokeCount += settledKeystrokes.length
+  const markers = appState.recordedMarkers
+  for (let i = flushedMarkerCount; i < markers.length; i++) {
+    lines.push(JSON.stringify({ marker: markers[i] }))
+  }
+  flushedMarkerCount = markers.length
+
+  try {
+    if (lines.length > 0) await fsPromises.appendFile(getJournalPaths(session).eventsPath, lines.join('\n') + '\n')
+  } catch (error) {
+    log.error('[RecordingJournal] Failed to flush events:', error)
+  } finally {
+    isFlushing = false
+  }
+}
+
+export async function startRecordingJournal() {
+  stopRecordingJournal()
+  flushedEventCount = 0
+  flushedKeystrokeCount = 0
+  flushedMarkerCount = 0
+  flushedCursorKeys = new Set()
+  await writeRecordingJournal()
+  flushInterval = setInterval(flushRecordingJournal, RECORDING_JOURNAL_FLUSH_INTERVAL_MS)
+}
+
+export function stopRecordingJournal() {
+  if (flushInterval) {
+    clearInterval(flushInterval)
+    flushInterval = null
+  }
+}
+
+/**
+ * Stops journaling and deletes the journal files. The media files are left alone.
+ */
+export async function clearRecordingJournal(session: RecordingSession) {
+  stopRecordingJournal()
+  const { manifestPath, eventsPath } = getJournalPaths(session)
+  await Promise.all([manifestPath, eventsPath].map((filePath) => fsPromises.rm(filePath, { force: true })))
+}
+
+/**
+ * Returns the files of every recording that still has a journal: the running one and all those waiting to be
+ * recovered, not only the latest. Orphan cleanup keeps them.
+ */
+export async function getJournaledFiles(): Promise<string[]> {
+  let files: string[]
+  try {
+    files = await fsPromises.readdir(getRecordingDirectory())
+  } catch {
+    return []
+  }
+
+  const journaledFiles: string[] = []
+  for (const file of files.filter((file) => file.endsWith(MANIFEST_SUFFIX))) {
+    try {
+      const content = await fsPromises.readFile(path.join(getRecordingDirectory(), file), 'utf-8')
+      const { session, segments }: JournalManifest = JSON.parse(content)
+      journaledFiles.push(session.metadataPath, ...getRecordingMediaFiles(session))
+      segments.forEach((segment) => journaledFiles.push(...getRecordingMediaFiles(segment)))
+    } catch (error) {
+      log.warn(`[RecordingJournal] Unreadable journal ${file}:`, error)
+    }
+  }
+  return journaledFiles
+}
+
+/**
+ * Finds the most recent recording whose journal was never cleared, i.e. one that did not stop cleanly.
+ */
+export async function readInterruptedRecording(): Promise<InterruptedRecording | null> {
+  let files: string[]
+  try {
+    files = await fsPromises.readdir(getRecordingDirectory())
+  } catch {
+    return null
+  }
+
+  const manifests = files.filter((file) => file.endsWith(MANIFEST_SUFFIX)).sort()
+  const latest = manifests[manifests.length - 1]
+  if (!latest) return null
+  if (manifests.length > 1) {
+    log.warn(`[RecordingJournal] ${manifests.length} interrupted recordings found, recovering ${latest} first`)
+  }
+
+  try {
+    const manifestPath = path.join(getRecordingDirectory(), latest)
+    const manifest: JournalManifest = JSON.parse(await fsPromises.readFile(manifestPath, 'utf-8'))
+    const recording: InterruptedRecording = { ...manifest, events: [], cursorImages: {}, keystrokes: [], markers: [] }
+
+    const { eventsPath } = getJournalPaths(manifest.session)
+    if (fsSync.existsSync(eventsPath)) {
+      const content = await fsPromises.readFile(eventsPath, 'utf-8')
+      for (const line of content.split('\n')) {
+        // The last line may have been cut off by the crash
+        try {
+          const entry = JSON.parse(line)
+          if (entry.event) recording.events.push(entry.event)
+          if (entry.cursor) recording.cursorImages[entry.cursor[0]] = entry.cursor[1]
+          if (entry.keystroke) recording.keystrokes.push(entry.keystroke)
+          if (entry.marker) recording.markers.push(entry.marker)
+        } catch {
+          continue
+        }
+      }
+    }
+    return recording
+  } catch (error) {
+    log.error(`[RecordingJournal] Unreadable journal ${latest}:`, error)
+    await fsPromises.rm(path.join(getRecordingDirectory(), latest), { force: true })
+    return null
+  }
+}
@@ -3,22 +3,112 @@
 
 import log from 'electron-log/main'
 import { spawn } from 'node:child_process'
+import { EventEmitter } from 'node:events'
 import path from 'node:path'
 import fsPromises from 'node:fs/promises'
-import { app, Menu, Tray, nativeImage, screen, ipcMain, dialog, systemPreferences } from 'electron'
+import fsSync from 'node:fs'
+import { app, Menu, Tray, nativeImage, screen, ipcMain, dialog, systemPreferences, Notification } from 'electron'
+import Store from 'electron-store'
 import { appState } from '../state'
-import { getFFmpegPath, ensureDirectoryExists } from '../lib/utils'
-import { VITE_PUBLIC } from '../lib/constants'
+import { getFFmpegPath, ensureDirectoryExists, getRecordingDirectory, probeMedia } from '../lib/utils'
+import { VITE_PUBLIC, UNMEASURED_AUDIO_LEAD_MS, RECORDING_COUNTDOWN_OPTIONS } from '../lib/constants'
 import { createMouseTracker } from './mouse-tracker'
+import { X11WindowTracker, getX11WindowGeometry } from './x11-windows'
+import { getRecordingProfile, getVideoEncoderArgs, getAudioEncoderArgs } from './recording-profiles'
+import { isShortcutKeystroke, maskPasswordBursts } from './keystroke-filter'
+import { withWallclockTimestamps, readInputStartTimes } from './capture-sync'
+import { setLastRegion, getSelectionOrigin, toScreenCoordinates } from './selection-regions'
+import { RecordingHealthMonitor, FFMPEG_PROGRESS_ARGS, formatBytes } from './recording-health'
+import { getRecordingHotkeys, setActiveRecordingHotkeys, clearRecordingHotkeys } from './recording-hotkeys'
+import {
+  startRecordingJournal,
+  stopRecordingJournal,
+  writeRecordingJournal,
+  clearRecordingJournal,
+  readInterruptedRecording,
+  getJournaledFiles,
+  getRecordingMediaFiles,
+} from './recording-journal'
+import type { InterruptedRecording } from './recording-journal'
+import type { RecordingProfile } from './recording-profiles'
+import { getSystemAudioMonitorSource, listPulseAudioSources, stopMicLevelMonitor } from './audio-sources'
+import { getWebcamModeArgs } from './webcam-modes'
 import { getCursorScale, restoreOriginalCursorScale, resetCursorScale } from './cursor-manager'
 import { createEditorWindow, cleanupEditorFiles } from '../windows/editor-window'
-import { createSavingWindow, createSelectionWindow } from '../windows/temporary-windows'
-import type { RecordingSession, RecordingGeometry } from '../state'
+import { createRecordingOverlay, moveRecordingOverlay, closeRecordingOverlay } from '../windows/recording-overlay'
+import { getProjectReferencedFiles } from './project-manager'
+import { getAutosaveReferencedFiles } from './autosave-manager'
+import {
+  createSavingWindow,
+  createSelectionWindow,
+  createRecordingHudWindow,
+  createCountdownWindow,
+} from '../windows/temporary-windows'
+import type { RecordingSession, RecordingGeometry, RecordingSegment, CaptureConfig, SegmentTrack } from '../state'
+import type {
+  KeystrokeCaptureMode,
+  KeystrokeItem,
+  SyncSegment,
+  SyncTrack,
+  RecordingHealthReport,
+  RecordingHealthStatus,
+  HealthWarning,
+  SelectionRegion,
+  RecordingMarker,
+  WebcamMode,
+  WebcamCaptureInfo,
+} from '../types'
 
 const FFMPEG_PATH = getFFmpegPath()
+const store = new Store()
+
+// Content protection keeps the HUD out of recordings on Windows and macOS only, so Linux starts without it
+const SHOW_HUD_SETTING = 'recorder.showHud'
+// Seconds counted down before capturing starts, 0 for none
+const COUNTDOWN_SETTING = 'recorder.countdown'
+// Limits after which a recording stops by itself, 0 for none
+const MAX_DURATION_SETTING = 'recorder.maxDurationMinutes'
+const MAX_FILE_SIZE_SETTING = 'recorder.maxFileSizeMB'
+// Gives the compositor time to take the countdown off the screen before the first frame is grabbed
+const COUNTDOWN_CLOSE_DELAY_MS = 150
+
+// Cancels the countdown that is running, if any
+let abortCountdown: (() => void) | null = null
+
+/**
+ * Emits 'saved' with the RecordingSession once a stopped recording is written to disk, and 'failed' when
+ * stopping left nothing usable. Headless recordings wait on these instead of an editor window.
+ */
+export const recordingEvents = new EventEmitter()
+
+// The media files of a recording, in the order FFmpeg's outputs are mapped
+const SEGMENT_TRACKS = ['screenVideoPath', 'webcamVideoPath', 'audioPath', 'systemAudioPath'] as const
+
+// The name each track recorded next to the screen video has in the metadata's sync data
+const SYNC_TRACKS: Partial<Record<SegmentTrack, SyncTrack>> = {
+  webcamVideoPath: 'webcam',
+  audioPath: 'mic',
+  systemAudioPath: 'system',
+}
+
+// FFmpeg's input summary is only read up to this length, it is printed right after startup
+const MAX_INPUT_SUMMARY_LENGTH = 64 * 1024
+
+// Fragmented MP4 stays playable up to the last written fragment if FFmpeg or the app dies.
+// Fragments are cut every second so that a crash loses at most that much footage.
+const FRAGMENTED_MP4_ARGS = ['-movflags', '+frag_keyframe+empty_moov+default_base_moof', '-frag_duration', '1000000']
+
+// Where a segment sits in wall-clock time, used to place mouse events on the joined timeline,
+// and how its other tracks line up with its screen video
+interface SegmentTiming {
+  startTime: number
+  duration: number
+  tracks: SyncSegment['tracks']
+}
 
 /**
- * Uses ffprobe to get the precise creation time of the video file.
+ * Gets the creation time of the video file. Only an estimate of when capturing started, used for
+ * segments whose start time FFmpeg did not report.
  * @param videoPath The path to the video file.
  * @returns A promise that resolves to the creation time as a UNIX timestamp (ms).
  */
@@ -46,6 +136,9 @@ async function validateRecordingFiles(session: RecordingSession): Promise<boolea
   if (session.audioPath) {
     filesToValidate.push(session.audioPath)
   }
+  if (session.systemAudioPath) {
+    filesToValidate.push(session.systemAudioPath)
+  }
 
   for (const filePath of filesToValidate) {
     try {
@@ -77,10 +170,10 @@ async function validateRecordingFiles(session: RecordingSession): Promise<boolea
 /**
  * Trims the audio file by removing the specified amount from the beginning.
  * @param audioPath - Path to the audio file to trim
- * @param trimMs - Amount to trim from the beginning in milliseconds (default 1000ms)
+ * @param trimMs - Amount to trim from the beginning in milliseconds
  * @returns Promise that resolves to the path of the trimmed audio file
  */
-async function trimAudioFile(audioPath: string, trimMs: number = 1000): Promise<string> {
+async function trimAudioFile(audioPath: string, trimMs: number): Promise<string> {
   const trimmedPath = audioPath.replace(/\.aac$/, '-trimmed.aac')
   const trimSeconds = trimMs / 1000
 
@@ -134,37 +227,84 @@ async function trimAudioFile(audioPath: string, trimMs: number = 1000): Promise<
  * @param inputArgs - Platform-specific FFmpeg input arguments.
  * @param hasWebcam - Flag indicating if webcam recording is enabled.
  * @param hasMic - Flag indicating if microphone recording is enabled.
+ * @param hasSystemAudio - Flag indicating if desktop audio is captured as its own track.
  * @param recordingGeometry - The logical dimensions and position of the recording area.
  * @param scaleFactor - The display scale factor (for Windows DPI scaling).
+ * @param windowId - X11 window being recorded, if any. Mouse events are cropped to its current position.
+ * @param keystrokeMode - Which key presses are recorded for the keystroke overlay.
+ * @param webcamMode - Mode the webcam was opened in, if one was picked in the recorder.
  */
 async function startActualRecording(
   inputArgs: string[],
   hasWebcam: boolean,
   hasMic: boolean,
+  hasSystemAudio: boolean,
+  profile: RecordingProfile,
   recordingGeometry: RecordingGeometry,
   scaleFactor: number = 1,
+  windowId?: number,
+  keystrokeMode: KeystrokeCaptureMode = 'off',
+  webcamMode?: WebcamMode,
 ) {
-  const recordingDir = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.screenarc')
+  // The recorder's level meter would otherwise keep a second capture of the mic open
+  stopMicLevelMonitor()
+
+  const recordingDir = getRecordingDirectory()
   await ensureDirectoryExists(recordingDir)
   const baseName = `ScreenArc-recording-${Date.now()}`
 
   const screenVideoPath = path.join(recordingDir, `${baseName}-screen.mp4`)
   const webcamVideoPath = hasWebcam ? path.join(recordingDir, `${baseName}-webcam.mp4`) : undefined
   const audioPath = hasMic ? path.join(recordingDir, `${baseName}-audio.aac`) : undefined
+  const systemAudioPath = hasSystemAudio ? path.join(recordingDir, `${baseName}-system-audio.aac`) : undefined
   const metadataPath = path.join(recordingDir, `${baseName}.json`)
 
   // Store recordingGeometry and scaleFactor in the session
-  appState.currentRecordingSession = { screenVideoPath, webcamVideoPath, audioPath, metadataPath, recordingGeometry, scaleFactor }
+  appState.currentRecordingSession = {
+    screenVideoPath,
+    webcamVideoPath,
+    audioPath,
+    systemAudioPath,
+    metadataPath,
+    recordingGeometry,
+    scaleFactor,
+    webcamMode,
+  }
+  appState.captureConfig = { inputArgs, hasWebcam, hasMic, hasSystemAudio, profile }
+  appState.recordingSegments = []
+  appState.isRecordingPaused = false
   appState.recorderWin?.minimize()
 
   // Reset state for the new session
   appState.recordingStartTime = Date.now()
   appState.recordedMouseEvents = []
+  appState.recordedKeystrokes = []
+  appState.recordedMarkers = []
   appState.runtimeCursorImageMap = new Map()
   appState.mouseTracker = createMouseTracker()
 
+  // For window recordings the capture area moves with the window, so mouse events are cropped to its live position
+  let liveGeometry = recordingGeometry
+  if (windowId !== undefined) {
+    appState.windowTracker = new X11WindowTracker(windowId)
+    appState.windowTracker.on('move', (geometry: RecordingGeometry) => {
+      liveGeometry = { ...liveGeometry, x: geometry.x, y: geometry.y }
+      moveRecordingOverlay(liveGeometry)
+    })
+    appState.windowTracker.on('closed', () => {
+      log.warn('[RecordingManager] Recorded window was closed. Stopping recording.')
+      stopRecording()
+    })
+    await appState.windowTracker.start()
+  }
+
+  await startRecordingJournal()
+
   if (appState.mouseTracker) {
     appState.mouseTracker.on('data', (data: any) => {
+      // Nothing is captured while paused, so the events would point at footage that does not exist
+      if (appState.isRecordingPaused) return
+
       // Normalize mouse coordinates based on platform
       // On Windows, mouse events come in physical pixels (with DPI scaling)
       // On other platforms, they're in logical pixels
@@ -178,22 +318,29 @@ async function startActualRecording(
       
       // Check if the mouse event is within the recording geometry bounds
       if (
-        normalizedX >= recordingGeometry.x &&
-        normalizedX <= recordingGeometry.x + recordingGeometry.width &&
-        normalizedY >= recordingGeometry.y &&
-        normalizedY <= recordingGeometry.y + recordingGeometry.height
+        normalizedX >= liveGeometry.x &&
+        normalizedX <= liveGeometry.x + liveGeometry.width &&
+        normalizedY >= liveGeometry.y &&
+        normalizedY <= liveGeometry.y + liveGeometry.height
       ) {
         const absoluteEvent = {
           ...data,
-          x: normalizedX - recordingGeometry.x,
-          y: normalizedY - recordingGeometry.y,
+          x: normalizedX - liveGeometry.x,
+          y: normalizedY - liveGeometry.y,
           timestamp: data.timestamp,
         }
         appState.recordedMouseEvents.push(absoluteEvent)
       }
     })
+    appState.mouseTracker.on('key', (keystroke: KeystrokeItem) => {
+      if (appState.isRecordingPaused) return
+      if (keystrokeMode === 'shortcuts' && !isShortcutKeystroke(keystroke)) return
+      appState.recordedKeystrokes.push(keystroke)
+    })
     // Check if tracker started successfully
-    const trackerStarted = await appState.mouseTracker.start(appState.runtimeCursorImageMap)
+    const trackerStarted = await appState.mouseTracker.start(appState.runtimeCursorImageMap, {
+      captureKeys: keystrokeMode !== 'off',
+    })
     if (!trackerStarted) {
       log.error('[RecordingManager] Mouse tracker failed to start, likely due to permissions. Aborting recording.')
       appState.recorderWin?.show()
@@ -202,15 +349,79 @@ async function startActualRecording(
     }
   }
 
-  const finalArgs = buildFfmpegArgs(inputArgs, hasWebcam, hasMic, screenVideoPath, webcamVideoPath, audioPath)
+  startHealthMonitor(recordingDir, profile.framerate)
+  startCaptureSegment()
+  updateRecordingHotkeys()
+
+  // Notify the recorder window that recording has started
+  appState.recorderWin?.webContents.send('recording-started')
+
+  if (!appState.isHeadless) {
+    createTray()
+    createRecordingOverlay(liveGeometry)
+  }
+  return { canceled: false, ...appState.currentRecordingSession }
+}
+
+/**
+ * Returns the file paths of one segment, e.g. `ScreenArc-recording-<ts>-part1-screen.mp4`.
+ */
+function getSegmentPaths(session: RecordingSession, index: number): Omit<RecordingSegment, 'startedAt' | 'endedAt'> {
+  const toSegmentPath = (filePath?: string) =>
+    filePath &&
+    path.join(path.dirname(filePath), path.basename(filePath).replace(/^(ScreenArc-recording-\d+)/, `$1-part${index}`))
+  return {
+    screenVideoPath: toSegmentPath(session.screenVideoPath)!,
+    webcamVideoPath: toSegmentPath(session.webcamVideoPath),
+    audioPath: toSegmentPath(session.audioPath),
+    systemAudioPath: toSegmentPath(session.systemAudioPath),
+  }
+}
+
+/**
+ * Spawns FFmpeg for the next segment of the current recording. Each stretch between pauses is
+ * captured to its own set of files, which are joined when the recording stops.
+ */
+function startCaptureSegment() {
+  const session = appState.currentRecordingSession
+  const config = appState.captureConfig
+  if (!session || !config) return
+
+  const segment: RecordingSegment = {
+    ...getSegmentPaths(session, appState.recordingSegments.length),
+    startedAt: Date.now(),
+  }
+  appState.recordingSegments.push(segment)
+  writeRecordingJournal()
+
+  const finalArgs = buildFfmpegArgs(config, segment)
   log.info(`[FFMPEG] Starting FFmpeg with args: ${finalArgs.join(' ')}`)
   appState.ffmpegProcess = spawn(FFMPEG_PATH, finalArgs)
+  appState.healthMonitor?.startSegment()
+  appState.ffmpegProcess.stdout.on('data', (data: any) => appState.healthMonitor?.handleProgressOutput(data.toString()))
+
+  const inputTracks = getInputTracks(config)
+  let inputSummary = ''
 
   // Monitor FFmpeg's stderr for progress, errors, and sync timing
   appState.ffmpegProcess.stderr.on('data', (data: any) => {
     const message = data.toString()
     log.warn(`[FFMPEG stderr]: ${message}`)
 
+    if (!segment.trackStartTimes && inputSummary.length < MAX_INPUT_SUMMARY_LENGTH) {
+      inputSummary += message
+      const startTimes = readInputStartTimes(inputSummary)
+      if (startTimes) {
+        segment.trackStartTimes = {}
+        for (const [index, startTime] of startTimes) {
+          const track = inputTracks[index]
+          if (track) segment.trackStartTimes[track] = startTime
+        }
+        log.info('[SYNC] Capture start times:', segment.trackStartTimes)
+        writeRecordingJournal()
+      }
+    }
+
     // Early detection of fatal errors to provide immediate feedback
     const fatalErrorKeywords = [
       'Cannot open display',
@@ -228,74 +439,260 @@ async function startActualRecording(
       setTimeout(() => cleanupAndDiscard(), 100)
     }
   })
+}
 
-  // Notify the recorder window that recording has started
-  appState.recorderWin?.webContents.send('recording-started')
+/**
+ * Asks FFmpeg to finish writing its output files and waits for it to exit.
+ */
+function stopFfmpeg(): Promise<void> {
+  return new Promise((resolve) => {
+    if (appState.ffmpegProcess) {
+      const ffmpeg = appState.ffmpegProcess
+      appState.ffmpegProcess = null
+      ffmpeg.on('close', (code: any) => {
+        log.info(`FFmpeg process exited with code ${code}`)
+        resolve()
+      })
+      // Send 'q' for graceful shutdown on Windows, SIGINT on others
+      if (process.platform === 'win32') {
+        ffmpeg.stdin?.write('q')
+        ffmpeg.stdin?.end()
+      } else {
+        ffmpeg.kill('SIGINT')
+      }
+    } else {
+      resolve()
+    }
+  })
+}
 
-  createTray()
-  return { canceled: false, ...appState.currentRecordingSession }
+/**
+ * Joins several media files of the same format without re-encoding.
+ */
+async function concatMediaFiles(inputPaths: string[], outputPath: string): Promise<void> {
+  const listPath = `${outputPath}.concat.txt`
+  // The concat demuxer needs forward slashes and escaped single quotes
+  const listContent = inputPaths
+    .map((filePath) => `file '${filePath.replace(/\\/g, '/').replace(/'/g, "'\\''")}'`)
+    .join('\n')
+  await fsPromises.writeFile(listPath, listContent, 'utf-8')
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const ffmpeg = spawn(FFMPEG_PATH, ['-y', '-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', outputPath])
+      ffmpeg.stderr.on('data', (data: any) => log.info(`[Concat FFmpeg]: ${data.toString()}`))
+      ffmpeg.on('error', reject)
+      ffmpeg.on('close', (code: any) => (code === 0 ? resolve() : reject(new Error(`Concat failed with code ${code}`))))
+    })
+  } finally {
+    await fsPromises.rm(listPath, { force: true })
+  }
+}
+
+/**
+ * Rewrites an imported video into a regular MP4 without re-encoding. The export reads the sample index from the
+ * movie header only, so a fragmented MP4, e.g. from OBS, would otherwise export with missing frames.
+ */
+async function remuxImportedVideo(inputPath: string, outputPath: string): Promise<void> {
+  const ffmpegArgs = ['-y', '-i', inputPath, '-map', '0:v:0', '-map', '0:a?', '-c', 'copy']
+  await new Promise<void>((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, [...ffmpegArgs, '-movflags', '+faststart', outputPath])
+    ffmpeg.stderr.on('data', (data: Buffer) => log.info(`[Import FFmpeg]: ${data.toString()}`))
+    ffmpeg.on('error', reject)
+    ffmpeg.on('close', (code: number | null) =>
+      code === 0 ? resolve() : reject(new Error(`Remux failed with code ${code}`)),
+    )
+  })
+}
+
+/**
+ * Marks the segment that was being recorded as finished and records that in the journal.
+ */
+async function endCurrentSegment() {
+  const segment = appState.recordingSegments[appState.recordingSegments.length - 1]
+  if (segment && !segment.endedAt) segment.endedAt = Date.now()
+  await writeRecordingJournal()
+}
+
+/**
+ * Lines up the tracks of every segment, measures where each segment sits in time and joins the
+ * segments of each track into the session's files. The fragmented video files are remuxed into
+ * regular MP4s on the way.
+ * @returns The timing of each segment that produced a video file, in recording order.
+ */
+async function mergeRecordingSegments(
+  session: RecordingSession,
+  segments: RecordingSegment[],
+): Promise<SegmentTiming[]> {
+  const recordedSegments: RecordingSegment[] = []
+  const timeline: SegmentTiming[] = []
+  for (const segment of segments) {
+    if (!fsSync.existsSync(segment.screenVideoPath)) {
+      log.warn(`[StopRecord] Segment ${segment.screenVideoPath} was not recorded, skipping it.`)
+      continue
+    }
+
+    const trackStartTimes = segment.trackStartTimes ?? {}
+    let startTime = trackStartTimes.screenVideoPath
+    if (startTime === undefined) {
+      log.warn(`[SYNC] No capture start time for ${path.basename(segment.screenVideoPath)}, using its creation time.`)
+      startTime = await getVideoStartTime(segment.screenVideoPath)
+    }
+
+    const tracks: SegmentTiming['tracks'] = {}
+    for (const track of ['webcamVideoPath', 'audioPath', 'systemAudioPath'] as const) {
+      const trackPath = segment[track]
+      if (!trackPath || !fsSync.existsSync(trackPath)) continue
+      const trackStartTime = trackStartTimes[track]
+      let offset =
+        trackStartTime !== undefined && trackStartTimes.screenVideoPath !== undefined
+          ? trackStartTime - startTime
+          : undefined
+
+      // Audio devices open before the screen and start early. The lead is cut off here, so that a
+      // joined audio file follows the joined video; a track that started late keeps its offset.
+      if (track !== 'webcamVideoPath') {
+        const leadMs = offset === undefined ? UNMEASURED_AUDIO_LEAD_MS : -offset
+        if (leadMs > 0) {
+          try {
+            log.info(`[StopRecord] Trimming audio file ${path.basename(trackPath)} by ${Math.round(leadMs)}ms...`)
+            await trimAudioFile(trackPath, leadMs)
+            offset = 0
+          } catch (error) {
+            log.error('[StopRecord] Failed to trim audio file:', error)
+            // Continue anyway - the offset still lines the track up in the editor
+          }
+        }
+      }
+      tracks[SYNC_TRACKS[track]!] = { start: 0, offset: offset ?? 0 }
+    }
+
+    // A segment cut short by a crash may not report its duration; fall back to the wall-clock time
+    const { duration } = await probeMedia(segment.screenVideoPath)
+    const fallbackDuration = segment.endedAt ? segment.endedAt - segment.startedAt : 0
+    recordedSegments.push(segment)
+    timeline.push({ startTime, duration: duration > 0 ? duration * 1000 : fallbackDuration, tracks })
+  }
+
+  for (const track of SEGMENT_TRACKS) {
+    const outputPath = session[track]
+    if (!outputPath) continue
+    const parts = recordedSegments
+      .map((segment, index) => ({ path: segment[track], timing: timeline[index] }))
+      .filter((part): part is { path: string; timing: SegmentTiming } => !!part.path && fsSync.existsSync(part.path))
+    if (parts.length === 0) continue
+
+    // Note where each part will begin in the joined file
+    const syncTrack = SYNC_TRACKS[track]
+    if (syncTrack && parts.length > 1) {
+      let position = 0
+      for (const part of parts) {
+        const trackSync = part.timing.tracks[syncTrack]
+        if (trackSync) trackSync.start = position
+        position += (await probeMedia(part.path)).duration * 1000
+      }
+    }
+
+    try {
+      if (parts.length === 1 && !outputPath.endsWith('.mp4')) {
+        await fsPromises.rename(parts[0].path, outputPath)
+      } else {
+        log.info(`[StopRecord] Joining ${parts.length} segment(s) into ${path.basename(outputPath)}`)
+        await concatMediaFiles(
+          parts.map((part) => part.path),
+          outputPath,
+        )
+        await Promise.all(parts.map((part) => fsPromises.rm(part.path, { force: true })))
+      }
+    } catch (error) {
+      log.error(`[StopRecord] Failed to join segments of ${path.basename(outputPath)}:`, error)
+    }
+  }
+
+  return timeline
+}
+
+/**
+ * Converts the segment timeline into the sync data stored in the metadata, placed on the joined video.
+ */
+function getSyncSegments(timeline: SegmentTiming[]): SyncSegment[] {
+  let start = 0
+  return timeline.map(({ duration, tracks }) => {
+    const segment = { start, duration, tracks }
+    start += duration
+    return segment
+  })
+}
+
+/**
+ * Maps a wall-clock event time to a position on the joined video, skipping the paused stretches.
+ */
+function toRecordingTime(timestamp: number, timeline: SegmentTiming[]): number {
+  let offset = 0
+  for (const [index, segment] of timeline.entries()) {
+    // Events after the last segment ended are kept relative to it, as before pausing existed
+    const isLast = index === timeline.length - 1
+    if (isLast || timestamp < segment.startTime + segment.duration) {
+      return offset + Math.max(0, timestamp - segment.startTime)
+    }
+    offset += segment.duration
+  }
+  return 0
+}
+
+/**
+ * Lists the track each FFmpeg input is recorded to, by input index. The inputs are always added in the
+ * order mic, system audio, webcam, screen.
+ */
+function getInputTracks(config: CaptureConfig): SegmentTrack[] {
+  const tracks: SegmentTrack[] = []
+  if (config.hasMic) tracks.push('audioPath')
+  if (config.hasSystemAudio) tracks.push('systemAudioPath')
+  if (config.hasWebcam) tracks.push('webcamVideoPath')
+  tracks.push('screenVideoPath')
+  return tracks
 }
 
 /**
  * Constructs the final FFmpeg command arguments by mapping input streams to output files.
  */
-function buildFfmpegArgs(
-  inputArgs: string[],
-  hasWebcam: boolean,
-  hasMic: boolean,
-  screenOut: string,
-  webcamOut?: string,
-  audioOut?: string,
-): string[] {
-  const finalArgs = [...inputArgs]
-  // Determine the index of each input stream (mic, webcam, screen)
-  const micIndex = hasMic ? 0 : -1
-  const webcamIndex = hasMic ? (hasWebcam ? 1 : -1) : hasWebcam ? 0 : -1
-  const screenIndex = (hasMic ? 1 : 0) + (hasWebcam ? 1 : 0)
+function buildFfmpegArgs(config: CaptureConfig, segment: RecordingSegment): string[] {
+  const { inputArgs, hasWebcam, hasMic, hasSystemAudio, profile } = config
+  // Every input is stamped with the wall clock so that their start times can be compared
+  const finalArgs = [...FFMPEG_PROGRESS_ARGS, ...withWallclockTimestamps(inputArgs)]
+  const inputTracks = getInputTracks(config)
+  const micIndex = inputTracks.indexOf('audioPath')
+  const systemAudioIndex = inputTracks.indexOf('systemAudioPath')
+  const webcamIndex = inputTracks.indexOf('webcamVideoPath')
+  const screenIndex = inputTracks.indexOf('screenVideoPath')
 
   // Map screen video stream (video only, no audio)
   finalArgs.push(
     '-map',
     `${screenIndex}:v`,
-    '-c:v',
-    'libx264',
-    '-preset',
-    'ultrafast', // Lowest CPU usage
-    '-crf', '18', // Good quality
-    '-tune', 'zerolatency', // Optimize for real-time
-    '-profile:v',
-    'high',
-    '-level',
-    '5.1',
-    '-pix_fmt',
-    'yuv420p',
-    screenOut,
+    ...getVideoEncoderArgs(profile),
+    ...FRAGMENTED_MP4_ARGS,
+    segment.screenVideoPath,
   )
 
   // Map audio stream to separate file if present
-  if (hasMic && audioOut) {
-    finalArgs.push('-map', `${micIndex}:a`, '-c:a', 'aac', '-b:a', '192k', audioOut)
+  if (hasMic && segment.audioPath) {
+    finalArgs.push('-map', `${micIndex}:a`, ...getAudioEncoderArgs(profile), segment.audioPath)
+  }
+
+  // System audio is kept as its own track so the editor can balance it against the mic
+  if (hasSystemAudio && segment.systemAudioPath) {
+    finalArgs.push('-map', `${systemAudioIndex}:a`, ...getAudioEncoderArgs(profile), segment.systemAudioPath)
   }
 
   // Map webcam video stream if present
-  if (hasWebcam && webcamOut) {
+  if (hasWebcam && segment.webcamVideoPath) {
     finalArgs.push(
       '-map',
       `${webcamIndex}:v`,
-      '-c:v',
-      'libx264',
-      '-preset',
-      'ultrafast',
-      '-crf',
-      '18',
-      '-tune', 'zerolatency',
-      '-profile:v',
-      'high',
-      '-level',
-      '5.1',
-      '-pix_fmt',
-      'yuv420p',
-      webcamOut,
+      ...getVideoEncoderArgs(profile),
+      ...FRAGMENTED_MP4_ARGS,
+      segment.webcamVideoPath,
     )
   }
 
@@ -308,31 +705,155 @@ function buildFfmpegArgs(
 function createTray() {
   const icon = nativeImage.createFromPath(path.join(VITE_PUBLIC, 'screenarc-appicon-tray.png'))
   appState.tray = new Tray(icon)
+  updateTrayMenu()
+}
+
+/**
+ * Rebuilds the tray menu so that it offers Pause or Resume depending on the recording state.
+ */
+function updateTrayMenu() {
+  if (!appState.tray) return
+  const isPaused = appState.isRecordingPaused
+  const hotkeys = getRecordingHotkeys()
   const contextMenu = Menu.buildFromTemplate([
+    {
+      label: isPaused ? 'Resume Recording' : 'Pause Recording',
+      accelerator: hotkeys.pause || undefined,
+      click: async () => {
+        await togglePauseRecording()
+      },
+    },
+    { type: 'separator' },
     {
       label: 'Stop Recording',
+      accelerator: hotkeys.stop || undefined,
       click: async () => {
         await stopRecording()
       },
     },
     {
       label: 'Cancel Recording',
+      accelerator: hotkeys.cancel || undefined,
       click: async () => {
         await cancelRecording()
       },
     },
   ])
-  appState.tray.setToolTip('ScreenArc is recording...')
+  appState.tray.setToolTip(isPaused ? 'ScreenArc recording is paused' : 'ScreenArc is recording...')
   appState.tray.setContextMenu(contextMenu)
 }
 
+/**
+ * Starts watching the capture, reporting its state in the tray tooltip and the HUD.
+ */
+function startHealthMonitor(recordingDir: string, targetFps: number) {
+  const monitor = new RecordingHealthMonitor(recordingDir, targetFps)
+  appState.healthMonitor = monitor
+  monitor.on('status', (status: RecordingHealthStatus) => {
+    appState.tray?.setToolTip(getHealthTooltip(status))
+    appState.hudWin?.webContents.send('recording-health:status', status)
+    appState.overlayControlsWin?.webContents.send('recording-health:status', status)
+  })
+  monitor.on('warning', (warning: HealthWarning) => {
+    if (Notification.isSupported()) new Notification({ title: 'ScreenArc', body: warning.message }).show()
+  })
+  monitor.on('disk-full', () => {
+    log.warn('[RecordingManager] Disk is almost full. Stopping recording.')
+    stopRecording()
+  })
+  watchAutoStopLimits(monitor)
+  monitor.start()
+
+  if (!appState.isHeadless && store.get(SHOW_HUD_SETTING, process.platform !== 'linux')) createRecordingHudWindow()
+}
+
+/**
+ * Stops the recording once it reaches the maximum duration or file size chosen in the settings.
+ * Paused time does not count towards the duration.
+ */
+function watchAutoStopLimits(monitor: RecordingHealthMonitor) {
+  const maxDurationMinutes = Number(store.get(MAX_DURATION_SETTING, 0)) || 0
+  const maxFileSizeMB = Number(store.get(MAX_FILE_SIZE_SETTING, 0)) || 0
+  if (maxDurationMinutes <= 0 && maxFileSizeMB <= 0) return
+
+  const onStatus = (status: RecordingHealthStatus) => {
+    let reason: string | null = null
+    if (maxDurationMinutes > 0 && status.duration >= maxDurationMinutes * 60 * 1000) {
+      reason = `The recording reached its ${maxDurationMinutes} minute limit and was saved.`
+    } else if (maxFileSizeMB > 0 && status.outputSize >= maxFileSizeMB * 1024 ** 2) {
+      reason = `The recording reached its ${formatBytes(maxFileSizeMB * 1024 ** 2)} size limit and was saved.`
+    }
+    if (!reason) return
+
+    monitor.off('status', onStatus)
+    log.info(`[RecordingManager] ${reason}`)
+    if (Notification.isSupported()) new Notification({ title: 'ScreenArc', body: reason }).show()
+    stopRecording()
+  }
+  monitor.on('status', onStatus)
+}
+
+/**
+ * Stops watching the capture and closes the HUD.
+ * @returns The health report of the recording, or undefined if no recording was watched.
+ */
+function stopHealthMonitor(): RecordingHealthReport | undefined {
+  const monitor = appState.healthMonitor
+  appState.healthMonitor = null
+  appState.hudWin?.close()
+  if (!monitor) return undefined
+  monitor.stop()
+  return monitor.getReport()
+}
+
+function getHealthTooltip(status: RecordingHealthStatus): string {
+  const lines = [status.isPaused ? 'ScreenArc recording is paused' : 'ScreenArc is recording...']
+  if (status.fps > 0 && !status.isPaused) lines.push(`${status.fps.toFixed(0)} of ${status.targetFps} fps`)
+  const skippedFrames = status.droppedFrames + status.duplicatedFrames
+  if (skippedFrames > 0) lines.push(`${skippedFrames} frames dropped`)
+  if (status.freeDiskSpace !== null) lines.push(`${formatBytes(status.freeDiskSpace)} free`)
+  if (status.warning) lines.push(status.warning.message)
+  return lines.join('\n')
+}
+
+/**
+ * Pauses a running recording or resumes a paused one. Pausing finishes the current segment;
+ * resuming starts a new one with the same inputs.
+ */
+export async function togglePauseRecording() {
+  if (!appState.currentRecordingSession || appState.isPauseToggleInProgress) return
+  appState.isPauseToggleInProgress = true
+  try {
+    if (appState.isRecordingPaused) {
+      log.info('[RecordingManager] Resuming recording.')
+      appState.isRecordingPaused = false
+      startCaptureSegment()
+    } else {
+      log.info('[RecordingManager] Pausing recording.')
+      appState.isRecordingPaused = true
+      await stopFfmpeg()
+      await endCurrentSegment()
+    }
+    updateTrayMenu()
+    // Replaces the plain tooltip just set with the detailed one
+    appState.healthMonitor?.setPaused(appState.isRecordingPaused)
+    appState.recorderWin?.webContents.send('recording-pause-changed', { isPaused: appState.isRecordingPaused })
+  } finally {
+    appState.isPauseToggleInProgress = false
+  }
+}
+
 /**
  * Orchestrates the start of a recording based on user options from the renderer.
  * @param options - The recording configuration selected by the user.
  */
 export async function startRecording(options: any) {
-  const { source, displayId, mic, webcam } = options
+  const { source, displayId, mic, webcam, windowId, systemAudio, profileId, keystrokes } = options
+  // Camera modes are only listed for V4L2 devices
+  const webcamMode: WebcamMode | undefined = process.platform === 'linux' ? webcam?.mode : undefined
   log.info('[RecordingManager] Received start recording request with options:', options)
+  const profile = getRecordingProfile(profileId)
+  log.info(`[RecordingManager] Using recording profile "${profile.name}"`)
 
   // macOS Permissions Check
   if (process.platform === 'darwin') {
@@ -376,13 +897,23 @@ export async function startRecording(options: any) {
   const baseFfmpegArgs: string[] = []
   let recordingGeometry: RecordingGeometry
   let recordingScaleFactor = 1  // Default to 1 for non-Windows or 100% scaling
+  let recordedWindowId: number | undefined
+  let hasSystemAudio = false
 
   // --- Add Microphone and Webcam inputs first ---
   if (mic) {
     switch (process.platform) {
-      case 'linux':
-        baseFfmpegArgs.push('-f', 'alsa', '-i', 'default')
+      case 'linux': {
+        // The recorder lists PulseAudio sources by name; without a sound server only ALSA's default device works
+        const pulseSources = await listPulseAudioSources()
+        if (pulseSources.some((s) => s.name === mic.deviceLabel)) {
+          baseFfmpegArgs.push('-f', 'pulse', '-i', mic.deviceLabel)
+        } else {
+          log.warn(`[RecordingManager] Microphone "${mic.deviceLabel}" is not a PulseAudio source, using ALSA default.`)
+          baseFfmpegArgs.push('-f', 'alsa', '-i', 'default')
+        }
         break
+      }
       case 'win32':
         baseFfmpegArgs.push('-f', 'dshow', '-i', `audio=${mic.deviceLabel}`)
         break
@@ -391,16 +922,44 @@ export async function startRecording(options: any) {
         break
     }
   }
+  if (systemAudio) {
+    if (process.platform === 'linux') {
+      const monitorSource = await getSystemAudioMonitorSource()
+      if (!monitorSource) {
+        dialog.showErrorBox(
+          'System Audio Unavailable',
+          'Could not find an audio output to record from. System audio capture requires PulseAudio or PipeWire.',
+        )
+        return { canceled: true }
+      }
+      baseFfmpegArgs.push('-f', 'pulse', '-i', monitorSource)
+      hasSystemAudio = true
+    } else {
+      log.warn('[RecordingManager] System audio capture is only supported on Linux')
+    }
+  }
   if (webcam) {
+    const webcamModeArgs = [
+      '-framerate',
+      String(profile.webcamFramerate),
+      '-video_size',
+      `${profile.webcamWidth}x${profile.webcamHeight}`,
+    ]
     switch (process.platform) {
       case 'linux':
-        baseFfmpegArgs.push('-f', 'v4l2', '-framerate', '30', '-i', `/dev/video${webcam.index}`)
+        baseFfmpegArgs.push(
+          '-f',
+          'v4l2',
+          ...(webcamMode ? getWebcamModeArgs(webcamMode) : webcamModeArgs),
+          '-i',
+          `/dev/video${webcam.index}`,
+        )
         break
       case 'win32':
-        baseFfmpegArgs.push('-f', 'dshow', '-framerate', '30', '-i', `video=${webcam.deviceLabel}`)
+        baseFfmpegArgs.push('-f', 'dshow', ...webcamModeArgs, '-i', `video=${webcam.deviceLabel}`)
         break
       case 'darwin':
-        baseFfmpegArgs.push('-f', 'avfoundation', '-framerate', '30', '-i', `${webcam.index}:none`)
+        baseFfmpegArgs.push('-f', 'avfoundation', ...webcamModeArgs, '-i', `${webcam.index}:none`)
         break
     }
   }
@@ -429,7 +988,7 @@ export async function startRecording(options: any) {
         baseFfmpegArgs.push(
           '-f',
           'x11grab',
-          '-framerate', '60',
+          '-framerate', String(profile.framerate),
           '-draw_mouse',
           '0',
           '-video_size',
@@ -442,7 +1001,7 @@ export async function startRecording(options: any) {
         baseFfmpegArgs.push(
           '-f',
           'gdigrab',
-          '-framerate', '60',
+          '-framerate', String(profile.framerate),
           '-draw_mouse',
           '0',
           '-offset_x',
@@ -459,7 +1018,7 @@ export async function startRecording(options: any) {
         baseFfmpegArgs.push(
           '-f',
           'avfoundation',
-          '-framerate', '60',
+          '-framerate', String(profile.framerate),
           '-i',
           `${allDisplays.findIndex((d) => d.id === targetDisplay.id) || 0}:none`,
         )
@@ -469,9 +1028,12 @@ export async function startRecording(options: any) {
     appState.recorderWin?.hide()
     createSelectionWindow()
     const selectedGeometry = await new Promise<any | undefined>((resolve) => {
-      ipcMain.once('selection:complete', (_e, geo) => {
+      ipcMain.once('selection:complete', (_e, region: SelectionRegion) => {
+        // The selection window reports positions relative to the display it covers
+        const screenRegion = toScreenCoordinates(region, getSelectionOrigin(appState.selectionWin))
+        setLastRegion(screenRegion)
         appState.selectionWin?.close()
-        resolve(geo)
+        resolve(screenRegion)
       })
       ipcMain.once('selection:cancel', () => {
         appState.selectionWin?.close()
@@ -507,7 +1069,7 @@ export async function startRecording(options: any) {
         baseFfmpegArgs.push(
           '-f',
           'x11grab',
-          '-framerate', '60',
+          '-framerate', String(profile.framerate),
           '-draw_mouse',
           '0',
           '-video_size',
@@ -520,7 +1082,7 @@ export async function startRecording(options: any) {
         baseFfmpegArgs.push(
           '-f',
           'gdigrab',
-          '-framerate', '60',
+          '-framerate', String(profile.framerate),
           '-draw_mouse',
           '0',
           '-offset_x',
@@ -540,57 +1102,184 @@ export async function startRecording(options: any) {
         appState.recorderWin?.show()
         return { canceled: true }
     }
+  } else if (source === 'window') {
+    if (process.platform !== 'linux') {
+      log.warn('[RecordingManager] Window capture is only supported on Linux (X11)')
+      return { canceled: true }
+    }
+    recordedWindowId = Number(windowId)
+    const windowGeometry = Number.isFinite(recordedWindowId) ? await getX11WindowGeometry(recordedWindowId) : null
+    if (!windowGeometry) {
+      dialog.showErrorBox('Window Not Found', 'The selected window is no longer available. Please choose another one.')
+      return { canceled: true }
+    }
+
+    const safeWidth = Math.floor(windowGeometry.width / 2) * 2
+    const safeHeight = Math.floor(windowGeometry.height / 2) * 2
+    recordingGeometry = { x: windowGeometry.x, y: windowGeometry.y, width: safeWidth, height: safeHeight }
+
+    // Grabbing the window itself (instead of a screen offset) makes the capture follow it when it moves.
+    // The capture size is fixed to the size at the start of the recording.
+    baseFfmpegArgs.push(
+      '-f',
+      'x11grab',
+      '-framerate', String(profile.framerate),
+      '-draw_mouse',
+      '0',
+      '-window_id',
+      `0x${recordedWindowId.toString(16)}`,
+      '-video_size',
+      `${safeWidth}x${safeHeight}`,
+      '-i',
+      display,
+    )
   } else {
     return { canceled: true }
   }
 
+  const countdown = appState.isHeadless ? 0 : Number(store.get(COUNTDOWN_SETTING, 0))
+  if (RECORDING_COUNTDOWN_OPTIONS.includes(countdown) && countdown > 0) {
+    const isCompleted = await runCountdown(countdown, recordingGeometry)
+    if (!isCompleted) {
+      log.info('[RecordingManager] Countdown was cancelled.')
+      appState.recorderWin?.show()
+      return { canceled: true }
+    }
+  }
+
   // Only get/store original cursor scale on Linux
   if (process.platform === 'linux') {
     appState.originalCursorScale = await getCursorScale()
   }
   log.info('[RecordingManager] Starting actual recording with args:', baseFfmpegArgs)
-  return startActualRecording(baseFfmpegArgs, !!webcam, !!mic, recordingGeometry, recordingScaleFactor)
+  return startActualRecording(
+    baseFfmpegArgs,
+    !!webcam,
+    !!mic,
+    hasSystemAudio,
+    profile,
+    recordingGeometry,
+    recordingScaleFactor,
+    recordedWindowId,
+    keystrokes,
+    webcamMode,
+  )
+}
+
+/**
+ * Counts down over the area about to be recorded.
+ * @returns False if the countdown was cancelled.
+ */
+function runCountdown(seconds: number, area: RecordingGeometry): Promise<boolean> {
+  appState.recorderWin?.minimize()
+  createCountdownWindow(area)
+  const countdownWin = appState.countdownWin!
+
+  return new Promise((resolve) => {
+    let remaining = seconds
+    let timer: NodeJS.Timeout | null = null
+    let isFinished = false
+
+    const finish = (isCompleted: boolean) => {
+      if (isFinished) return
+      isFinished = true
+      if (timer) clearTimeout(timer)
+      abortCountdown = null
+      if (!countdownWin.isDestroyed()) countdownWin.close()
+      updateRecordingHotkeys()
+      setTimeout(() => resolve(isCompleted), isCompleted ? COUNTDOWN_CLOSE_DELAY_MS : 0)
+    }
+    const tick = () => {
+      if (remaining === 0) return finish(true)
+      countdownWin.webContents.send('countdown:tick', remaining)
+      remaining--
+      timer = setTimeout(tick, 1000)
+    }
+
+    abortCountdown = () => finish(false)
+    countdownWin.once('ready-to-show', () => {
+      countdownWin.showInactive()
+      tick()
+    })
+    countdownWin.once('closed', () => finish(false))
+    // Stop and cancel shortcuts end the countdown
+    updateRecordingHotkeys()
+  })
+}
+
+/**
+ * Registers the global shortcuts that can act right now: stop, pause and cancel while a recording runs or
+ * counts down, start while only the recorder is open, and none otherwise.
+ */
+export function updateRecordingHotkeys() {
+  let failedActions: string[] = []
+  // Nobody is at the keyboard of a headless recording, keys may only come from the app being recorded
+  if (appState.isHeadless) {
+    clearRecordingHotkeys()
+  } else if (appState.currentRecordingSession || abortCountdown) {
+    failedActions = setActiveRecordingHotkeys({
+      stop: () => stopRecording(),
+      pause: () => togglePauseRecording(),
+      cancel: () => cancelRecording(),
+    })
+  } else if (appState.recorderWin) {
+    // The recorder knows the chosen sources, so it starts the recording itself
+    failedActions = setActiveRecordingHotkeys({
+      start: () => appState.recorderWin?.webContents.send('recording:hotkey', 'start'),
+    })
+  } else {
+    clearRecordingHotkeys()
+  }
+  if (failedActions.length > 0) {
+    log.warn(`[RecordingManager] Could not register shortcuts for: ${failedActions.join(', ')}. They may be in use.`)
+  }
 }
 
 /**
  * Handles the graceful stop of a recording, saves files, validates them, and opens the editor.
  */
 export async function stopRecording() {
+  if (abortCountdown) return abortCountdown()
   restoreOriginalCursorScale()
   log.info('Stopping recording, preparing to save...')
   appState.tray?.destroy()
   appState.tray = null
-  createSavingWindow()
+  if (!appState.isHeadless) createSavingWindow()
 
   // Step 1: Wait for FFmpeg and tracker to finish
   await cleanupAndSave()
   log.info('FFmpeg process finished and file is finalized.')
+  const healthReport = stopHealthMonitor()
 
   const session = appState.currentRecordingSession
   if (!session) {
     log.error('[StopRecord] No recording session found after cleanup. Aborting.')
     appState.savingWin?.close()
     appState.recorderWin?.show()
+    updateRecordingHotkeys()
+    recordingEvents.emit('failed')
     return
   }
 
   // Notify recorder window that the recording has finished, allowing it to reset its UI
   appState.recorderWin?.webContents.send('recording-finished', { canceled: false, ...session })
 
-  // Step 2: Trim audio file if present
-  if (session.audioPath) {
-    try {
-      log.info('[StopRecord] Trimming audio file by 1000ms...')
-      await trimAudioFile(session.audioPath, 1000)
-      log.info('[StopRecord] Audio file trimmed successfully.')
-    } catch (error) {
-      log.error('[StopRecord] Failed to trim audio file:', error)
-      // Continue anyway - audio is trimmed but not critical
-    }
-  }
+  // Step 2: Trim audio and join the segments recorded between pauses
+  const segments = appState.recordingSegments
+  appState.recordingSegments = []
+  const timeline = await mergeRecordingSegments(session, segments)
 
   // Step 3: Process and save metadata (after video file is complete)
-  await processAndSaveMetadata(session)
+  await processAndSaveMetadata(
+    session,
+    timeline,
+    appState.recordedMouseEvents,
+    Object.fromEntries(appState.runtimeCursorImageMap || []),
+    appState.recordedKeystrokes,
+    healthReport,
+    appState.recordedMarkers,
+  )
+  await clearRecordingJournal(session)
 
   // Step 4: Validate file
   const isValid = await validateRecordingFiles(session)
@@ -601,6 +1290,8 @@ export async function stopRecording() {
     appState.savingWin?.close()
     resetCursorScale()
     appState.recorderWin?.show()
+    updateRecordingHotkeys()
+    recordingEvents.emit('failed')
     return
   }
 
@@ -609,23 +1300,100 @@ export async function stopRecording() {
   resetCursorScale()
 
   appState.currentRecordingSession = null
-  if (session) {
-    createEditorWindow(
-      session.screenVideoPath,
-      session.metadataPath,
-      session.recordingGeometry,
-      session.webcamVideoPath,
-      session.audioPath,
-      session.scaleFactor,
-    )
-  }
+  recordingEvents.emit('saved', session)
+  if (appState.isHeadless) return
+  createEditorWindow(session)
   appState.recorderWin?.close()
 }
 
+/**
+ * Joins the segments and events of a recording that was cut off by a crash and writes its metadata.
+ * @returns True if enough of the recording survived to open it in the editor.
+ */
+async function finalizeInterruptedRecording(recording: InterruptedRecording): Promise<boolean> {
+  const { session, segments, events, cursorImages, keystrokes, markers } = recording
+  const timeline = await mergeRecordingSegments(session, segments)
+  if (timeline.length === 0) return false
+  await processAndSaveMetadata(session, timeline, events, cursorImages, keystrokes, undefined, markers)
+  return validateRecordingFiles(session)
+}
+
+/**
+ * Checks for a recording that was still running when the app or FFmpeg died and offers to recover it.
+ * Must run before any editor window is created, since that triggers orphan cleanup.
+ * @returns True if the recording was recovered into a new editor window.
+ */
+export async function recoverInterruptedRecording(): Promise<boolean> {
+  const recording = await readInterruptedRecording()
+  if (!recording) return false
+
+  const { session, segments } = recording
+  const startedAt = segments[0]?.startedAt
+  const { response } = await dialog.showMessageBox({
+    type: 'question',
+    buttons: ['Recover', 'Discard'],
+    defaultId: 0,
+    cancelId: 1,
+    message: 'Recover interrupted recording?',
+    detail: `A recording${
+      startedAt ? ` started ${new Date(startedAt).toLocaleString()}` : ''
+    } was not stopped properly. The footage captured until then can be opened in the editor.`,
+  })
+
+  if (response === 0) {
+    log.info('[Recovery] Recovering interrupted recording:', session)
+    // No saving window here: closing it while no other window exists would quit the app
+    const isRecovered = await finalizeInterruptedRecording(recording)
+    await clearRecordingJournal(session)
+    if (isRecovered) {
+      createEditorWindow(session)
+      return true
+    }
+    dialog.showErrorBox('Recovery Failed', 'No usable footage was found for the interrupted recording.')
+  } else {
+    log.info('[Recovery] User discarded the interrupted recording.')
+    await clearRecordingJournal(session)
+  }
+
+  await cleanupEditorFiles(session)
+  await Promise.all(segments.map((segment) => cleanupEditorFiles({ ...segment, metadataPath: '' })))
+  return false
+}
+
+/**
+ * Where the recorder is at, for callers outside the app like the automation API.
+ */
+export function getRecordingStatus() {
+  let state: 'idle' | 'countdown' | 'recording' | 'paused' = 'idle'
+  if (abortCountdown) state = 'countdown'
+  else if (appState.currentRecordingSession) state = appState.isRecordingPaused ? 'paused' : 'recording'
+  // Recorded time without the pauses; only the last segment can still be running
+  const now = Date.now()
+  const duration = appState.recordingSegments.reduce(
+    (total, segment) => total + (segment.endedAt ?? now) - segment.startedAt,
+    0,
+  )
+  return { state, duration, markerCount: appState.recordedMarkers.length }
+}
+
+/**
+ * Drops a marker at the current moment of the running recording. One dropped while paused lands where
+ * the recording resumes.
+ * @returns The marker, or null if nothing is being recorded.
+ */
+export function addRecordingMarker(label = ''): RecordingMarker | null {
+  if (!appState.currentRecordingSession) return null
+  const marker = { timestamp: Date.now(), label: label || `Marker ${appState.recordedMarkers.length + 1}` }
+  appState.recordedMarkers.push(marker)
+  log.info(`[RecordingManager] Added marker "${marker.label}"`)
+  return marker
+}
+
 /**
  * Cancels the recording and discards all associated files and processes.
  */
 export async function cancelRecording() {
+  if (abortCountdown) return abortCountdown()
   log.info('Cancelling recording and deleting files...')
   await cleanupAndDiscard()
   appState.recorderWin?.webContents.send('recording-finished', { canceled: true })
@@ -640,26 +1408,19 @@ async function cleanupAndSave(): Promise<void> {
     appState.mouseTracker.stop()
     appState.mouseTracker = null
   }
-
-  return new Promise((resolve) => {
-    if (appState.ffmpegProcess) {
-      const ffmpeg = appState.ffmpegProcess
-      appState.ffmpegProcess = null
-      ffmpeg.on('close', (code: any) => {
-        log.info(`FFmpeg process exited with code ${code}`)
-        resolve()
-      })
-      // Send 'q' for graceful shutdown on Windows, SIGINT on others
-      if (process.platform === 'win32') {
-        ffmpeg.stdin?.write('q')
-        ffmpeg.stdin?.end()
-      } else {
-        ffmpeg.kill('SIGINT')
-      }
-    } else {
-      resolve()
-    }
-  })
+  appState.windowTracker?.removeAllListeners()
+  appState.windowTracker?.stop()
+  appState.windowTracker = null
+  // The shortcuts would start a second stop while this one is saving
+  clearRecordingHotkeys()
+  closeRecordingOverlay()
+  appState.captureConfig = null
+  stopRecordingJournal()
+
+  // A paused recording has no running FFmpeg process; stopFfmpeg then resolves right away
+  await stopFfmpeg()
+  if (!appState.isRecordingPaused) await endCurrentSegment()
+  appState.isRecordingPaused = false
 }
 
 /**
@@ -685,26 +1446,45 @@ function getScaledGeometry(geometry: RecordingGeometry, scaleFactor: number): Re
 /**
  * Processes mouse events against the final video start time and saves the metadata file.
  * @param session The current recording session.
+ * @param timeline The timing of the recorded segments, used to shift events recorded after a pause.
+ * @param events The raw mouse events, timestamped in wall-clock time.
+ * @param cursorImages The cursor images referenced by the events.
+ * @param keystrokes The captured key presses, timestamped in wall-clock time.
+ * @param healthReport How the capture went; missing for recovered recordings.
  * @returns A promise that resolves to true on success, false on failure.
  */
-async function processAndSaveMetadata(session: RecordingSession): Promise<boolean> {
+async function processAndSaveMetadata(
+  session: RecordingSession,
+  timeline: SegmentTiming[],
+  events: any[],
+  cursorImages: Record<string, any>,
+  keystrokes: KeystrokeItem[],
+  healthReport?: RecordingHealthReport,
+  markers: RecordingMarker[] = [],
+): Promise<boolean> {
   try {
-    const videoStartTime = await getVideoStartTime(session.screenVideoPath)
-    log.info(`[SYNC] Precise video start time from ffprobe: ${new Date(videoStartTime).toISOString()}`)
+    if (timeline.length === 0) throw new Error('No recorded segments to sync against.')
+    log.info(`[SYNC] Video start time: ${new Date(timeline[0].startTime).toISOString()}`)
+    if (timeline.length > 1) log.info(`[SYNC] Recording was paused; mapping events onto ${timeline.length} segments.`)
 
     // On Windows, scale mouse coordinates to match physical video dimensions
     const scaleFactor = session.scaleFactor || 1
-    const finalEvents = appState.recordedMouseEvents.map((event) => {
+    const finalEvents = events.map((event) => {
       const scaledX = process.platform === 'win32' ? event.x * scaleFactor : event.x
       const scaledY = process.platform === 'win32' ? event.y * scaleFactor : event.y
       return {
         ...event,
         x: scaledX,
         y: scaledY,
-        timestamp: Math.max(0, event.timestamp - videoStartTime),
+        timestamp: toRecordingTime(event.timestamp, timeline),
       }
     })
 
+    const finalKeystrokes = maskPasswordBursts(keystrokes).map((keystroke) => ({
+      ...keystroke,
+      timestamp: toRecordingTime(keystroke.timestamp, timeline),
+    }))
+
     // On Windows, also scale the recording geometry to match video dimensions
     const scaledGeometry = getScaledGeometry(session.recordingGeometry, scaleFactor)
 
@@ -713,9 +1493,19 @@ async function processAndSaveMetadata(session: RecordingSession): Promise<boolea
       platform: process.platform,
       screenSize: primaryDisplay.size,
       geometry: scaledGeometry,
-      syncOffset: 0,
-      cursorImages: Object.fromEntries(appState.runtimeCursorImageMap || []),
+      sync: { segments: getSyncSegments(timeline) },
+      cursorImages,
       events: finalEvents,
+      keystrokes: finalKeystrokes,
+      health: healthReport && {
+        ...healthReport,
+        warnings: healthReport.warnings.map((warning) => ({
+          ...warning,
+          timestamp: toRecordingTime(warning.timestamp, timeline),
+        })),
+      },
+      markers: markers.map((marker) => ({ ...marker, timestamp: toRecordingTime(marker.timestamp, timeline) })),
+      webcam: await getWebcamCaptureInfo(session),
     }
 
     await fsPromises.writeFile(session.metadataPath, JSON.stringify(finalMetadata))
@@ -731,13 +1521,25 @@ async function processAndSaveMetadata(session: RecordingSession): Promise<boolea
       cursorImages: {},
       geometry: scaledGeometry,
       screenSize: screen.getPrimaryDisplay().size,
-      syncOffset: 0,
     }
     await fsPromises.writeFile(session.metadataPath, JSON.stringify(errorMetadata))
     return false
   }
 }
 
+/**
+ * Describes how the webcam track was captured, measured on the joined webcam video.
+ */
+async function getWebcamCaptureInfo(session: RecordingSession): Promise<WebcamCaptureInfo | undefined> {
+  if (!session.webcamVideoPath || !fsSync.existsSync(session.webcamVideoPath)) return undefined
+  const { width, height, frameRate } = await probeMedia(session.webcamVideoPath)
+  const requested = session.webcamMode
+  if (requested && requested.framerate > 0 && frameRate > 0 && frameRate < requested.framerate * 0.9) {
+    log.warn(`[SYNC] Webcam delivered ${frameRate} fps of the requested ${requested.framerate} fps.`)
+  }
+  return { mode: requested ?? null, width, height, framerate: frameRate }
+}
+
 /**
  * Forcefully terminates all recording processes and deletes any temporary files.
  */
@@ -745,15 +1547,27 @@ export async function cleanupAndDiscard() {
   if (!appState.currentRecordingSession) return
   log.warn('[Cleanup] Discarding current recording session.')
   const sessionToDiscard = { ...appState.currentRecordingSession }
+  const segmentsToDiscard = appState.recordingSegments
   appState.currentRecordingSession = null
+  appState.recordingSegments = []
+  appState.captureConfig = null
+  appState.isRecordingPaused = false
+  updateRecordingHotkeys()
 
   appState.ffmpegProcess?.kill('SIGKILL')
   appState.ffmpegProcess = null
 
   appState.mouseTracker?.stop()
   appState.mouseTracker = null
+  appState.windowTracker?.removeAllListeners()
+  appState.windowTracker?.stop()
+  appState.windowTracker = null
+  stopHealthMonitor()
+  closeRecordingOverlay()
 
   appState.recordedMouseEvents = []
+  appState.recordedKeystrokes = []
+  appState.recordedMarkers = []
   appState.runtimeCursorImageMap = new Map()
 
   restoreOriginalCursorScale()
@@ -762,16 +1576,19 @@ export async function cleanupAndDiscard() {
 
   // Asynchronously delete files to not block the UI
   setTimeout(async () => {
+    await clearRecordingJournal(sessionToDiscard)
     await cleanupEditorFiles(sessionToDiscard)
+    await Promise.all(segmentsToDiscard.map((segment) => cleanupEditorFiles({ ...segment, metadataPath: '' })))
   }, 200)
 }
 
 /**
  * Scans the recording directory for leftover files from crashed sessions and deletes them.
+ * Complete recordings, with both their metadata and their screen video, are kept since the library lists them.
  */
 export async function cleanupOrphanedRecordings() {
   log.info('[Cleanup] Starting orphaned recording cleanup...')
-  const recordingDir = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.screenarc')
+  const recordingDir = getRecordingDirectory()
   const protectedFiles = new Set<string>()
 
   // Protect files from the currently active editor or recording session
@@ -781,10 +1598,31 @@ export async function cleanupOrphanedRecordings() {
   if (appState.currentRecordingSession) {
     Object.values(appState.currentRecordingSession).forEach((file) => file && protectedFiles.add(String(file)))
   }
+  appState.recordingSegments.forEach((segment) =>
+    getRecordingMediaFiles(segment).forEach((file) => protectedFiles.add(file)),
+  )
+  // Protect files of every recording with a journal, the running one and those waiting to be recovered
+  const journaledFiles = await getJournaledFiles()
+  journaledFiles.forEach((file) => protectedFiles.add(file))
+  // Protect files referenced by saved projects
+  const projectFiles = await getProjectReferencedFiles()
+  projectFiles.forEach((file) => protectedFiles.add(file))
+  // Protect files of an autosaved session that may still be restored
+  const autosaveFiles = await getAutosaveReferencedFiles()
+  autosaveFiles.forEach((file) => protectedFiles.add(file))
 
   try {
     const allFiles = await fsPromises.readdir(recordingDir)
-    const filePattern = /^ScreenArc-recording-\d+(-screen\.mp4|-webcam\.mp4|\.json)$/
+    const fileNames = new Set(allFiles)
+    for (const file of allFiles) {
+      const baseName = file.match(/^(ScreenArc-recording-\d+)\.json$/)?.[1]
+      if (!baseName || !fileNames.has(`${baseName}-screen.mp4`)) continue
+      for (const suffix of ['.json', '-screen.mp4', '-webcam.mp4']) {
+        protectedFiles.add(path.join(recordingDir, `${baseName}${suffix}`))
+      }
+    }
+    // Segment files (`-partN-`) only outlive a recording if the app crashed while it was running
+    const filePattern = /^ScreenArc-recording-\d+(-screen\.mp4|-webcam\.mp4|\.json|-part\d+-.+)$/
     const filesToDelete = allFiles
       .filter((file) => filePattern.test(file))
       .map((file) => path.join(recordingDir, file))
@@ -851,20 +1689,25 @@ export async function loadVideoFromFile() {
   createSavingWindow()
 
   try {
-    const recordingDir = path.join(process.env.HOME || process.env.USERPROFILE || '.', '.screenarc')
+    const recordingDir = getRecordingDirectory()
     await ensureDirectoryExists(recordingDir)
     const baseName = `ScreenArc-recording-${Date.now()}`
     const screenVideoPath = path.join(recordingDir, `${baseName}-screen.mp4`)
     const metadataPath = path.join(recordingDir, `${baseName}.json`)
 
-    await fsPromises.copyFile(sourceVideoPath, screenVideoPath)
+    try {
+      await remuxImportedVideo(sourceVideoPath, screenVideoPath)
+    } catch (error) {
+      // Streams an MP4 cannot hold, such as Vorbis audio, still play in the editor when the file is copied as is
+      log.warn('[RecordingManager] Could not remux the imported video, copying it as is:', error)
+      await fsPromises.copyFile(sourceVideoPath, screenVideoPath)
+    }
     await fsPromises.writeFile(
       metadataPath,
       JSON.stringify({
         platform: process.platform,
         events: [],
         cursorImages: {},
-        syncOffset: 0,
       }),
       'utf-8',
     )
@@ -887,7 +1730,7 @@ export async function loadVideoFromFile() {
 
     await new Promise((resolve) => setTimeout(resolve, 500))
     appState.savingWin?.close()
-    createEditorWindow(screenVideoPath, metadataPath, session.recordingGeometry, undefined, undefined, session.scaleFactor)
+    createEditorWindow(session)
     recorderWindow.close()
     return { canceled: false, filePath: screenVideoPath }
   } catch (error) {
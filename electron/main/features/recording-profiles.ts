@@ -0,0 +1,167 @@
+// Named encoder settings used while recording. The built-in profiles are fixed; the custom one is stored in settings.
+
+import log from 'electron-log/main'
+import Store from 'electron-store'
+
+export type VideoCodec = 'x264' | 'x265' | 'vp9' | 'lossless'
+
+export interface RecordingProfile {
+  id: string
+  name: string
+  codec: VideoCodec
+  crf: number
+  preset: string
+  framerate: number
+  webcamWidth: number
+  webcamHeight: number
+  webcamFramerate: number
+  audioBitrate: number // kbit/s
+}
+
+export const DEFAULT_PROFILE_ID = 'high-quality'
+export const CUSTOM_PROFILE_ID = 'custom'
+const CUSTOM_PROFILE_KEY = 'recorder.customProfile'
+
+const BUILT_IN_PROFILES: RecordingProfile[] = [
+  {
+    id: 'low-cpu',
+    name: 'Low CPU',
+    codec: 'x264',
+    crf: 23,
+    preset: 'ultrafast',
+    framerate: 30,
+    webcamWidth: 640,
+    webcamHeight: 480,
+    webcamFramerate: 30,
+    audioBitrate: 128,
+  },
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'High quality',
+    codec: 'x264',
+    crf: 18,
+    preset: 'ultrafast',
+    framerate: 60,
+    webcamWidth: 1280,
+    webcamHeight: 720,
+    webcamFramerate: 30,
+    audioBitrate: 192,
+  },
+  {
+    // H.264 rather than H.265, which the editor's preview cannot play back on most systems
+    id: 'small-files',
+    name: 'Small files',
+    codec: 'x264',
+    crf: 28,
+    preset: 'veryfast',
+    framerate: 30,
+    webcamWidth: 640,
+    webcamHeight: 480,
+    webcamFramerate: 30,
+    audioBitrate: 96,
+  },
+]
+
+const store = new Store()
+
+function getCustomProfile(): RecordingProfile {
+  const defaults = BUILT_IN_PROFILES.find((p) => p.id === DEFAULT_PROFILE_ID)!
+  const saved = store.get(CUSTOM_PROFILE_KEY) as Partial<RecordingProfile> | undefined
+  return { ...defaults, ...saved, id: CUSTOM_PROFILE_ID, name: 'Custom' }
+}
+
+export function listRecordingProfiles(): RecordingProfile[] {
+  return [...BUILT_IN_PROFILES, getCustomProfile()]
+}
+
+/**
+ * Looks up a profile by id, falling back to the default profile for unknown or missing ids.
+ */
+export function getRecordingProfile(profileId?: string): RecordingProfile {
+  const profile = listRecordingProfiles().find((p) => p.id === profileId)
+  if (!profile) {
+    if (profileId) log.warn(`[RecordingProfiles] Unknown profile "${profileId}", using the default.`)
+    return BUILT_IN_PROFILES.find((p) => p.id === DEFAULT_PROFILE_ID)!
+  }
+  return profile
+}
+
+export function saveCustomProfile(profile: Partial<RecordingProfile>) {
+  // Id and name are fixed for the custom profile
+  const settings = { ...profile }
+  delete settings.id
+  delete settings.name
+  store.set(CUSTOM_PROFILE_KEY, { ...getCustomProfile(), ...settings })
+  log.info('[RecordingProfiles] Saved custom profile:', settings)
+  return getCustomProfile()
+}
+
+/**
+ * Returns the FFmpeg output options that encode a video stream with the given profile.
+ * Recordings stay in MP4 containers whatever the codec, so the rest of the pipeline is unchanged.
+ */
+export function getVideoEncoderArgs(profile: RecordingProfile): string[] {
+  const crf = String(profile.crf)
+  switch (profile.codec) {
+    case 'x265':
+      // hvc1 tagging lets players that support HEVC recognize the stream in MP4
+      return ['-c:v', 'libx265', '-preset', profile.preset, '-crf', crf, '-tag:v', 'hvc1', '-pix_fmt', 'yuv420p']
+    case 'vp9':
+      // Realtime deadline keeps libvpx fast enough for live capture; -b:v 0 enables constant quality mode
+      return [
+        '-c:v',
+        'libvpx-vp9',
+        '-deadline',
+        'realtime',
+        '-cpu-used',
+        '8',
+        '-row-mt',
+        '1',
+        '-crf',
+        crf,
+        '-b:v',
+        '0',
+        '-pix_fmt',
+        'yuv420p',
+      ]
+    case 'lossless':
+      // Lossless H.264 always uses the High 4:4:4 Predictive profile, which Chromium cannot decode. Lossless VP9
+      // stays in profile 0, so the editor can still preview and export it.
+      return [
+        '-c:v',
+        'libvpx-vp9',
+        '-lossless',
+        '1',
+        '-deadline',
+        'realtime',
+        '-cpu-used',
+        '8',
+        '-row-mt',
+        '1',
+        '-pix_fmt',
+        'yuv420p',
+      ]
+    case 'x264':
+    default:
+      return [
+        '-c:v',
+        'libx264',
+        '-preset',
+        profile.preset,
+        '-crf',
+        crf,
+        '-tune',
+        'zerolatency', // Optimize for real-time
+        '-profile:v',
+        'high',
+        '-level',
+        '5.1',
+        '-pix_fmt',
+        'yuv420p',
+      ]
+  }
+}
+
+export function getAudioEncoderArgs(profile: RecordingProfile): string[] {
+  return ['-c:a', 'aac', '-b:a', `${profile.audioBitrate}k`]
+}
@@ -0,0 +1,59 @@
+// Remembers recording areas: the one used last and the ones the user saved under a name.
+
+import { BrowserWindow, screen } from 'electron'
+import Store from 'electron-store'
+import type { RecordingGeometry } from '../state'
+import type { SavedRegion, SelectionRegion } from '../types'
+
+const store = new Store()
+const LAST_REGION_KEY = 'recorder.lastRegion'
+const SAVED_REGIONS_KEY = 'recorder.savedRegions'
+
+export function getLastRegion(): SelectionRegion | null {
+  return (store.get(LAST_REGION_KEY) as SelectionRegion | undefined) ?? null
+}
+
+export function setLastRegion(region: SelectionRegion) {
+  store.set(LAST_REGION_KEY, region)
+}
+
+export function listSavedRegions(): SavedRegion[] {
+  return (store.get(SAVED_REGIONS_KEY) as SavedRegion[] | undefined) ?? []
+}
+
+/**
+ * Saves a region, replacing a saved region of the same name.
+ * @returns All saved regions, sorted by name.
+ */
+export function saveRegion(region: SavedRegion): SavedRegion[] {
+  const regions = [...listSavedRegions().filter((r) => r.name !== region.name), region]
+  regions.sort((a, b) => a.name.localeCompare(b.name))
+  store.set(SAVED_REGIONS_KEY, regions)
+  return regions
+}
+
+/**
+ * @returns The remaining saved regions.
+ */
+export function deleteSavedRegion(name: string): SavedRegion[] {
+  const regions = listSavedRegions().filter((r) => r.name !== name)
+  store.set(SAVED_REGIONS_KEY, regions)
+  return regions
+}
+
+/**
+ * The selection window works in its own coordinates, which start at the corner of the display it covers.
+ */
+export function getSelectionOrigin(win: BrowserWindow | null): Electron.Point {
+  if (!win || win.isDestroyed()) return { x: 0, y: 0 }
+  const { x, y } = screen.getDisplayMatching(win.getBounds()).bounds
+  return { x, y }
+}
+
+export function toSelectionCoordinates<T extends RecordingGeometry>(region: T, origin: Electron.Point): T {
+  return { ...region, x: region.x - origin.x, y: region.y - origin.y }
+}
+
+export function toScreenCoordinates<T extends RecordingGeometry>(region: T, origin: Electron.Point): T {
+  return { ...region, x: region.x + origin.x, y: region.y + origin.y }
+}
@@ -0,0 +1,129 @@
+// Lists the resolutions, frame rates and pixel formats a webcam can capture in, so one can be picked for recording.
+// Only V4L2 devices on Linux are queried; elsewhere the recording profile's webcam settings are used.
+
+import log from 'electron-log/main'
+import { execFile } from 'node:child_process'
+import { getFFmpegPath } from '../lib/utils'
+import type { WebcamMode } from '../types'
+
+// FFmpeg's v4l2 `-input_format` names for the FourCC codes reported by the driver
+const FOURCC_PIXEL_FORMATS: Record<string, string> = {
+  YUYV: 'yuyv422',
+  UYVY: 'uyvy422',
+  MJPG: 'mjpeg',
+  JPEG: 'mjpeg',
+  H264: 'h264',
+  NV12: 'nv12',
+  YU12: 'yuv420p',
+  RGB3: 'rgb24',
+  BGR3: 'bgr24',
+  GREY: 'gray',
+}
+
+// Rates FFmpeg's listing does not report, so the camera picks its own
+const UNKNOWN_FRAMERATE = 0
+
+function run(command: string, args: string[]): Promise<{ stdout: string; stderr: string } | null> {
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: 5000, env: { ...process.env, LC_ALL: 'C' } }, (error, stdout, stderr) => {
+      // FFmpeg exits with an error after listing formats, so only a missing binary counts as a failure
+      if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') return resolve(null)
+      resolve({ stdout, stderr })
+    })
+  })
+}
+
+/**
+ * Parses `v4l2-ctl --list-formats-ext`, which reports every discrete size with its frame intervals.
+ */
+function parseV4l2CtlFormats(output: string): WebcamMode[] {
+  const modes: WebcamMode[] = []
+  let format: { pixelFormat: string; formatName: string } | null = null
+  let size: { width: number; height: number } | null = null
+
+  for (const line of output.split('\n')) {
+    // Older versions print `Pixel Format: 'MJPG' (compressed)` with the name on a line of its own
+    const formatMatch = line.match(/(?:\[\d+\]:|Pixel Format:) '(\w{3,4})\s*'(?: \((.+)\))?/)
+    if (formatMatch) {
+      const [, fourcc, description = ''] = formatMatch
+      const pixelFormat = FOURCC_PIXEL_FORMATS[fourcc]
+      const formatName = description.replace(/,? ?compressed$/, '') || fourcc
+      // Formats FFmpeg cannot be asked for by name are skipped along with their sizes
+      format = pixelFormat ? { pixelFormat, formatName } : null
+      size = null
+      continue
+    }
+    const sizeMatch = line.match(/Size: Discrete (\d+)x(\d+)/)
+    if (sizeMatch) {
+      size = { width: Number(sizeMatch[1]), height: Number(sizeMatch[2]) }
+      continue
+    }
+    const intervalMatch = line.match(/Interval: Discrete [\d.]+s \(([\d.]+) fps\)/)
+    if (intervalMatch && format && size) {
+      modes.push({ ...size, ...format, framerate: Math.round(Number(intervalMatch[1]) * 100) / 100 })
+    }
+  }
+  return modes
+}
+
+/**
+ * Parses `ffmpeg -f v4l2 -list_formats all`, which lists sizes per format but no frame rates.
+ */
+function parseFfmpegFormats(output: string): WebcamMode[] {
+  const modes: WebcamMode[] = []
+  for (const line of output.split('\n')) {
+    const match = line.match(/(?:Raw|Compressed)\s*:\s*(\w+)\s*:\s*(.+?)\s*:\s*((?:\d+x\d+\s*)+)$/)
+    if (!match) continue
+    const [, pixelFormat, formatName, sizes] = match
+    for (const size of sizes.trim().split(/\s+/)) {
+      const [width, height] = size.split('x').map(Number)
+      modes.push({ width, height, framerate: UNKNOWN_FRAMERATE, pixelFormat, formatName })
+    }
+  }
+  return modes
+}
+
+/**
+ * Lists the capture modes of a webcam, largest and fastest first within each pixel format.
+ * @param deviceIndex - Index of the camera, recorded from `/dev/video<index>`.
+ * @returns An empty list if the camera cannot be queried, e.g. on other platforms.
+ */
+export async function listWebcamModes(deviceIndex: number): Promise<WebcamMode[]> {
+  if (process.platform !== 'linux' || !Number.isInteger(deviceIndex) || deviceIndex < 0) return []
+  const device = `/dev/video${deviceIndex}`
+
+  let modes: WebcamMode[] = []
+  const v4l2Ctl = await run('v4l2-ctl', ['--list-formats-ext', '-d', device])
+  if (v4l2Ctl) modes = parseV4l2CtlFormats(v4l2Ctl.stdout)
+  if (modes.length === 0) {
+    const ffmpeg = await run(getFFmpegPath(), ['-hide_banner', '-f', 'v4l2', '-list_formats', 'all', '-i', device])
+    if (ffmpeg) modes = parseFfmpegFormats(ffmpeg.stderr)
+  }
+
+  const seen = new Set<string>()
+  const uniqueModes = modes.filter((mode) => {
+    const key = `${mode.pixelFormat}:${mode.width}x${mode.height}@${mode.framerate}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+  const formatOrder = [...new Set(uniqueModes.map((mode) => mode.pixelFormat))]
+  uniqueModes.sort(
+    (a, b) =>
+      formatOrder.indexOf(a.pixelFormat) - formatOrder.indexOf(b.pixelFormat) ||
+      b.width * b.height - a.width * a.height ||
+      b.framerate - a.framerate,
+  )
+  log.info(`[WebcamModes] Found ${uniqueModes.length} capture modes for ${device}.`)
+  return uniqueModes
+}
+
+/**
+ * FFmpeg v4l2 input options that open the camera in the given mode.
+ */
+export function getWebcamModeArgs(mode: WebcamMode): string[] {
+  const args = ['-input_format', mode.pixelFormat]
+  if (mode.framerate > 0) args.push('-framerate', String(mode.framerate))
+  args.push('-video_size', `${mode.width}x${mode.height}`)
+  return args
+}
@@ -0,0 +1,203 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Enumerates and tracks top-level X11 windows for the "window" recording source on Linux.
+
+import log from 'electron-log/main'
+import { EventEmitter } from 'node:events'
+import { createRequire } from 'node:module'
+import { MOUSE_RECORDING_FPS } from '../lib/constants'
+import type { RecordingGeometry } from '../state'
+
+const require = createRequire(import.meta.url)
+
+export interface X11WindowInfo {
+  id: number
+  title: string
+  appName: string
+  pid: number | null
+  geometry: RecordingGeometry
+}
+
+function loadX11Module(): any {
+  try {
+    return require('x11')
+  } catch (e) {
+    log.error('[X11Windows] Failed to load x11 module.', e)
+    return null
+  }
+}
+
+function createClient(): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const X11Module = loadX11Module()
+    if (!X11Module) return reject(new Error('x11 module is not available.'))
+    X11Module.createClient((err: Error, display: any) => (err ? reject(err) : resolve(display)))
+  })
+}
+
+// --- Promise wrappers around the callback-based x11 requests ---
+
+function internAtom(X: any, name: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    X.InternAtom(false, name, (err: Error, atom: number) => (err ? reject(err) : resolve(atom)))
+  })
+}
+
+function getProperty(X: any, windowId: number, property: number, type: number): Promise<Buffer | null> {
+  return new Promise((resolve) => {
+    X.GetProperty(0, windowId, property, type, 0, 1024 * 1024, (err: Error, prop: any) => {
+      resolve(err || !prop?.data?.length ? null : prop.data)
+    })
+  })
+}
+
+function getGeometry(X: any, root: number, windowId: number): Promise<RecordingGeometry> {
+  return new Promise((resolve, reject) => {
+    X.GetGeometry(windowId, (err: Error, geom: any) => {
+      if (err) return reject(err)
+      // GetGeometry is relative to the parent (often a WM frame), so translate the origin to root coordinates
+      X.TranslateCoordinates(windowId, root, 0, 0, (err: Error, pos: any) => {
+        if (err) return reject(err)
+        resolve({ x: pos.destX, y: pos.destY, width: geom.width, height: geom.height })
+      })
+    })
+  })
+}
+
+function readWindowIds(data: Buffer | null): number[] {
+  if (!data) return []
+  const ids: number[] = []
+  for (let offset = 0; offset + 4 <= data.length; offset += 4) {
+    ids.push(data.readUInt32LE(offset))
+  }
+  return ids
+}
+
+/**
+ * Lists the top-level windows managed by the window manager, in stacking order.
+ * Windows belonging to this app are excluded, as are zero-sized and untitled windows.
+ */
+export async function listX11Windows(): Promise<X11WindowInfo[]> {
+  const display = await createClient()
+  const X = display.client
+  const root = display.screen[0].root
+
+  try {
+    const [clientListAtom, netWmNameAtom, utf8Atom, pidAtom] = await Promise.all([
+      internAtom(X, '_NET_CLIENT_LIST'),
+      internAtom(X, '_NET_WM_NAME'),
+      internAtom(X, 'UTF8_STRING'),
+      internAtom(X, '_NET_WM_PID'),
+    ])
+
+    const windowIds = readWindowIds(await getProperty(X, root, clientListAtom, X.atoms.WINDOW))
+    const windows: X11WindowInfo[] = []
+
+    for (const id of windowIds) {
+      try {
+        const [netName, legacyName, wmClass, pidData] = await Promise.all([
+          getProperty(X, id, netWmNameAtom, utf8Atom),
+          getProperty(X, id, X.atoms.WM_NAME, X.atoms.STRING),
+          getProperty(X, id, X.atoms.WM_CLASS, X.atoms.STRING),
+          getProperty(X, id, pidAtom, X.atoms.CARDINAL),
+        ])
+        const pid = pidData ? pidData.readUInt32LE(0) : null
+        if (pid === process.pid) continue
+
+        const geometry = await getGeometry(X, root, id)
+        if (geometry.width <= 1 || geometry.height <= 1) continue
+
+        // WM_CLASS holds "instance\0class\0"; the class is the human-friendly app name
+        const classParts = wmClass?.toString('latin1').split('\0').filter(Boolean) ?? []
+        windows.push({
+          id,
+          title: (netName?.toString('utf8') || legacyName?.toString('latin1') || '').trim(),
+          appName: classParts[classParts.length - 1] ?? '',
+          pid,
+          geometry,
+        })
+      } catch (err) {
+        // The window may have been destroyed while we were querying it
+        log.warn(`[X11Windows] Skipping window 0x${id.toString(16)}:`, err)
+      }
+    }
+
+    return windows.filter((w) => w.title || w.appName)
+  } finally {
+    X.close()
+  }
+}
+
+/**
+ * Returns the current root-relative geometry of a window, or null if it no longer exists.
+ */
+export async function getX11WindowGeometry(windowId: number): Promise<RecordingGeometry | null> {
+  let X: any = null
+  try {
+    const display = await createClient()
+    X = display.client
+    return await getGeometry(X, display.screen[0].root, windowId)
+  } catch (err) {
+    log.error(`[X11Windows] Could not get geometry of window 0x${windowId.toString(16)}:`, err)
+    return null
+  } finally {
+    X?.close()
+  }
+}
+
+/**
+ * Follows a window's position on screen during a recording.
+ * Emits 'move' with the new root-relative geometry and 'closed' when the window disappears.
+ */
+export class X11WindowTracker extends EventEmitter {
+  private intervalId: NodeJS.Timeout | null = null
+  private X: any | null = null
+  private lastGeometry: RecordingGeometry | null = null
+
+  constructor(private readonly windowId: number) {
+    super()
+  }
+
+  async start(): Promise<RecordingGeometry | null> {
+    try {
+      const display = await createClient()
+      this.X = display.client
+      const root = display.screen[0].root
+      this.X.on('error', (err: any) => log.error('[X11WindowTracker] X11 client error:', err))
+
+      this.lastGeometry = await getGeometry(this.X, root, this.windowId)
+      this.intervalId = setInterval(() => this.poll(root), 1000 / MOUSE_RECORDING_FPS)
+      log.info(`[X11WindowTracker] Tracking window 0x${this.windowId.toString(16)}`, this.lastGeometry)
+      return this.lastGeometry
+    } catch (err) {
+      log.error('[X11WindowTracker] Failed to start:', err)
+      this.stop()
+      return null
+    }
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+    this.X?.close()
+    this.X = null
+  }
+
+  private poll = (root: number) => {
+    if (!this.X) return
+    getGeometry(this.X, root, this.windowId)
+      .then((geometry) => {
+        const last = this.lastGeometry
+        if (!last || last.x !== geometry.x || last.y !== geometry.y) {
+          this.lastGeometry = geometry
+          this.emit('move', geometry)
+        }
+      })
+      .catch((err) => {
+        log.warn('[X11WindowTracker] Tracked window is gone:', err)
+        this.stop()
+        this.emit('closed')
+      })
+  }
+}
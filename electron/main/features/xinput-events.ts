@@ -0,0 +1,90 @@
+// Streams XInput2 raw device events on Linux by reading the output of `xinput test-xi2 --root`.
+// Raw events reach the root window whatever window is under the pointer and arrive as they happen,
+// so they catch input that polling the pointer state misses, such as quick clicks and scroll steps.
+// The tool is not bundled; it comes with the distribution's `xinput` package.
+
+import log from 'electron-log/main'
+import path from 'node:path'
+import fsSync from 'node:fs'
+import { EventEmitter } from 'node:events'
+import { spawn, ChildProcessWithoutNullStreams } from 'node:child_process'
+
+export interface XInputRawEvent {
+  // XI2 event name, e.g. 'RawButtonPress' or 'RawMotion'
+  type: string
+  // Button number for button events
+  detail: number
+  // Local arrival time (ms); the tool does not print the server time of raw events
+  timestamp: number
+}
+
+/**
+ * Returns the path of the `xinput` executable on the PATH, or null if it is not installed.
+ */
+export function findXInput(): string | null {
+  for (const dir of (process.env.PATH ?? '').split(path.delimiter)) {
+    if (!dir) continue
+    const candidate = path.join(dir, 'xinput')
+    try {
+      fsSync.accessSync(candidate, fsSync.constants.X_OK)
+      return candidate
+    } catch {
+      continue
+    }
+  }
+  return null
+}
+
+/**
+ * Emits an 'event' for every raw device event, and 'exit' if the event stream ends while running.
+ */
+export class XInputEventStream extends EventEmitter {
+  private process: ChildProcessWithoutNullStreams | null = null
+  private pendingOutput = ''
+  private currentType: string | null = null
+
+  start() {
+    // Force untranslated output, the parser below matches on English field names
+    this.process = spawn('xinput', ['test-xi2', '--root'], { env: { ...process.env, LC_ALL: 'C' } })
+    this.process.stdout.on('data', (chunk: Buffer) => this.handleOutput(chunk.toString()))
+    this.process.on('error', (error) => {
+      log.warn('[XInputEvents] Could not run xinput, raw input events are unavailable:', error.message)
+      this.process = null
+      this.emit('exit')
+    })
+    this.process.on('exit', (code) => {
+      if (!this.process) return
+      log.warn(`[XInputEvents] xinput exited with code ${code}.`)
+      this.process = null
+      this.emit('exit')
+    })
+  }
+
+  stop() {
+    const child = this.process
+    this.process = null
+    child?.kill()
+    this.pendingOutput = ''
+    this.currentType = null
+  }
+
+  private handleOutput(output: string) {
+    const lines = (this.pendingOutput + output).split('\n')
+    this.pendingOutput = lines.pop() ?? ''
+
+    for (const line of lines) {
+      // Each event starts with e.g. "EVENT type 15 (RawButtonPress)", followed by indented fields
+      const header = line.match(/^EVENT type \d+ \((\w+)\)/)
+      if (header) {
+        this.currentType = header[1]
+        continue
+      }
+      const detail = line.match(/^\s+detail: (\d+)/)
+      if (detail && this.currentType) {
+        const event: XInputRawEvent = { type: this.currentType, detail: Number(detail[1]), timestamp: Date.now() }
+        this.currentType = null
+        this.emit('event', event)
+      }
+    }
+  }
+}
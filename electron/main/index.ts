@@ -8,8 +8,11 @@ import { VITE_PUBLIC } from './lib/constants'
 import { setupLogging } from './lib/logging'
 import { registerIpcHandlers } from './ipc'
 import { createRecorderWindow } from './windows/recorder-window'
-import { onAppQuit, startRecording, loadVideoFromFile } from './features/recording-manager'
+import { onAppQuit, startRecording, loadVideoFromFile, recoverInterruptedRecording } from './features/recording-manager'
 import { initializeMouseTrackerDependencies } from './features/mouse-tracker'
+import { recoverAutosavedSession } from './features/autosave-manager'
+import { isCliInvocation, runCli } from './features/cli'
+import { startAutomationServer } from './features/automation-api'
 import { appState } from './state'
 
 // --- Initialization ---
@@ -21,6 +24,8 @@ app.commandLine.appendSwitch('enable-blink-features', 'WebCodecs,WebCodecsExperi
 
 // --- App Lifecycle Events ---
 app.on('window-all-closed', () => {
+  // Command-line runs quit by themselves, with the exit code of their command
+  if (appState.isHeadless) return
   log.info('[App] All windows closed. Quitting.')
   app.quit()
 })
@@ -116,5 +121,17 @@ app.whenReady().then(async () => {
   )
 
   registerIpcHandlers()
-  createRecorderWindow()
+
+  if (isCliInvocation(process.argv)) {
+    await runCli(process.argv)
+    return
+  }
+
+  startAutomationServer()
+
+  // Offer to restore a recording or session left behind by a crash before anything cleans up recordings
+  const restored = (await recoverInterruptedRecording()) || (await recoverAutosavedSession())
+  if (!restored) {
+    createRecorderWindow()
+  }
 })
@@ -0,0 +1,20 @@
+// Handlers for the settings of the local automation API.
+
+import { IpcMainInvokeEvent } from 'electron'
+import { getAutomationSettings, saveAutomationSettings, regenerateAutomationToken } from '../../features/automation-api'
+import type { AutomationSettings } from '../../types'
+
+export function handleGetAutomationSettings() {
+  return getAutomationSettings()
+}
+
+export function handleSaveAutomationSettings(
+  _event: IpcMainInvokeEvent,
+  changes: Partial<Pick<AutomationSettings, 'enabled' | 'port'>>,
+) {
+  return saveAutomationSettings(changes)
+}
+
+export function handleRegenerateAutomationToken() {
+  return regenerateAutomationToken()
+}
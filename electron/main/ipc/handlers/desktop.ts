@@ -1,12 +1,15 @@
 // Handlers for desktop-related IPC (displays, sources, cursor).
 
-import { IpcMainEvent, IpcMainInvokeEvent, screen, dialog, app } from 'electron'
+import { IpcMainEvent, IpcMainInvokeEvent, screen, dialog, app, desktopCapturer } from 'electron'
 import { exec } from 'node:child_process'
 import log from 'electron-log/main'
 import fs from 'node:fs/promises'
 import path from 'node:path'
-import { getFFmpegPath, getBinaryPath } from '../../lib/utils'
+import { getFFmpegPath, getBinaryPath, readAudioPeaks } from '../../lib/utils'
 import { getCursorScale, setCursorScale } from '../../features/cursor-manager'
+import { listX11Windows } from '../../features/x11-windows'
+import { listPulseAudioSources, startMicLevelMonitor, stopMicLevelMonitor } from '../../features/audio-sources'
+import { listWebcamModes } from '../../features/webcam-modes'
 import { loadCursorThemeFromFile } from '../../lib/cursor-theme-parser'
 import { mapCursorNameToIDC } from '../../lib/win-cursor-manager'
 import { CursorTheme } from '../../types'
@@ -21,6 +24,34 @@ export function getDisplays() {
   }))
 }
 
+/**
+ * Lists windows that can be recorded with the "window" source. Only supported on Linux (X11).
+ * Geometry comes from X11 directly; thumbnails are matched from desktopCapturer by window id.
+ */
+export async function getWindowSources() {
+  if (process.platform !== 'linux') return []
+
+  try {
+    const [windows, capturerSources] = await Promise.all([
+      listX11Windows(),
+      desktopCapturer.getSources({ types: ['window'], thumbnailSize: { width: 320, height: 180 } }).catch(() => []),
+    ])
+    // desktopCapturer ids on Linux look like "window:<xid>:0"
+    const thumbnails = new Map(capturerSources.map((source) => [Number(source.id.split(':')[1]), source.thumbnail]))
+
+    return windows.map((win) => ({
+      id: String(win.id),
+      name: win.title || win.appName,
+      appName: win.appName,
+      thumbnailUrl: thumbnails.get(win.id)?.toDataURL() ?? '',
+      geometry: win.geometry,
+    }))
+  } catch (error) {
+    log.error('[Desktop] Failed to list windows:', error)
+    return []
+  }
+}
+
 export function handleGetCursorScale() {
   return getCursorScale()
 }
@@ -50,6 +81,15 @@ export async function getVideoFrame(
   })
 }
 
+export async function getAudioWaveform(_event: IpcMainInvokeEvent, audioPath: string): Promise<number[]> {
+  try {
+    return await readAudioPeaks(audioPath)
+  } catch (error) {
+    log.error(`[Desktop] Failed to read the waveform of ${audioPath}:`, error)
+    return []
+  }
+}
+
 export async function getDshowDevices(): Promise<{
   video: { name: string; alternativeName: string }[]
   audio: { name: string; alternativeName: string }[]
@@ -96,6 +136,32 @@ export async function getDshowDevices(): Promise<{
   })
 }
 
+export async function getPulseAudioSources() {
+  if (process.platform !== 'linux') return []
+  return listPulseAudioSources()
+}
+
+export function getWebcamModes(_event: IpcMainInvokeEvent, deviceIndex: number) {
+  return listWebcamModes(deviceIndex)
+}
+
+export function handleStartMicLevelMonitor(event: IpcMainEvent, sourceName: string) {
+  if (process.platform !== 'linux') return
+  const sender = event.sender
+  startMicLevelMonitor(sourceName, (level) => {
+    // The recorder window may have closed without stopping the meter
+    if (sender.isDestroyed()) {
+      stopMicLevelMonitor()
+      return
+    }
+    sender.send('desktop:mic-level', level)
+  })
+}
+
+export function handleStopMicLevelMonitor() {
+  stopMicLevelMonitor()
+}
+
 export async function getCursorThemes(): Promise<string[]> {
   if (process.platform !== 'win32' && process.platform !== 'darwin') {
     return []
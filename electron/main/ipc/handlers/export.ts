@@ -1,9 +1,27 @@
 // Handlers for export-related IPC (export video).
 
-import { IpcMainInvokeEvent } from 'electron'
+import { IpcMainEvent, IpcMainInvokeEvent } from 'electron'
 import { startExport } from '../../features/export-manager'
+import { openExportDecoder, readExportDecoderFrame, closeExportDecoder } from '../../features/export-decoder'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleStartExport(event: IpcMainInvokeEvent, payload: any) {
   return startExport(event, payload)
 }
+
+export function handleOpenDecoder(
+  _event: IpcMainInvokeEvent,
+  videoPath: string,
+  maxHeight: number,
+  startTime?: number,
+) {
+  return openExportDecoder(videoPath, maxHeight, startTime)
+}
+
+export function handleReadDecodedFrame(_event: IpcMainInvokeEvent, id: number, time: number) {
+  return readExportDecoderFrame(id, time)
+}
+
+export function handleCloseDecoder(_event: IpcMainEvent, id: number) {
+  closeExportDecoder(id)
+}
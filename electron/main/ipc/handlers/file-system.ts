@@ -1,13 +1,47 @@
 // Handlers for file system-related IPC (file system).
 
+import { IpcMainInvokeEvent } from 'electron'
+import path from 'node:path'
 import fs from 'node:fs/promises'
+import { appState } from '../../state'
+
+/**
+ * Only the files of the session open in the editor may be read. Export workers render that same session.
+ */
+function assertSessionFile(filePath: string) {
+  const session = appState.currentEditorSessionFiles
+  const resolvedPath = path.resolve(filePath)
+  const isSessionFile =
+    !!session &&
+    [session.screenVideoPath, session.webcamVideoPath, session.metadataPath, session.audioPath, session.systemAudioPath]
+      .filter((sessionPath): sessionPath is string => !!sessionPath)
+      .some((sessionPath) => path.resolve(sessionPath) === resolvedPath)
+  if (!isSessionFile) throw new Error(`${filePath} is not part of the current session.`)
+}
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function handleReadFile(_event: any, filePath: string): Promise<string> {
+  assertSessionFile(filePath)
   return fs.readFile(filePath, 'utf-8')
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function handleReadFileBuffer(_event: any, filePath: string): Promise<Buffer> {
-  return fs.readFile(filePath)
+/**
+ * Reads part of a file, so large recordings can be streamed instead of copied over IPC in one piece.
+ * @returns The bytes read, fewer than `length` at the end of the file.
+ */
+export async function handleReadFileRange(
+  _event: IpcMainInvokeEvent,
+  filePath: string,
+  offset: number,
+  length: number,
+): Promise<Buffer> {
+  assertSessionFile(filePath)
+  const file = await fs.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await file.read(buffer, 0, length, offset)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await file.close()
+  }
 }
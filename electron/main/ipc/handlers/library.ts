@@ -0,0 +1,24 @@
+// Handlers for recording library IPC.
+
+import { deleteLibraryItem, listLibraryItems, openLibraryItem, renameLibraryItem } from '../../features/library-manager'
+import { createLibraryWindow } from '../../windows/library-window'
+
+export function handleListItems() {
+  return listLibraryItems()
+}
+
+export function handleOpenItem(_event: Electron.IpcMainInvokeEvent, filePath: string) {
+  return openLibraryItem(filePath)
+}
+
+export function handleRenameItem(_event: Electron.IpcMainInvokeEvent, filePath: string, newName: string) {
+  return renameLibraryItem(filePath, newName)
+}
+
+export function handleDeleteItem(_event: Electron.IpcMainInvokeEvent, filePath: string) {
+  return deleteLibraryItem(filePath)
+}
+
+export function handleOpenWindow() {
+  createLibraryWindow()
+}
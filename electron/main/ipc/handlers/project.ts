@@ -0,0 +1,19 @@
+// Handlers for project-file IPC (save and open).
+
+import { openProject, saveProject } from '../../features/project-manager'
+import { writeAutosave } from '../../features/autosave-manager'
+
+export function handleSaveProject(
+  _event: Electron.IpcMainInvokeEvent,
+  payload: { editorState: Record<string, unknown>; saveAs?: boolean },
+) {
+  return saveProject(payload.editorState, !!payload.saveAs)
+}
+
+export function handleOpenProject(_event: Electron.IpcMainInvokeEvent, projectPath?: string) {
+  return openProject(projectPath)
+}
+
+export function handleAutosave(_event: Electron.IpcMainEvent, editorState: Record<string, unknown>) {
+  writeAutosave(editorState)
+}
@@ -1,6 +1,29 @@
 // Handlers for recording-related IPC (recording).
 
-import { startRecording, loadVideoFromFile, stopRecording } from '../../features/recording-manager'
+import log from 'electron-log/main'
+import { BrowserWindow, IpcMainInvokeEvent } from 'electron'
+
+import {
+  startRecording,
+  loadVideoFromFile,
+  stopRecording,
+  togglePauseRecording,
+  updateRecordingHotkeys,
+} from '../../features/recording-manager'
+import { listRecordingProfiles, saveCustomProfile } from '../../features/recording-profiles'
+import { getRecordingHotkeys, saveRecordingHotkeys } from '../../features/recording-hotkeys'
+import {
+  getLastRegion,
+  listSavedRegions,
+  saveRegion,
+  deleteSavedRegion,
+  getSelectionOrigin,
+  toSelectionCoordinates,
+  toScreenCoordinates,
+} from '../../features/selection-regions'
+import { listX11Windows } from '../../features/x11-windows'
+import type { RecordingProfile } from '../../features/recording-profiles'
+import type { RecordingHotkeys, SavedRegion } from '../../types'
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function handleStartRecording(_event: any, options: any) {
@@ -14,3 +37,60 @@ export function handleLoadVideoFromFile() {
 export async function handleStopRecording() {
   await stopRecording()
 }
+
+export async function handleTogglePauseRecording() {
+  await togglePauseRecording()
+}
+
+export function handleGetRecordingProfiles() {
+  return listRecordingProfiles()
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleSaveCustomProfile(_event: any, profile: Partial<RecordingProfile>) {
+  return saveCustomProfile(profile)
+}
+
+export function handleGetRecordingHotkeys() {
+  return getRecordingHotkeys()
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function handleSaveRecordingHotkeys(_event: any, changes: Partial<RecordingHotkeys>) {
+  const hotkeys = saveRecordingHotkeys(changes)
+  // Applies the new shortcuts right away if the recorder is open
+  updateRecordingHotkeys()
+  return hotkeys
+}
+
+/**
+ * Everything the selection window starts with, in its own coordinates.
+ */
+export async function handleGetSelectionInit(event: IpcMainInvokeEvent) {
+  const origin = getSelectionOrigin(BrowserWindow.fromWebContents(event.sender))
+  const lastRegion = getLastRegion()
+  let windows: Awaited<ReturnType<typeof listX11Windows>> = []
+  if (process.platform === 'linux') {
+    try {
+      windows = await listX11Windows()
+    } catch (error) {
+      log.warn('[Selection] Could not list windows to snap to:', error)
+    }
+  }
+  return {
+    lastRegion: lastRegion && toSelectionCoordinates(lastRegion, origin),
+    savedRegions: listSavedRegions().map((region) => toSelectionCoordinates(region, origin)),
+    // The selection snaps to the edges of these
+    windowRects: windows.map((win) => toSelectionCoordinates(win.geometry, origin)),
+  }
+}
+
+export function handleSaveSelectionRegion(event: IpcMainInvokeEvent, region: SavedRegion) {
+  const origin = getSelectionOrigin(BrowserWindow.fromWebContents(event.sender))
+  return saveRegion(toScreenCoordinates(region, origin)).map((saved) => toSelectionCoordinates(saved, origin))
+}
+
+export function handleDeleteSelectionRegion(event: IpcMainInvokeEvent, name: string) {
+  const origin = getSelectionOrigin(BrowserWindow.fromWebContents(event.sender))
+  return deleteSavedRegion(name).map((saved) => toSelectionCoordinates(saved, origin))
+}
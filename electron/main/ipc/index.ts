@@ -1,8 +1,11 @@
 import { ipcMain } from 'electron'
 import * as appHandlers from './handlers/app'
+import * as automationHandlers from './handlers/automation'
 import * as desktopHandlers from './handlers/desktop'
 import * as exportHandlers from './handlers/export'
 import * as fsHandlers from './handlers/file-system'
+import * as libraryHandlers from './handlers/library'
+import * as projectHandlers from './handlers/project'
 import * as recordingHandlers from './handlers/recording'
 import * as settingsHandlers from './handlers/settings'
 import * as shellHandlers from './handlers/shell'
@@ -21,10 +24,16 @@ export function registerIpcHandlers() {
   // Desktop
   ipcMain.handle('desktop:get-displays', desktopHandlers.getDisplays)
   ipcMain.handle('desktop:get-dshow-devices', desktopHandlers.getDshowDevices)
+  ipcMain.handle('desktop:get-pulse-audio-sources', desktopHandlers.getPulseAudioSources)
+  ipcMain.handle('desktop:get-webcam-modes', desktopHandlers.getWebcamModes)
+  ipcMain.on('desktop:start-mic-level-monitor', desktopHandlers.handleStartMicLevelMonitor)
+  ipcMain.on('desktop:stop-mic-level-monitor', desktopHandlers.handleStopMicLevelMonitor)
+  ipcMain.handle('desktop:get-window-sources', desktopHandlers.getWindowSources)
   ipcMain.handle('desktop:get-cursor-scale', desktopHandlers.handleGetCursorScale)
   ipcMain.on('desktop:set-cursor-scale', desktopHandlers.handleSetCursorScale)
   ipcMain.handle('dialog:showSaveDialog', desktopHandlers.showSaveDialog)
   ipcMain.handle('video:get-frame', desktopHandlers.getVideoFrame)
+  ipcMain.handle('audio:get-waveform', desktopHandlers.getAudioWaveform)
 
   ipcMain.handle('desktop:get-cursor-themes', desktopHandlers.getCursorThemes)
   ipcMain.handle('desktop:load-cursor-theme', desktopHandlers.loadCursorTheme)
@@ -33,14 +42,42 @@ export function registerIpcHandlers() {
   // Recording
   ipcMain.handle('recording:start', recordingHandlers.handleStartRecording)
   ipcMain.on('recording:stop', recordingHandlers.handleStopRecording)
+  ipcMain.on('recording:toggle-pause', recordingHandlers.handleTogglePauseRecording)
   ipcMain.handle('recording:load-from-file', recordingHandlers.handleLoadVideoFromFile)
+  ipcMain.handle('recording:get-profiles', recordingHandlers.handleGetRecordingProfiles)
+  ipcMain.handle('recording:save-custom-profile', recordingHandlers.handleSaveCustomProfile)
+  ipcMain.handle('recording:get-hotkeys', recordingHandlers.handleGetRecordingHotkeys)
+  ipcMain.handle('recording:save-hotkeys', recordingHandlers.handleSaveRecordingHotkeys)
+  ipcMain.handle('selection:get-init', recordingHandlers.handleGetSelectionInit)
+  ipcMain.handle('selection:save-region', recordingHandlers.handleSaveSelectionRegion)
+  ipcMain.handle('selection:delete-region', recordingHandlers.handleDeleteSelectionRegion)
+
+  // Automation API
+  ipcMain.handle('automation:get-settings', automationHandlers.handleGetAutomationSettings)
+  ipcMain.handle('automation:save-settings', automationHandlers.handleSaveAutomationSettings)
+  ipcMain.handle('automation:regenerate-token', automationHandlers.handleRegenerateAutomationToken)
+
+  // Project
+  ipcMain.handle('project:save', projectHandlers.handleSaveProject)
+  ipcMain.handle('project:open-file', projectHandlers.handleOpenProject)
+  ipcMain.on('project:autosave', projectHandlers.handleAutosave)
+
+  // Library
+  ipcMain.on('library:open-window', libraryHandlers.handleOpenWindow)
+  ipcMain.handle('library:list', libraryHandlers.handleListItems)
+  ipcMain.handle('library:open', libraryHandlers.handleOpenItem)
+  ipcMain.handle('library:rename', libraryHandlers.handleRenameItem)
+  ipcMain.handle('library:delete', libraryHandlers.handleDeleteItem)
 
   // Export
   ipcMain.handle('export:start', exportHandlers.handleStartExport)
+  ipcMain.handle('export:open-decoder', exportHandlers.handleOpenDecoder)
+  ipcMain.handle('export:read-decoded-frame', exportHandlers.handleReadDecodedFrame)
+  ipcMain.on('export:close-decoder', exportHandlers.handleCloseDecoder)
 
   // File System
   ipcMain.handle('fs:readFile', fsHandlers.handleReadFile)
-  ipcMain.handle('fs:readFileBuffer', fsHandlers.handleReadFileBuffer)
+  ipcMain.handle('fs:readFileRange', fsHandlers.handleReadFileRange)
 
   // Settings & Presets
   ipcMain.handle('presets:load', settingsHandlers.loadPresets)
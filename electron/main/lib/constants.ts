@@ -17,6 +17,40 @@ export const PRELOAD_SCRIPT = path.join(process.env.APP_ROOT!, 'dist-electron/pr
 
 // --- Recording ---
 export const MOUSE_RECORDING_FPS = 50
+// Global shortcuts until the user picks others. Start is registered while the recorder is open,
+// the others while a recording is running.
+export const DEFAULT_RECORDING_HOTKEYS = {
+  start: 'CommandOrControl+Alt+R',
+  stop: 'CommandOrControl+Alt+S',
+  pause: 'CommandOrControl+Shift+P',
+  cancel: 'CommandOrControl+Alt+X',
+}
+// Countdown lengths (s) offered before a recording starts
+export const RECORDING_COUNTDOWN_OPTIONS = [0, 3, 5, 10]
+// Port of the local automation API until the user picks another
+export const DEFAULT_AUTOMATION_PORT = 47825
+// How often mouse events are written to the recovery journal
+export const RECORDING_JOURNAL_FLUSH_INTERVAL_MS = 1000
+// Audio lead trimmed from segments whose track start times FFmpeg did not report
+export const UNMEASURED_AUDIO_LEAD_MS = 1000
+// How often the free space of the recording directory is checked
+export const DISK_SPACE_CHECK_INTERVAL_MS = 5000
+// Below this much free space the user is warned that the disk is filling up
+export const DISK_SPACE_WARNING_BYTES = 2 * 1024 ** 3
+// Below this much the recording is stopped, leaving room to finish the files and join the segments
+export const DISK_SPACE_STOP_BYTES = 300 * 1024 ** 2
+// The capture rate and dropped frames are judged over this much recent time
+export const HEALTH_SAMPLE_WINDOW_MS = 5000
+// Capturing below this share of the target framerate counts as struggling
+export const LOW_FPS_RATIO = 0.8
+// Dropping or duplicating more than this share of frames counts as struggling
+export const DROPPED_FRAMES_RATIO = 0.05
+// A warning of the same kind is repeated at most this often
+export const HEALTH_WARNING_INTERVAL_MS = 30000
+
+// --- Editor ---
+// Resolution of the waveforms shown when lining up audio tracks
+export const WAVEFORM_PEAKS_PER_SECOND = 100
 
 // --- Export ---
 export type ResolutionKey = '720p' | '1080p' | '2k'
@@ -28,3 +62,12 @@ export const RESOLUTIONS: Record<ResolutionKey, { width: number; height: number
 
 export const LINUX_SCALES = [1, 1.5, 2]
 export const LINUX_BASE_SIZE = 24
+
+// --- Projects ---
+export const PROJECT_FILE_EXTENSION = 'screenarc'
+export const PROJECT_FILE_VERSION = 1
+export const AUTOSAVE_FILE_NAME = 'autosave.json'
+// Typed characters closer together than this belong to one burst when looking for passwords
+export const KEYSTROKE_BURST_GAP_MS = 1500
+// Shorter bursts are not masked; they are more likely to be shortcuts or single words
+export const KEYSTROKE_MIN_MASKED_BURST = 4
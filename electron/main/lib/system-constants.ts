@@ -15,11 +15,24 @@ export const MOUSE_BUTTONS = {
     RIGHT: 2,
     MIDDLE: 3,
   },
+  // Button numbers of XInput2 events
+  LINUX_X11: {
+    LEFT: 1,
+    MIDDLE: 2,
+    RIGHT: 3,
+  },
   LINUX_X11_MASK: {
     LEFT: 256,
     MIDDLE: 512,
     RIGHT: 1024,
   },
+  // X11 reports every scroll wheel step as a press of one of these buttons
+  LINUX_X11_SCROLL: {
+    UP: 4,
+    DOWN: 5,
+    LEFT: 6,
+    RIGHT: 7,
+  },
   MACOS: {
     LEFT: 1,
     RIGHT: 2,
@@ -30,3 +43,124 @@ export const MOUSE_BUTTONS = {
 export const MACOS_API = {
   kCGEventSourceStateHIDSystemState: 1,
 }
+
+// --- Keyboard Key Codes ---
+// Key names shared by all platforms. Printable keys are recorded as the character itself.
+export const MODIFIER_KEYS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const
+
+// X11 keysyms of non-character keys. Other printable Latin-1 keysyms equal their character code.
+export const X11_KEYSYMS: Record<number, string> = {
+  0x20: 'Space',
+  0xff08: 'Backspace',
+  0xff09: 'Tab',
+  0xff0d: 'Enter',
+  0xff1b: 'Esc',
+  0xffff: 'Delete',
+  0xff50: 'Home',
+  0xff51: 'Left',
+  0xff52: 'Up',
+  0xff53: 'Right',
+  0xff54: 'Down',
+  0xff55: 'PageUp',
+  0xff56: 'PageDown',
+  0xff57: 'End',
+  0xff63: 'Insert',
+  0xff8d: 'Enter', // KP_Enter
+  0xffe1: 'Shift',
+  0xffe2: 'Shift',
+  0xffe3: 'Ctrl',
+  0xffe4: 'Ctrl',
+  0xffe7: 'Meta',
+  0xffe8: 'Meta',
+  0xffe9: 'Alt',
+  0xffea: 'Alt',
+  0xffeb: 'Meta', // Super_L
+  0xffec: 'Meta', // Super_R
+  ...Object.fromEntries(Array.from({ length: 12 }, (_, i) => [0xffbe + i, `F${i + 1}`])),
+  ...Object.fromEntries(Array.from({ length: 10 }, (_, i) => [0xffb0 + i, String(i)])), // Keypad digits
+}
+
+// macOS virtual key codes of an ANSI keyboard
+export const MACOS_KEYCODES: Record<number, string> = {
+  0: 'a',
+  1: 's',
+  2: 'd',
+  3: 'f',
+  4: 'h',
+  5: 'g',
+  6: 'z',
+  7: 'x',
+  8: 'c',
+  9: 'v',
+  11: 'b',
+  12: 'q',
+  13: 'w',
+  14: 'e',
+  15: 'r',
+  16: 'y',
+  17: 't',
+  18: '1',
+  19: '2',
+  20: '3',
+  21: '4',
+  22: '6',
+  23: '5',
+  24: '=',
+  25: '9',
+  26: '7',
+  27: '-',
+  28: '8',
+  29: '0',
+  30: ']',
+  31: 'o',
+  32: 'u',
+  33: '[',
+  34: 'i',
+  35: 'p',
+  36: 'Enter',
+  37: 'l',
+  38: 'j',
+  39: "'",
+  40: 'k',
+  41: ';',
+  42: '\\',
+  43: ',',
+  44: '/',
+  45: 'n',
+  46: 'm',
+  47: '.',
+  48: 'Tab',
+  49: 'Space',
+  50: '`',
+  51: 'Backspace',
+  53: 'Esc',
+  54: 'Meta',
+  55: 'Meta',
+  56: 'Shift',
+  58: 'Alt',
+  59: 'Ctrl',
+  60: 'Shift',
+  61: 'Alt',
+  62: 'Ctrl',
+  96: 'F5',
+  97: 'F6',
+  98: 'F7',
+  99: 'F3',
+  100: 'F8',
+  101: 'F9',
+  103: 'F11',
+  109: 'F10',
+  111: 'F12',
+  115: 'Home',
+  116: 'PageUp',
+  117: 'Delete',
+  118: 'F4',
+  119: 'End',
+  120: 'F2',
+  121: 'PageDown',
+  122: 'F1',
+  123: 'Left',
+  124: 'Right',
+  125: 'Down',
+  126: 'Up',
+}
@@ -4,7 +4,8 @@ import log from 'electron-log/main'
 import { app } from 'electron'
 import path from 'node:path'
 import fs from 'node:fs/promises'
-import { ResolutionKey, RESOLUTIONS } from './constants'
+import { execFile, spawn } from 'node:child_process'
+import { ResolutionKey, RESOLUTIONS, WAVEFORM_PEAKS_PER_SECOND } from './constants'
 
 export function getBinaryPath(name: string): string {
   const platform = process.platform === 'win32' ? 'windows' : process.platform === 'darwin' ? 'darwin' : 'linux'
@@ -38,6 +39,13 @@ export function getFFmpegPath(): string {
   return getBinaryPath(name)
 }
 
+/**
+ * Returns the directory where recordings and their session files are stored.
+ */
+export function getRecordingDirectory(): string {
+  return path.join(process.env.HOME || process.env.USERPROFILE || '.', '.screenarc')
+}
+
 export async function ensureDirectoryExists(dirPath: string) {
   try {
     await fs.mkdir(dirPath, { recursive: true })
@@ -66,3 +74,88 @@ export function calculateExportDimensions(
   const finalWidth = width % 2 === 0 ? width : width + 1
   return { width: finalWidth, height: baseHeight }
 }
+
+export interface MediaInfo {
+  duration: number
+  width: number
+  height: number
+  // Average frame rate of the video stream
+  frameRate: number
+  hasAudio: boolean
+}
+
+/**
+ * Reads duration, resolution, frame rate and audio presence from the FFmpeg banner of a media file.
+ */
+export function probeMedia(filePath: string): Promise<MediaInfo> {
+  return new Promise((resolve) => {
+    // FFmpeg exits with an error when no output is given, but the stream info is still printed to stderr
+    execFile(getFFmpegPath(), ['-hide_banner', '-i', filePath], (_error, _stdout, stderr) => {
+      const info: MediaInfo = { duration: 0, width: 0, height: 0, frameRate: 0, hasAudio: false }
+      const durationMatch = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/)
+      if (durationMatch) {
+        const [, hours, minutes, seconds] = durationMatch
+        info.duration = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)
+      }
+      const videoMatch = stderr.match(/Video:.*?, (\d{2,5})x(\d{2,5})/)
+      if (videoMatch) {
+        info.width = Number(videoMatch[1])
+        info.height = Number(videoMatch[2])
+      }
+      const frameRateMatch = stderr.match(/Video:.*?, (\d+(?:\.\d+)?) fps/)
+      if (frameRateMatch) info.frameRate = Number(frameRateMatch[1])
+      info.hasAudio = /Stream #\d+:\d+.*Audio:/.test(stderr)
+      resolve(info)
+    })
+  })
+}
+
+/**
+ * Decodes an audio file into a coarse waveform: the loudest sample of every short window, from 0 to 1.
+ * @returns WAVEFORM_PEAKS_PER_SECOND peaks per second of audio.
+ */
+export function readAudioPeaks(filePath: string): Promise<number[]> {
+  // A low sample rate is enough for the outline and keeps long recordings cheap to decode
+  const sampleRate = 8000
+  const samplesPerPeak = sampleRate / WAVEFORM_PEAKS_PER_SECOND
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(getFFmpegPath(), [
+      '-v',
+      'error',
+      '-i',
+      filePath,
+      '-ac',
+      '1',
+      '-ar',
+      String(sampleRate),
+      '-f',
+      's16le',
+      '-',
+    ])
+    const peaks: number[] = []
+    let peak = 0
+    let sampleCount = 0
+    let leftover: Buffer | null = null
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => {
+      const data = leftover ? Buffer.concat([leftover, chunk]) : chunk
+      const usableLength = data.length - (data.length % 2)
+      for (let offset = 0; offset < usableLength; offset += 2) {
+        peak = Math.max(peak, Math.abs(data.readInt16LE(offset)) / 32768)
+        if (++sampleCount === samplesPerPeak) {
+          peaks.push(peak)
+          peak = 0
+          sampleCount = 0
+        }
+      }
+      leftover = usableLength < data.length ? data.subarray(usableLength) : null
+    })
+    ffmpeg.stderr.on('data', (data: Buffer) => log.warn(`[AudioPeaks FFmpeg]: ${data.toString()}`))
+    ffmpeg.on('error', reject)
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) return reject(new Error(`Decoding ${path.basename(filePath)} failed with code ${code}`))
+      if (sampleCount > 0) peaks.push(peak)
+      resolve(peaks)
+    })
+  })
+}
@@ -4,6 +4,10 @@
 import { BrowserWindow, Tray } from 'electron'
 import { ChildProcessWithoutNullStreams } from 'node:child_process'
 import type { IMouseTracker } from './features/mouse-tracker'
+import type { X11WindowTracker } from './features/x11-windows'
+import type { RecordingProfile } from './features/recording-profiles'
+import type { RecordingHealthMonitor } from './features/recording-health'
+import type { KeystrokeItem, RecordingMarker, WebcamMode } from './types'
 
 // ADDED: Define RecordingGeometry type here for better reusability
 export interface RecordingGeometry {
@@ -18,17 +22,50 @@ export interface RecordingSession {
   metadataPath: string
   webcamVideoPath?: string
   audioPath?: string
+  systemAudioPath?: string
   recordingGeometry: RecordingGeometry
   scaleFactor: number  // Display scale factor (for Windows DPI scaling)
+  // Mode the webcam was opened in, if one was picked in the recorder
+  webcamMode?: WebcamMode
+}
+
+// The part of a recording captured between two pauses. Segments are joined into the session files on stop.
+export interface RecordingSegment extends Pick<
+  RecordingSession,
+  'screenVideoPath' | 'webcamVideoPath' | 'audioPath' | 'systemAudioPath'
+> {
+  startedAt: number
+  // Missing if the app died while the segment was being recorded
+  endedAt?: number
+  // Wall-clock time (ms) of the first frame or sample of each track, as reported by FFmpeg
+  trackStartTimes?: Partial<Record<SegmentTrack, number>>
+}
+
+export type SegmentTrack = 'screenVideoPath' | 'webcamVideoPath' | 'audioPath' | 'systemAudioPath'
+
+// What FFmpeg captures, kept so that a paused recording can be resumed with the same inputs
+export interface CaptureConfig {
+  inputArgs: string[]
+  hasWebcam: boolean
+  hasMic: boolean
+  hasSystemAudio: boolean
+  profile: RecordingProfile
 }
 
 interface AppState {
   // Windows
   recorderWin: BrowserWindow | null
   editorWin: BrowserWindow | null
-  renderWorker: BrowserWindow | null
+  // Hidden windows rendering the segments of an export
+  renderWorkers: BrowserWindow[]
   savingWin: BrowserWindow | null
   selectionWin: BrowserWindow | null
+  libraryWin: BrowserWindow | null
+  hudWin: BrowserWindow | null
+  countdownWin: BrowserWindow | null
+  // Outline and controls around the area being recorded
+  overlayBorderWins: BrowserWindow[]
+  overlayControlsWin: BrowserWindow | null
 
   // System
   tray: Tray | null
@@ -36,35 +73,61 @@ interface AppState {
   // Processes & Streams
   ffmpegProcess: ChildProcessWithoutNullStreams | null
   mouseTracker: IMouseTracker | null
+  windowTracker: X11WindowTracker | null
+  healthMonitor: RecordingHealthMonitor | null
 
   // In-memory recording data
   recordedMouseEvents: any[]
+  recordedKeystrokes: KeystrokeItem[]
+  recordedMarkers: RecordingMarker[]
   runtimeCursorImageMap: Map<string, any>
 
   // Recording State
   recordingStartTime: number
   originalCursorScale: number | null
   currentRecordingSession: RecordingSession | null
+  captureConfig: CaptureConfig | null
+  recordingSegments: RecordingSegment[]
+  isRecordingPaused: boolean
   currentEditorSessionFiles: RecordingSession | null
+  currentProjectPath: string | null
 
   // Flags
+  // Set when running from the command line, where no windows or tray may be shown
+  isHeadless: boolean
   isCleanupInProgress: boolean
+  isPauseToggleInProgress: boolean
 }
 
 export const appState: AppState = {
   recorderWin: null,
   editorWin: null,
-  renderWorker: null,
+  renderWorkers: [],
   savingWin: null,
   selectionWin: null,
+  libraryWin: null,
+  hudWin: null,
+  countdownWin: null,
+  overlayBorderWins: [],
+  overlayControlsWin: null,
   tray: null,
   ffmpegProcess: null,
   mouseTracker: null,
+  windowTracker: null,
+  healthMonitor: null,
   recordedMouseEvents: [],
+  recordedKeystrokes: [],
+  recordedMarkers: [],
   runtimeCursorImageMap: new Map(),
   recordingStartTime: 0,
   originalCursorScale: null,
   currentRecordingSession: null,
+  captureConfig: null,
+  recordingSegments: [],
+  isRecordingPaused: false,
   currentEditorSessionFiles: null,
+  currentProjectPath: null,
+  isHeadless: false,
   isCleanupInProgress: false,
+  isPauseToggleInProgress: false,
 }
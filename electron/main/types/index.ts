@@ -1,3 +1,5 @@
+import type { RecordingSession, RecordingGeometry } from '../state'
+
 export interface MetaDataItem {
   timestamp: number
   x: number
@@ -6,6 +8,134 @@ export interface MetaDataItem {
   button?: string
   pressed?: boolean
   cursorImageKey?: string
+  // Scroll steps of a 'scroll' event; positive values scroll down and right
+  deltaX?: number
+  deltaY?: number
+}
+
+// 'shortcuts' only keeps key presses with a modifier (other than Shift) and non-character keys
+export type KeystrokeCaptureMode = 'off' | 'shortcuts' | 'all'
+
+export interface KeystrokeItem {
+  timestamp: number
+  // The character typed, or a key name such as 'Enter' or 'F5'
+  key: string
+  modifiers: string[]
+}
+
+// Tracks that are recorded next to the screen video and have to be lined up with it
+export type SyncTrack = 'webcam' | 'mic' | 'system'
+
+export interface TrackSync {
+  // Where the segment's part begins in the joined track file (ms)
+  start: number
+  // How much later than the screen video the part began (ms); negative if it began earlier
+  offset: number
+}
+
+// One stretch of a recording between pauses, as stored in the metadata
+export interface SyncSegment {
+  // Where the segment begins in the joined screen video (ms)
+  start: number
+  duration: number
+  tracks: Partial<Record<SyncTrack, TrackSync>>
+}
+
+// A resolution, frame rate and pixel format a webcam can capture in
+export interface WebcamMode {
+  width: number
+  height: number
+  // 0 when the camera did not report its rates and picks one itself
+  framerate: number
+  // FFmpeg name of the format, e.g. 'yuyv422' or 'mjpeg'
+  pixelFormat: string
+  // Name of the format as reported by the driver, shown in the recorder
+  formatName: string
+}
+
+// How the webcam track was captured, as stored in the metadata
+export interface WebcamCaptureInfo {
+  // Mode picked in the recorder; null when the recording profile's size and rate were requested
+  mode: WebcamMode | null
+  width: number
+  height: number
+  // Average rate of the saved webcam video, lower than the requested one when the camera delivered fewer frames
+  framerate: number
+}
+
+export type HealthWarningType = 'low-fps' | 'dropped-frames' | 'low-disk-space' | 'disk-full'
+
+export interface HealthWarning {
+  // Wall-clock time while recording, position on the recording (ms) in the saved report
+  timestamp: number
+  type: HealthWarningType
+  message: string
+}
+
+// Live state of a running recording, shown in the tray and the recording HUD
+export interface RecordingHealthStatus {
+  isPaused: boolean
+  // Recorded time without pauses (ms)
+  duration: number
+  fps: number
+  targetFps: number
+  droppedFrames: number
+  duplicatedFrames: number
+  bitrateKbps: number
+  // Bytes written to the screen video
+  outputSize: number
+  freeDiskSpace: number | null
+  // The most recent warning, while it still applies
+  warning: HealthWarning | null
+}
+
+// Stored in the metadata of every recording
+export interface RecordingHealthReport {
+  targetFps: number
+  averageFps: number
+  // Lowest capture rate over a sample window, null for recordings too short to judge
+  minFps: number | null
+  droppedFrames: number
+  duplicatedFrames: number
+  averageBitrateKbps: number
+  outputSize: number
+  minFreeDiskSpace: number | null
+  stoppedForDiskSpace: boolean
+  warnings: HealthWarning[]
+}
+
+// Recording controls that can be bound to a global shortcut
+export type RecordingHotkeyAction = 'start' | 'stop' | 'pause' | 'cancel'
+
+// Electron accelerator of each action; an empty string leaves the action unbound
+export type RecordingHotkeys = Record<RecordingHotkeyAction, string>
+
+// A point of interest dropped during a recording, e.g. by a test script through the automation API
+export interface RecordingMarker {
+  // Wall-clock time (ms) while recording; position on the joined video (ms) once saved to the metadata
+  timestamp: number
+  label: string
+}
+
+export interface AutomationSettings {
+  enabled: boolean
+  port: number
+  token: string
+  // Why the endpoint is not listening although it is enabled, e.g. because the port is taken
+  error: string | null
+}
+
+// Same values as the editor's frame aspect ratios, so an area recorded with one fills the frame exactly
+export type AspectRatio = '16:9' | '9:16' | '4:3' | '3:4' | '1:1'
+
+// An area picked in the selection window, in screen coordinates
+export interface SelectionRegion extends RecordingGeometry {
+  // Ratio the area was locked to, null for a free selection
+  aspectRatio: AspectRatio | null
+}
+
+export interface SavedRegion extends SelectionRegion {
+  name: string
 }
 
 export interface CursorFrame {
@@ -18,3 +148,67 @@ export interface CursorFrame {
 }
 
 export type CursorTheme = Record<number, Record<string, CursorFrame[]>>
+
+/**
+ * An export the editor starts by itself once the project is loaded, used by the command line.
+ */
+export interface HeadlessExportRequest {
+  // Name of the preset to apply first, the project's own styles are used without one
+  presetName?: string
+  exportSettings: {
+    format: 'mp4' | 'gif'
+    resolution: '720p' | '1080p' | '2k'
+    fps: 30 | 60
+    quality: 'low' | 'medium' | 'high'
+    // Render workers to split the export across, one per CPU core if not set, fewer if memory is short
+    workers?: number
+  }
+  outputPath: string
+}
+
+/**
+ * How the render worker reads the recording and encodes the export. WebCodecs uses the GPU where one is
+ * available; FFmpeg is the software fallback for systems without working WebCodecs support.
+ */
+export interface ExportPipeline {
+  decoder: 'webcodecs' | 'ffmpeg'
+  encoder: 'webcodecs' | 'ffmpeg'
+}
+
+// Set when free memory held an export to fewer render workers than were asked for
+export interface ExportWorkerLimit {
+  requested: number
+  used: number
+}
+
+/**
+ * On-disk format of a saved `.screenarc` project. Media files are referenced by
+ * absolute path, the editor state is stored as an opaque snapshot owned by the renderer.
+ */
+export interface ScreenArcProject {
+  version: number
+  createdAt: number
+  updatedAt: number
+  session: RecordingSession
+  editorState: Record<string, unknown>
+  // Only set on autosave snapshots: the project file the session was opened from, if any
+  projectPath?: string
+}
+
+/**
+ * A recording or project shown in the library window.
+ */
+export interface LibraryItem {
+  kind: 'recording' | 'project'
+  // Project file for projects, metadata file for bare recordings. Identifies the item in library requests.
+  filePath: string
+  name: string
+  session: RecordingSession
+  createdAt: number
+  duration: number
+  width: number
+  height: number
+  hasWebcam: boolean
+  hasAudio: boolean
+  isOpenInEditor: boolean
+}
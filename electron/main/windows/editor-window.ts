@@ -9,20 +9,20 @@ import Store from 'electron-store'
 import { format as formatUrl } from 'node:url'
 import { appState } from '../state'
 import { cleanupOrphanedRecordings } from '../features/recording-manager'
+import { isSessionReferencedByProject } from '../features/project-manager'
+import { clearAutosave, getAutosavedEditorState } from '../features/autosave-manager'
 import { checkForUpdates } from '../features/update-checker'
 import { VITE_DEV_SERVER_URL, RENDERER_DIST, PRELOAD_SCRIPT } from '../lib/constants'
 import { createEditorMenu, clearMenu } from '../features/app-menu'
-import { RecordingGeometry } from '../state'
+import { notifyLibraryChanged } from './library-window'
+import type { RecordingSession } from '../state'
+import type { HeadlessExportRequest } from '../types'
 
 const store = new Store() // Can be configured with schema if needed
 
 export function createEditorWindow(
-  videoPath: string,
-  metadataPath: string,
-  recordingGeometry: RecordingGeometry,
-  webcamVideoPath?: string,
-  audioPath?: string,
-  scaleFactor: number = 1,
+  initialSession: RecordingSession,
+  project?: { projectPath?: string; editorState: Record<string, unknown>; exportRequest?: HeadlessExportRequest },
 ) {
   const bounds = store.get('windowBounds', { width: 1280, height: 800 }) as {
     x?: number
@@ -31,7 +31,8 @@ export function createEditorWindow(
     height: number
   }
 
-  appState.currentEditorSessionFiles = { screenVideoPath: videoPath, metadataPath, recordingGeometry, webcamVideoPath, audioPath, scaleFactor }
+  appState.currentEditorSessionFiles = initialSession
+  appState.currentProjectPath = project?.projectPath ?? null
   log.info('[EditorWindow] Stored session files for cleanup:', appState.currentEditorSessionFiles)
 
   const isWindows = process.platform === 'win32'
@@ -78,10 +79,11 @@ export function createEditorWindow(
     appState.editorWin?.webContents.send('window:state-changed', { isMaximized: false })
   })
 
-  appState.editorWin.maximize()
+  if (!appState.isHeadless) appState.editorWin.maximize()
 
-  // Cleanup orphaned recordings
-  cleanupOrphanedRecordings()
+  // Cleanup orphaned recordings. A headless export skips this, the segments of a recording that crashed
+  // in the GUI are waiting there to be recovered on its next launch.
+  if (!appState.isHeadless) cleanupOrphanedRecordings()
 
   // Save bounds logic
   let resizeTimeout: NodeJS.Timeout
@@ -102,17 +104,25 @@ export function createEditorWindow(
   //   editorWin.webContents.openDevTools();
   // }
 
-  appState.editorWin.on('closed', () => {
+  appState.editorWin.on('closed', async () => {
     // Clear the application menu when the editor window is closed
     clearMenu()
-    if (appState.currentEditorSessionFiles) {
-      cleanupEditorFiles(appState.currentEditorSessionFiles)
-      appState.currentEditorSessionFiles = null
-    }
+    const sessionFiles = appState.currentEditorSessionFiles
+    appState.currentEditorSessionFiles = null
+    appState.currentProjectPath = null
     appState.editorWin = null
+    // The session ended cleanly, so there is nothing to recover on next launch. A headless editor never
+    // autosaves, so the snapshot belongs to a GUI session.
+    if (!appState.isHeadless) clearAutosave()
+    // Files referenced by a saved project must outlive the editor window
+    if (sessionFiles && !(await isSessionReferencedByProject(sessionFiles))) {
+      await cleanupEditorFiles(sessionFiles)
+    }
+    notifyLibraryChanged()
   })
 
-  appState.editorWin.show()
+  // A headless editor only loads the project to export it
+  if (!appState.isHeadless) appState.editorWin.show()
 
   const editorUrl = VITE_DEV_SERVER_URL
     ? `${VITE_DEV_SERVER_URL}#editor`
@@ -121,10 +131,33 @@ export function createEditorWindow(
   log.info(`[EditorWindow] Loading URL: ${editorUrl}`)
   appState.editorWin.loadURL(editorUrl)
 
-  appState.editorWin.webContents.on('did-finish-load', () => {
+  // Reload the renderer after a crash; the session is restored from the last autosave on load
+  appState.editorWin.webContents.on('render-process-gone', (_event, details) => {
+    log.error('[EditorWindow] Renderer process gone:', details)
+    if (details.reason !== 'clean-exit' && appState.editorWin && !appState.editorWin.isDestroyed()) {
+      appState.editorWin.webContents.reload()
+    }
+  })
+
+  appState.editorWin.webContents.on('did-finish-load', async () => {
     log.info(`[EditorWindow] Finished loading. Sending project data.`)
-    appState.editorWin?.webContents.send('project:open', { videoPath, metadataPath, webcamVideoPath, audioPath })
-    checkForUpdates(appState.editorWin)
+    // The session may have changed since the window was created (e.g. another project was opened)
+    const session = appState.currentEditorSessionFiles
+    if (!session) return
+    const editorState =
+      (await getAutosavedEditorState(session)) ??
+      (session.screenVideoPath === initialSession.screenVideoPath ? project?.editorState : undefined)
+    appState.editorWin?.webContents.send('project:open', {
+      videoPath: session.screenVideoPath,
+      metadataPath: session.metadataPath,
+      webcamVideoPath: session.webcamVideoPath,
+      audioPath: session.audioPath,
+      systemAudioPath: session.systemAudioPath,
+      projectPath: appState.currentProjectPath ?? undefined,
+      editorState,
+      exportRequest: project?.exportRequest,
+    })
+    if (!appState.isHeadless) checkForUpdates(appState.editorWin)
   })
 }
 
@@ -133,9 +166,16 @@ export async function cleanupEditorFiles(files: {
   metadataPath: string
   webcamVideoPath?: string
   audioPath?: string
+  systemAudioPath?: string
 }) {
   log.info('[EditorWindow] Cleaning up session files:', files)
-  const unlinkPromises = [files.screenVideoPath, files.webcamVideoPath, files.audioPath, files.metadataPath]
+  const unlinkPromises = [
+    files.screenVideoPath,
+    files.webcamVideoPath,
+    files.audioPath,
+    files.systemAudioPath,
+    files.metadataPath,
+  ]
     .filter(Boolean)
     .map((filePath) => (fsSync.existsSync(filePath!) ? fs.unlink(filePath!) : Promise.resolve()))
   try {
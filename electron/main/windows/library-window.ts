@@ -0,0 +1,53 @@
+// Logic to create and manage the recording library window.
+
+import log from 'electron-log/main'
+import { BrowserWindow } from 'electron'
+import path from 'node:path'
+import { format as formatUrl } from 'node:url'
+import { appState } from '../state'
+import { VITE_DEV_SERVER_URL, RENDERER_DIST, PRELOAD_SCRIPT } from '../lib/constants'
+
+export function createLibraryWindow() {
+  if (appState.libraryWin && !appState.libraryWin.isDestroyed()) {
+    appState.libraryWin.show()
+    appState.libraryWin.focus()
+    return
+  }
+
+  appState.libraryWin = new BrowserWindow({
+    icon: path.join(process.env.VITE_PUBLIC!, 'screenarc-appicon.png'),
+    title: 'ScreenArc Library',
+    width: 1024,
+    height: 720,
+    minWidth: 720,
+    minHeight: 480,
+    autoHideMenuBar: true,
+    show: false,
+    webPreferences: {
+      preload: PRELOAD_SCRIPT,
+      webSecurity: !VITE_DEV_SERVER_URL,
+    },
+  })
+
+  appState.libraryWin.on('closed', () => {
+    appState.libraryWin = null
+  })
+
+  appState.libraryWin.once('ready-to-show', () => appState.libraryWin?.show())
+
+  const libraryUrl = VITE_DEV_SERVER_URL
+    ? `${VITE_DEV_SERVER_URL}#library`
+    : formatUrl({ pathname: path.join(RENDERER_DIST, 'index.html'), protocol: 'file:', slashes: true, hash: 'library' })
+
+  log.info(`[LibraryWindow] Loading URL: ${libraryUrl}`)
+  appState.libraryWin.loadURL(libraryUrl)
+}
+
+/**
+ * Tells the library window to reload its items, e.g. after a project was saved.
+ */
+export function notifyLibraryChanged() {
+  if (appState.libraryWin && !appState.libraryWin.isDestroyed()) {
+    appState.libraryWin.webContents.send('library:changed')
+  }
+}
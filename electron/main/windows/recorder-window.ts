@@ -5,8 +5,9 @@ import { BrowserWindow, screen, ipcMain } from 'electron'
 import path from 'node:path'
 import { appState } from '../state'
 import { VITE_DEV_SERVER_URL, RENDERER_DIST, PRELOAD_SCRIPT } from '../lib/constants'
-import { cleanupAndDiscard } from '../features/recording-manager'
+import { cleanupAndDiscard, updateRecordingHotkeys } from '../features/recording-manager'
 import { resetCursorScale } from '../features/cursor-manager'
+import { stopMicLevelMonitor } from '../features/audio-sources'
 
 export function createRecorderWindow() {
   const primaryDisplay = screen.getPrimaryDisplay()
@@ -55,8 +56,12 @@ export function createRecorderWindow() {
 
   appState.recorderWin.on('closed', () => {
     appState.recorderWin = null
+    stopMicLevelMonitor()
+    updateRecordingHotkeys()
   })
 
+  updateRecordingHotkeys()
+
   // This simple IPC handler can stay here as it's tightly coupled to this window.
   ipcMain.on('recorder:set-size', (_event, { width, height }: { width: number; height: number }) => {
     if (appState.recorderWin) {
@@ -0,0 +1,164 @@
+// Logic to outline the area being recorded and show recording controls next to it.
+// Nothing of the overlay may end up in the recording, so the outline is drawn just outside the captured
+// area and the controls are placed beside it, on another display, or left out when there is no room.
+
+import log from 'electron-log/main'
+import { BrowserWindow, screen } from 'electron'
+import { appState } from '../state'
+import { createTemporaryWindow } from './temporary-windows'
+import type { RecordingGeometry } from '../state'
+
+const BORDER_WIDTH = 3
+const BORDER_COLOR = '#ef4444'
+const CONTROLS_WIDTH = 200
+const CONTROLS_HEIGHT = 44
+// Space between the outline and the controls
+const CONTROLS_GAP = 8
+
+const intersects = (a: Electron.Rectangle, b: Electron.Rectangle) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+
+const contains = (outer: Electron.Rectangle, inner: Electron.Rectangle) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height
+
+/**
+ * The four strips around the area. Strips that lie on no display are left out, e.g. all of them for
+ * a full-screen recording of a single display.
+ */
+function getBorderRects(area: RecordingGeometry): Electron.Rectangle[] {
+  const outer = {
+    x: area.x - BORDER_WIDTH,
+    y: area.y - BORDER_WIDTH,
+    width: area.width + BORDER_WIDTH * 2,
+    height: area.height + BORDER_WIDTH * 2,
+  }
+  const rects = [
+    { x: outer.x, y: outer.y, width: outer.width, height: BORDER_WIDTH },
+    { x: outer.x, y: area.y + area.height, width: outer.width, height: BORDER_WIDTH },
+    { x: outer.x, y: area.y, width: BORDER_WIDTH, height: area.height },
+    { x: area.x + area.width, y: area.y, width: BORDER_WIDTH, height: area.height },
+  ]
+  const displays = screen.getAllDisplays()
+  return rects.filter((rect) => displays.some((display) => intersects(rect, display.bounds)))
+}
+
+/**
+ * Finds a spot for the controls that is not captured: below or above the area, else on another display.
+ * Windows and macOS keep content-protected windows out of the capture, so there they may also sit inside.
+ * @returns The position of the controls, or null if they cannot be shown without being recorded.
+ */
+function getControlsPosition(area: RecordingGeometry): Electron.Point | null {
+  const x = Math.round(area.x + area.width / 2 - CONTROLS_WIDTH / 2)
+  const candidates = [
+    { x, y: area.y + area.height + BORDER_WIDTH + CONTROLS_GAP },
+    { x, y: area.y - BORDER_WIDTH - CONTROLS_GAP - CONTROLS_HEIGHT },
+  ]
+  const workAreas = screen.getAllDisplays().map((display) => display.workArea)
+  for (const candidate of candidates) {
+    const rect = { ...candidate, width: CONTROLS_WIDTH, height: CONTROLS_HEIGHT }
+    if (!intersects(rect, area) && workAreas.some((workArea) => contains(workArea, rect))) return candidate
+  }
+
+  const otherWorkArea = workAreas.find((workArea) => !intersects(workArea, area))
+  if (otherWorkArea) {
+    return {
+      x: Math.round(otherWorkArea.x + otherWorkArea.width / 2 - CONTROLS_WIDTH / 2),
+      y: otherWorkArea.y + CONTROLS_GAP,
+    }
+  }
+
+  if (process.platform !== 'linux') {
+    return { x, y: area.y + area.height - CONTROLS_HEIGHT - CONTROLS_GAP * 2 }
+  }
+  return null
+}
+
+function createBorderWindow(rect: Electron.Rectangle) {
+  const win = new BrowserWindow({
+    ...rect,
+    show: false,
+    frame: false,
+    resizable: false,
+    movable: false,
+    focusable: false,
+    skipTaskbar: true,
+    hasShadow: false,
+    alwaysOnTop: true,
+    backgroundColor: BORDER_COLOR,
+  })
+  win.setIgnoreMouseEvents(true)
+  win.setAlwaysOnTop(true, 'screen-saver')
+  win.setContentProtection(true)
+  // Window managers may place new windows elsewhere, so the strip is moved where it belongs once shown
+  win.once('ready-to-show', () => {
+    win.showInactive()
+    win.setBounds(rect)
+  })
+  win.loadURL('about:blank')
+  return win
+}
+
+/**
+ * Outlines the area being recorded and shows the controls next to it.
+ */
+export function createRecordingOverlay(area: RecordingGeometry) {
+  closeRecordingOverlay()
+  appState.overlayBorderWins = getBorderRects(area).map(createBorderWindow)
+
+  const position = getControlsPosition(area)
+  if (!position) {
+    log.info('[RecordingOverlay] No room for the controls outside the recorded area. Showing none.')
+    return
+  }
+  appState.overlayControlsWin = createTemporaryWindow(
+    {
+      width: CONTROLS_WIDTH,
+      height: CONTROLS_HEIGHT,
+      ...position,
+      show: false,
+      skipTaskbar: true,
+      hasShadow: false,
+      // Clicks on the buttons should not take focus from the app being recorded
+      focusable: false,
+    },
+    'recording-overlay/index.html',
+  )
+  appState.overlayControlsWin.setContentProtection(true)
+  appState.overlayControlsWin.setAlwaysOnTop(true, 'screen-saver')
+
+  appState.overlayControlsWin.once('ready-to-show', () => {
+    appState.overlayControlsWin?.showInactive()
+  })
+
+  appState.overlayControlsWin.on('closed', () => {
+    appState.overlayControlsWin = null
+  })
+}
+
+/**
+ * Follows an area that moves during the recording, like a recorded window.
+ */
+export function moveRecordingOverlay(area: RecordingGeometry) {
+  const rects = getBorderRects(area)
+  // Strips that moved onto or off a display change the set of windows
+  if (rects.length !== appState.overlayBorderWins.length) {
+    appState.overlayBorderWins.forEach((win) => win.destroy())
+    appState.overlayBorderWins = rects.map(createBorderWindow)
+  } else {
+    rects.forEach((rect, index) => appState.overlayBorderWins[index].setBounds(rect))
+  }
+
+  const position = getControlsPosition(area)
+  if (position) appState.overlayControlsWin?.setPosition(position.x, position.y)
+}
+
+export function closeRecordingOverlay() {
+  appState.overlayBorderWins.forEach((win) => {
+    if (!win.isDestroyed()) win.destroy()
+  })
+  appState.overlayBorderWins = []
+  appState.overlayControlsWin?.close()
+}
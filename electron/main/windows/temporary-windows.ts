@@ -1,11 +1,11 @@
 // Logic to create temporary windows like countdown, saving, selection.
 
-import { BrowserWindow } from 'electron'
+import { BrowserWindow, screen } from 'electron'
 import path from 'node:path'
 import { appState } from '../state'
 import { VITE_DEV_SERVER_URL, RENDERER_DIST, PRELOAD_SCRIPT } from '../lib/constants'
 
-function createTemporaryWindow(options: Electron.BrowserWindowConstructorOptions, htmlPath: string) {
+export function createTemporaryWindow(options: Electron.BrowserWindowConstructorOptions, htmlPath: string) {
   // Define the path to the icon, handling both development and production environments
   const iconPath = VITE_DEV_SERVER_URL
     ? path.join(process.env.APP_ROOT!, 'public/screenarc-appicon.png')
@@ -53,3 +53,68 @@ export function createSelectionWindow() {
     appState.selectionWin = null
   })
 }
+
+// Keeps the HUD clear of the screen edge
+const HUD_MARGIN = 16
+
+/**
+ * Shows the state of the running recording in a small always-on-top window in the top right corner.
+ * It never takes focus or mouse input, so it does not get in the way of what is being recorded.
+ */
+export function createRecordingHudWindow() {
+  const width = 360
+  const height = 72
+  const { workArea } = screen.getPrimaryDisplay()
+  appState.hudWin = createTemporaryWindow(
+    {
+      width,
+      height,
+      x: workArea.x + workArea.width - width - HUD_MARGIN,
+      y: workArea.y + HUD_MARGIN,
+      show: false,
+      focusable: false,
+      skipTaskbar: true,
+      hasShadow: false,
+    },
+    'recording-hud/index.html',
+  )
+  // Keeps it out of the recording where the platform supports it (Windows and macOS)
+  appState.hudWin.setContentProtection(true)
+  appState.hudWin.setIgnoreMouseEvents(true)
+  appState.hudWin.setAlwaysOnTop(true, 'screen-saver')
+
+  appState.hudWin.once('ready-to-show', () => {
+    appState.hudWin?.showInactive()
+  })
+
+  appState.hudWin.on('closed', () => {
+    appState.hudWin = null
+  })
+}
+
+/**
+ * Shows the countdown before a recording centered on the area that is about to be recorded.
+ * The window is shown by the caller once it is ready.
+ */
+export function createCountdownWindow(area: Electron.Rectangle) {
+  const size = 200
+  appState.countdownWin = createTemporaryWindow(
+    {
+      width: size,
+      height: size,
+      x: Math.round(area.x + area.width / 2 - size / 2),
+      y: Math.round(area.y + area.height / 2 - size / 2),
+      show: false,
+      focusable: false,
+      skipTaskbar: true,
+      hasShadow: false,
+    },
+    'countdown/index.html',
+  )
+  appState.countdownWin.setIgnoreMouseEvents(true)
+  appState.countdownWin.setAlwaysOnTop(true, 'screen-saver')
+
+  appState.countdownWin.on('closed', () => {
+    appState.countdownWin = null
+  })
+}
@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
+import type { ProjectEditorState } from '../src/types'
 
 // Define the type for the callback value
 type RecordingResult = {
@@ -11,6 +12,25 @@ type ProjectPayload = {
   videoPath: string
   metadataPath: string
   webcamVideoPath?: string
+  audioPath?: string
+  systemAudioPath?: string
+  projectPath?: string
+  editorState?: ProjectEditorState
+  // Set when exporting from the command line: the editor exports the project right after loading it
+  exportRequest?: HeadlessExportRequest
+}
+
+type HeadlessExportRequest = {
+  presetName?: string
+  exportSettings: any
+  outputPath: string
+}
+
+// --- Project files ---
+type ProjectSaveResult = {
+  canceled: boolean
+  filePath?: string
+  error?: string
 }
 
 type ExportPayload = {
@@ -28,17 +48,42 @@ type CompletePayload = {
   success: boolean
   outputPath?: string
   error?: string
+  pipeline?: ExportPipeline
+  workerLimit?: ExportWorkerLimit
+}
+
+// How the render worker reads the recording and encodes the export
+type ExportPipeline = {
+  decoder: 'webcodecs' | 'ffmpeg'
+  encoder: 'webcodecs' | 'ffmpeg'
+}
+
+// Set when free memory held an export to fewer render workers than were asked for
+type ExportWorkerLimit = {
+  requested: number
+  used: number
+}
+
+// A video decoded by FFmpeg for exports without WebCodecs
+type ExportDecoderInfo = {
+  id: number
+  width: number
+  height: number
+  frameRate: number
 }
 
 // Payload for worker render
 type RenderStartPayload = {
   projectState: any
   exportSettings: any
+  // Part of the export this worker renders, out of how many
+  segment: { index: number; count: number }
 }
 
 type WindowSource = {
   id: string
   name: string
+  appName?: string
   thumbnailUrl: string
   geometry?: {
     x: number
@@ -48,6 +93,33 @@ type WindowSource = {
   }
 }
 
+// --- Library ---
+type LibraryItem = {
+  kind: 'recording' | 'project'
+  filePath: string
+  name: string
+  session: {
+    screenVideoPath: string
+    metadataPath: string
+    webcamVideoPath?: string
+    audioPath?: string
+    systemAudioPath?: string
+  }
+  createdAt: number
+  duration: number
+  width: number
+  height: number
+  hasWebcam: boolean
+  hasAudio: boolean
+  isOpenInEditor: boolean
+}
+
+type LibraryActionResult = {
+  success: boolean
+  error?: string
+  filePath?: string
+}
+
 // --- Presets ---
 type Preset = any
 
@@ -70,6 +142,47 @@ type DshowDevice = {
   alternativeName: string
 }
 
+// --- PulseAudio Sources (Linux) ---
+type PulseAudioSource = {
+  name: string
+  description: string
+}
+
+// --- Webcam Modes (Linux) ---
+type WebcamMode = {
+  width: number
+  height: number
+  framerate: number
+  pixelFormat: string
+  formatName: string
+}
+
+// --- Recording Profiles ---
+type RecordingProfile = {
+  id: string
+  name: string
+  codec: 'x264' | 'x265' | 'vp9' | 'lossless'
+  crf: number
+  preset: string
+  framerate: number
+  webcamWidth: number
+  webcamHeight: number
+  webcamFramerate: number
+  audioBitrate: number
+}
+
+// --- Recording Hotkeys ---
+type RecordingHotkeyAction = 'start' | 'stop' | 'pause' | 'cancel'
+type RecordingHotkeys = Record<RecordingHotkeyAction, string>
+
+// --- Automation API ---
+type AutomationSettings = {
+  enabled: boolean
+  port: number
+  token: string
+  error: string | null
+}
+
 // --- Cursor Theme ---
 type CursorTheme = any
 
@@ -80,18 +193,47 @@ export const electronAPI = {
     source: 'area' | 'fullscreen' | 'window'
     geometry?: WindowSource['geometry']
     windowTitle?: string
+    windowId?: string
     displayId?: number
-    webcam?: { deviceId: string; deviceLabel: string; index: number }
+    webcam?: { deviceId: string; deviceLabel: string; index: number; mode?: WebcamMode }
     mic?: { deviceId: string; deviceLabel: string; index: number }
+    systemAudio?: boolean
+    profileId?: string
+    keystrokes?: 'off' | 'shortcuts' | 'all'
   }): Promise<RecordingResult> => ipcRenderer.invoke('recording:start', options),
   stopRecording: (): void => ipcRenderer.send('recording:stop'),
+  togglePauseRecording: (): void => ipcRenderer.send('recording:toggle-pause'),
   loadVideoFromFile: (): Promise<RecordingResult> => ipcRenderer.invoke('recording:load-from-file'),
+  getRecordingProfiles: (): Promise<RecordingProfile[]> => ipcRenderer.invoke('recording:get-profiles'),
+  saveCustomRecordingProfile: (profile: Partial<RecordingProfile>): Promise<RecordingProfile> =>
+    ipcRenderer.invoke('recording:save-custom-profile', profile),
+  getRecordingHotkeys: (): Promise<RecordingHotkeys> => ipcRenderer.invoke('recording:get-hotkeys'),
+  saveRecordingHotkeys: (changes: Partial<RecordingHotkeys>): Promise<RecordingHotkeys> =>
+    ipcRenderer.invoke('recording:save-hotkeys', changes),
+  getAutomationSettings: (): Promise<AutomationSettings> => ipcRenderer.invoke('automation:get-settings'),
+  saveAutomationSettings: (
+    changes: Partial<Pick<AutomationSettings, 'enabled' | 'port'>>,
+  ): Promise<AutomationSettings> => ipcRenderer.invoke('automation:save-settings', changes),
+  regenerateAutomationToken: (): Promise<AutomationSettings> => ipcRenderer.invoke('automation:regenerate-token'),
   getCursorScale: (): Promise<number> => ipcRenderer.invoke('desktop:get-cursor-scale'),
   setCursorScale: (scale: number): void => ipcRenderer.send('desktop:set-cursor-scale', scale),
 
   getDisplays: (): Promise<DisplayInfo[]> => ipcRenderer.invoke('desktop:get-displays'),
   getDshowDevices: (): Promise<{ video: DshowDevice[]; audio: DshowDevice[] }> =>
     ipcRenderer.invoke('desktop:get-dshow-devices'),
+  getPulseAudioSources: (): Promise<PulseAudioSource[]> => ipcRenderer.invoke('desktop:get-pulse-audio-sources'),
+  getWebcamModes: (deviceIndex: number): Promise<WebcamMode[]> =>
+    ipcRenderer.invoke('desktop:get-webcam-modes', deviceIndex),
+  startMicLevelMonitor: (sourceName: string): void => ipcRenderer.send('desktop:start-mic-level-monitor', sourceName),
+  stopMicLevelMonitor: (): void => ipcRenderer.send('desktop:stop-mic-level-monitor'),
+  onMicLevel: (callback: (level: number) => void) => {
+    const listener = (_event: IpcRendererEvent, level: number) => callback(level)
+    ipcRenderer.on('desktop:mic-level', listener)
+    return () => {
+      ipcRenderer.removeListener('desktop:mic-level', listener)
+    }
+  },
+  getWindowSources: (): Promise<WindowSource[]> => ipcRenderer.invoke('desktop:get-window-sources'),
 
   onRecordingStarted: (callback: () => void) => {
     const listener = () => callback()
@@ -109,6 +251,20 @@ export const electronAPI = {
       ipcRenderer.removeListener('recording-finished', listener)
     }
   },
+  onRecordingPauseChanged: (callback: (payload: { isPaused: boolean }) => void) => {
+    const listener = (_event: IpcRendererEvent, payload: { isPaused: boolean }) => callback(payload)
+    ipcRenderer.on('recording-pause-changed', listener)
+    return () => {
+      ipcRenderer.removeListener('recording-pause-changed', listener)
+    }
+  },
+  onRecordingHotkey: (callback: (action: RecordingHotkeyAction) => void) => {
+    const listener = (_event: IpcRendererEvent, action: RecordingHotkeyAction) => callback(action)
+    ipcRenderer.on('recording:hotkey', listener)
+    return () => {
+      ipcRenderer.removeListener('recording:hotkey', listener)
+    }
+  },
   onReleaseWebcamRequest: (callback: () => void) => {
     const listener = () => callback()
     ipcRenderer.on('recorder:release-webcam', listener)
@@ -126,8 +282,36 @@ export const electronAPI = {
     }
   },
 
+  onProjectSaveRequest: (callback: (payload: { saveAs: boolean }) => void) => {
+    const listener = (_event: IpcRendererEvent, payload: { saveAs: boolean }) => callback(payload)
+    ipcRenderer.on('project:save-requested', listener)
+    return () => {
+      ipcRenderer.removeListener('project:save-requested', listener)
+    }
+  },
+  saveProject: (payload: { editorState: ProjectEditorState; saveAs?: boolean }): Promise<ProjectSaveResult> =>
+    ipcRenderer.invoke('project:save', payload),
+  autosaveProject: (editorState: ProjectEditorState): void => ipcRenderer.send('project:autosave', editorState),
+  openProject: (projectPath?: string): Promise<RecordingResult> => ipcRenderer.invoke('project:open-file', projectPath),
+
+  // --- Library ---
+  openLibraryWindow: (): void => ipcRenderer.send('library:open-window'),
+  listLibraryItems: (): Promise<LibraryItem[]> => ipcRenderer.invoke('library:list'),
+  openLibraryItem: (filePath: string): Promise<LibraryActionResult> => ipcRenderer.invoke('library:open', filePath),
+  renameLibraryItem: (filePath: string, newName: string): Promise<LibraryActionResult> =>
+    ipcRenderer.invoke('library:rename', filePath, newName),
+  deleteLibraryItem: (filePath: string): Promise<LibraryActionResult> => ipcRenderer.invoke('library:delete', filePath),
+  onLibraryChanged: (callback: () => void) => {
+    const listener = () => callback()
+    ipcRenderer.on('library:changed', listener)
+    return () => {
+      ipcRenderer.removeListener('library:changed', listener)
+    }
+  },
+
   readFile: (filePath: string): Promise<string> => ipcRenderer.invoke('fs:readFile', filePath),
-  readFileBuffer: (filePath: string): Promise<Uint8Array> => ipcRenderer.invoke('fs:readFileBuffer', filePath),
+  readFileRange: (filePath: string, offset: number, length: number): Promise<Uint8Array> =>
+    ipcRenderer.invoke('fs:readFileRange', filePath, offset, length),
 
   // --- Export ---
   startExport: (payload: ExportPayload): Promise<void> => ipcRenderer.invoke('export:start', payload),
@@ -169,6 +353,14 @@ export const electronAPI = {
   rendererReady: () => {
     ipcRenderer.send('render:ready')
   },
+  setExportPipeline: (pipeline: ExportPipeline) => {
+    ipcRenderer.send('export:pipeline', pipeline)
+  },
+  openExportDecoder: (videoPath: string, maxHeight: number, startTime?: number): Promise<ExportDecoderInfo> =>
+    ipcRenderer.invoke('export:open-decoder', videoPath, maxHeight, startTime),
+  readExportDecoderFrame: (id: number, time: number): Promise<Uint8Array | null> =>
+    ipcRenderer.invoke('export:read-decoded-frame', id, time),
+  closeExportDecoder: (id: number): void => ipcRenderer.send('export:close-decoder', id),
   sendFrameToMain: (payload: { frame: Buffer; progress: number }) => {
     ipcRenderer.send('export:frame-data', payload)
   },
@@ -213,6 +405,8 @@ export const electronAPI = {
   getPlatform: (): Promise<NodeJS.Platform> => ipcRenderer.invoke('app:getPlatform'),
   getVideoFrame: (options: { videoPath: string; time: number }): Promise<string> =>
     ipcRenderer.invoke('video:get-frame', options),
+  // Peaks from 0 to 1, 100 per second of audio
+  getAudioWaveform: (audioPath: string): Promise<number[]> => ipcRenderer.invoke('audio:get-waveform', audioPath),
 }
 
 // Expose API safely
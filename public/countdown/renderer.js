@@ -0,0 +1,11 @@
+const { ipcRenderer } = require('electron');
+
+const numberLabel = document.getElementById('number');
+
+ipcRenderer.on('countdown:tick', (_event, remaining) => {
+    numberLabel.textContent = String(remaining);
+    // Restart the animation for every new number
+    numberLabel.classList.remove('tick');
+    void numberLabel.offsetWidth;
+    numberLabel.classList.add('tick');
+});
@@ -0,0 +1,47 @@
+const { ipcRenderer } = require('electron');
+
+const hud = document.getElementById('hud');
+const durationLabel = document.getElementById('duration');
+const sizeLabel = document.getElementById('size');
+const fpsLabel = document.getElementById('fps');
+const droppedLabel = document.getElementById('dropped');
+const diskLabel = document.getElementById('disk');
+const warningLabel = document.getElementById('warning');
+
+// Must match the thresholds of the main process (LOW_FPS_RATIO, DISK_SPACE_WARNING_BYTES)
+const LOW_FPS_RATIO = 0.8;
+const DISK_SPACE_WARNING_BYTES = 2 * 1024 ** 3;
+
+function formatDuration(ms) {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function formatBytes(bytes) {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
+ipcRenderer.on('recording-health:status', (_event, status) => {
+    hud.classList.toggle('paused', status.isPaused);
+    durationLabel.textContent = status.isPaused ? `${formatDuration(status.duration)} paused` : formatDuration(status.duration);
+
+    sizeLabel.textContent = status.outputSize > 0 ? formatBytes(status.outputSize) : '';
+
+    fpsLabel.textContent = status.fps > 0 ? `${Math.round(status.fps)} fps` : '';
+    fpsLabel.classList.toggle('bad', status.fps > 0 && status.fps < status.targetFps * LOW_FPS_RATIO);
+
+    const skippedFrames = status.droppedFrames + status.duplicatedFrames;
+    droppedLabel.textContent = skippedFrames > 0 ? `${skippedFrames} dropped` : '';
+    droppedLabel.classList.toggle('bad', skippedFrames > 0);
+
+    diskLabel.textContent = status.freeDiskSpace !== null ? `${formatBytes(status.freeDiskSpace)} free` : '';
+    diskLabel.classList.toggle('bad', status.freeDiskSpace !== null && status.freeDiskSpace < DISK_SPACE_WARNING_BYTES);
+
+    warningLabel.textContent = status.warning ? status.warning.message : '';
+    warningLabel.style.display = status.warning ? 'block' : 'none';
+    hud.classList.toggle('critical', !!status.warning && status.warning.type === 'disk-full');
+});
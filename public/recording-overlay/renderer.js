@@ -0,0 +1,31 @@
+const { ipcRenderer } = require('electron');
+
+const bar = document.getElementById('bar');
+const elapsedLabel = document.getElementById('elapsed');
+const pauseButton = document.getElementById('pause-button');
+const stopButton = document.getElementById('stop-button');
+
+function formatDuration(ms) {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+pauseButton.addEventListener('click', () => {
+    ipcRenderer.send('recording:toggle-pause');
+});
+
+stopButton.addEventListener('click', () => {
+    stopButton.disabled = true;
+    pauseButton.disabled = true;
+    ipcRenderer.send('recording:stop');
+});
+
+// The elapsed time is the recorded time, pauses not included
+ipcRenderer.on('recording-health:status', (_event, status) => {
+    bar.classList.toggle('paused', status.isPaused);
+    elapsedLabel.textContent = formatDuration(status.duration);
+    pauseButton.title = status.isPaused ? 'Resume Recording' : 'Pause Recording';
+});
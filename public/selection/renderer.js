@@ -2,12 +2,38 @@ const { ipcRenderer } = require('electron');
 
 const selectionBox = document.getElementById('selection-box');
 const sizeBadge = document.getElementById('size-badge');
-const tooltip = document.getElementById('tooltip');
+const toolbar = document.getElementById('toolbar');
+const inputs = {
+    x: document.getElementById('input-x'),
+    y: document.getElementById('input-y'),
+    width: document.getElementById('input-width'),
+    height: document.getElementById('input-height'),
+};
+const aspectSelect = document.getElementById('aspect-select');
+const snapLabel = document.getElementById('snap-label');
+const snapToggle = document.getElementById('snap-toggle');
+const regionSelect = document.getElementById('region-select');
+const regionNameInput = document.getElementById('region-name');
+const saveRegionButton = document.getElementById('save-region-button');
+const deleteRegionButton = document.getElementById('delete-region-button');
+const recordButton = document.getElementById('record-button');
+const cancelButton = document.getElementById('cancel-button');
+
+// Must match the editor's AspectRatio values, so the recording fills its frame without letterboxing
+const ASPECT_RATIOS = { '16:9': 16 / 9, '9:16': 9 / 16, '4:3': 4 / 3, '3:4': 3 / 4, '1:1': 1 };
+// Edges closer than this (px) to a window edge jump onto it
+const SNAP_DISTANCE = 8;
+const MIN_SIZE = 10;
 
 let selection = { x: 0, y: 0, width: 0, height: 0 };
 let action = null; // 'drawing', 'moving', 'resizing'
 let startPos = { x: 0, y: 0 };
+// The selection when the drag started; positions are computed from it so that snapping does not stick
+let dragOrigin = null;
 let resizeHandle = null;
+let aspectRatio = null; // A key of ASPECT_RATIOS, or null for a free selection
+let windowRects = [];
+let savedRegions = [];
 
 // --- DOM Update Functions ---
 
@@ -29,7 +55,7 @@ function updateSizeBadge() {
         const safeWidth = Math.floor(selection.width / 2) * 2;
         const safeHeight = Math.floor(selection.height / 2) * 2;
         sizeBadge.textContent = `${safeWidth} x ${safeHeight}`;
-        
+
         // Position badge outside the bottom-right corner
         sizeBadge.style.left = `${selection.x + selection.width + 10}px`;
         sizeBadge.style.top = `${selection.y + selection.height + 10}px`;
@@ -48,11 +74,220 @@ function updateSizeBadge() {
     }
 }
 
+function updateInputs() {
+    for (const [key, input] of Object.entries(inputs)) {
+        input.value = selection.width > 0 && selection.height > 0 ? Math.round(selection[key]) : '';
+    }
+}
+
+function render() {
+    updateSelectionBox();
+    updateSizeBadge();
+    updateInputs();
+}
+
+function updateRegionSelect(selectedName = '') {
+    regionSelect.length = 1; // Keep the placeholder
+    for (const region of savedRegions) {
+        regionSelect.add(new Option(region.name, region.name));
+    }
+    regionSelect.value = savedRegions.some((r) => r.name === selectedName) ? selectedName : '';
+    deleteRegionButton.disabled = !regionSelect.value;
+}
+
+// --- Geometry ---
+
+function getRatio() {
+    return aspectRatio ? ASPECT_RATIOS[aspectRatio] : null;
+}
+
+// Snaps a position to the nearest window or screen edge along one axis, if it is close enough
+function snap(value, axis) {
+    if (!snapToggle.checked || windowRects.length === 0) return value;
+    const lines = axis === 'x' ? [0, window.innerWidth] : [0, window.innerHeight];
+    for (const rect of windowRects) {
+        if (axis === 'x') lines.push(rect.x, rect.x + rect.width);
+        else lines.push(rect.y, rect.y + rect.height);
+    }
+
+    let snapped = value;
+    let distance = SNAP_DISTANCE + 1;
+    for (const line of lines) {
+        if (Math.abs(line - value) < distance) {
+            snapped = line;
+            distance = Math.abs(line - value);
+        }
+    }
+    return snapped;
+}
+
+// Snaps a moved box by whichever of its two edges is closer to a line
+function snapEdges(start, size, axis) {
+    const snappedStart = snap(start, axis);
+    if (snappedStart !== start) return snappedStart;
+    return snap(start + size, axis) - size;
+}
+
+// Applies a drag of the given handle; drawing is a drag of the bottom-right corner of an empty box
+function resizeSelection(handle, delta) {
+    const o = dragOrigin;
+    // The fixed edge of each axis (anchor) and the dragged one
+    let anchorX = o.x;
+    let draggedX = o.x + o.width;
+    let anchorY = o.y;
+    let draggedY = o.y + o.height;
+    if (handle.includes('w')) {
+        anchorX = o.x + o.width;
+        draggedX = snap(o.x + delta.x, 'x');
+    } else if (handle.includes('e')) {
+        draggedX = snap(o.x + o.width + delta.x, 'x');
+    }
+    if (handle.includes('n')) {
+        anchorY = o.y + o.height;
+        draggedY = snap(o.y + delta.y, 'y');
+    } else if (handle.includes('s')) {
+        draggedY = snap(o.y + o.height + delta.y, 'y');
+    }
+
+    let width = Math.abs(draggedX - anchorX);
+    let height = Math.abs(draggedY - anchorY);
+    const ratio = getRatio();
+    if (ratio) {
+        // The top and bottom handles drive the height, all others the width
+        if (handle === 'n' || handle === 's') width = height * ratio;
+        else height = width / ratio;
+    }
+
+    selection = {
+        x: draggedX >= anchorX ? anchorX : anchorX - width,
+        y: draggedY >= anchorY ? anchorY : anchorY - height,
+        width,
+        height,
+    };
+}
+
+function moveSelection(delta) {
+    const o = dragOrigin;
+    selection.x = snapEdges(o.x + delta.x, o.width, 'x');
+    selection.y = snapEdges(o.y + delta.y, o.height, 'y');
+}
+
+// Keeps the selection on screen: a moved box is pushed back, any other is trimmed
+function clampSelection(keepSize) {
+    if (keepSize) {
+        selection.x = Math.min(Math.max(0, selection.x), window.innerWidth - selection.width);
+        selection.y = Math.min(Math.max(0, selection.y), window.innerHeight - selection.height);
+        return;
+    }
+
+    const right = Math.min(selection.x + selection.width, window.innerWidth);
+    const bottom = Math.min(selection.y + selection.height, window.innerHeight);
+    selection.x = Math.max(0, selection.x);
+    selection.y = Math.max(0, selection.y);
+    selection.width = Math.max(0, right - selection.x);
+    selection.height = Math.max(0, bottom - selection.y);
+
+    const ratio = getRatio();
+    if (ratio && selection.width > 0 && selection.height > 0) {
+        // Trimming one side breaks the ratio, so the other one is trimmed to match
+        if (selection.width / selection.height > ratio) selection.width = selection.height * ratio;
+        else selection.height = selection.width / ratio;
+    }
+}
+
+function setAspectRatio(value) {
+    aspectRatio = value && ASPECT_RATIOS[value] ? value : null;
+    aspectSelect.value = aspectRatio || '';
+    const ratio = getRatio();
+    if (ratio && selection.width > 0) {
+        selection.height = selection.width / ratio;
+        clampSelection(false);
+    }
+}
+
+function applyRegion(region) {
+    selection = { x: region.x, y: region.y, width: region.width, height: region.height };
+    // A region saved with a ratio already has it; re-applying would only round it
+    aspectRatio = region.aspectRatio && ASPECT_RATIOS[region.aspectRatio] ? region.aspectRatio : null;
+    aspectSelect.value = aspectRatio || '';
+    clampSelection(false);
+    render();
+}
+
+function getRegion() {
+    return {
+        x: Math.round(selection.x),
+        y: Math.round(selection.y),
+        width: Math.round(selection.width),
+        height: Math.round(selection.height),
+        aspectRatio,
+    };
+}
+
+// --- Actions ---
+
+function confirmSelection() {
+    if (selection.width > MIN_SIZE && selection.height > MIN_SIZE) {
+        // We don't need to adjust size here, main process will do it.
+        ipcRenderer.send('selection:complete', getRegion());
+    }
+}
+
+function cancelSelection() {
+    ipcRenderer.send('selection:cancel');
+}
+
+function applyInputs(changedKey) {
+    const values = {};
+    for (const [key, input] of Object.entries(inputs)) {
+        values[key] = Number(input.value) || 0;
+    }
+    const ratio = getRatio();
+    if (ratio && changedKey === 'width') values.height = values.width / ratio;
+    if (ratio && changedKey === 'height') values.width = values.height * ratio;
+    selection = values;
+    clampSelection(false);
+    regionSelect.value = '';
+    deleteRegionButton.disabled = true;
+    render();
+}
+
+async function saveCurrentRegion() {
+    const name = regionNameInput.value.trim();
+    if (!name) {
+        regionNameInput.focus();
+        return;
+    }
+    if (selection.width <= MIN_SIZE || selection.height <= MIN_SIZE) return;
+    try {
+        savedRegions = await ipcRenderer.invoke('selection:save-region', { ...getRegion(), name });
+        updateRegionSelect(name);
+    } catch (error) {
+        console.error('Failed to save region:', error);
+    }
+}
+
+async function deleteSelectedRegion() {
+    const name = regionSelect.value;
+    if (!name) return;
+    try {
+        savedRegions = await ipcRenderer.invoke('selection:delete-region', name);
+        regionNameInput.value = '';
+        updateRegionSelect();
+    } catch (error) {
+        console.error('Failed to delete region:', error);
+    }
+}
+
 // --- Event Handlers ---
 
 function onMouseDown(e) {
+    // The toolbar handles its own clicks
+    if (toolbar.contains(e.target)) return;
+
     e.preventDefault();
     e.stopPropagation();
+    document.activeElement?.blur();
 
     startPos = { x: e.clientX, y: e.clientY };
     const target = e.target;
@@ -60,14 +295,19 @@ function onMouseDown(e) {
     if (target.classList.contains('resize-handle')) {
         action = 'resizing';
         resizeHandle = target.className.replace('resize-handle ', '');
+        dragOrigin = { ...selection };
     } else if (target === selectionBox) {
         action = 'moving';
+        dragOrigin = { ...selection };
     } else {
         // This will now catch clicks on the event-capture-layer
         action = 'drawing';
-        selection = { x: startPos.x, y: startPos.y, width: 0, height: 0 };
-        tooltip.style.display = 'none'; // Hide tooltip once user starts drawing
+        const origin = { x: snap(startPos.x, 'x'), y: snap(startPos.y, 'y') };
+        dragOrigin = { ...origin, width: 0, height: 0 };
+        selection = { ...dragOrigin };
     }
+    regionSelect.value = '';
+    deleteRegionButton.disabled = true;
 
     window.addEventListener('mousemove', onMouseMove);
     window.addEventListener('mouseup', onMouseUp);
@@ -76,86 +316,40 @@ function onMouseDown(e) {
 function onMouseMove(e) {
     if (!action) return;
 
-    const currentPos = { x: e.clientX, y: e.clientY };
-    const delta = { x: currentPos.x - startPos.x, y: currentPos.y - startPos.y };
+    const delta = { x: e.clientX - startPos.x, y: e.clientY - startPos.y };
 
     if (action === 'drawing') {
-        selection.width = Math.abs(delta.x);
-        selection.height = Math.abs(delta.y);
-        selection.x = delta.x > 0 ? startPos.x : currentPos.x;
-        selection.y = delta.y > 0 ? startPos.y : currentPos.y;
-    } 
-    else if (action === 'moving') {
-        selection.x += delta.x;
-        selection.y += delta.y;
-        startPos = currentPos; // Update startPos for smooth dragging
-    } 
-    else if (action === 'resizing') {
-        const initialSelection = { ...selection };
-
-        if (resizeHandle.includes('e')) {
-            selection.width += delta.x;
-        }
-        if (resizeHandle.includes('w')) {
-            selection.x += delta.x;
-            selection.width -= delta.x;
-        }
-        if (resizeHandle.includes('s')) {
-            selection.height += delta.y;
-        }
-        if (resizeHandle.includes('n')) {
-            selection.y += delta.y;
-            selection.height -= delta.y;
-        }
-
-        // Handle negative width/height (flipping the box)
-        if (selection.width < 0) {
-            selection.x = initialSelection.x + selection.width;
-            selection.width = Math.abs(selection.width);
-            resizeHandle = resizeHandle.replace('w', 'E').replace('e', 'W').toLowerCase();
-        }
-        if (selection.height < 0) {
-            selection.y = initialSelection.y + selection.height;
-            selection.height = Math.abs(selection.height);
-            resizeHandle = resizeHandle.replace('n', 'S').replace('s', 'N').toLowerCase();
-        }
-        
-        startPos = currentPos;
-    }
-    
-    // Boundary checks to keep selection on screen
-    selection.x = Math.max(0, selection.x);
-    selection.y = Math.max(0, selection.y);
-    if (selection.x + selection.width > window.innerWidth) {
-        selection.width = window.innerWidth - selection.x;
-    }
-    if (selection.y + selection.height > window.innerHeight) {
-        selection.height = window.innerHeight - selection.y;
+        resizeSelection('se', delta);
+    } else if (action === 'moving') {
+        moveSelection(delta);
+    } else if (action === 'resizing') {
+        resizeSelection(resizeHandle, delta);
     }
 
-
-    updateSelectionBox();
-    updateSizeBadge();
+    clampSelection(action === 'moving');
+    render();
 }
 
 function onMouseUp() {
     action = null;
     resizeHandle = null;
+    dragOrigin = null;
     window.removeEventListener('mousemove', onMouseMove);
     window.removeEventListener('mouseup', onMouseUp);
 }
 
 function onKeyDown(e) {
-    if (e.key === 'Enter' && selection.width > 10 && selection.height > 10) {
-        // We don't need to adjust size here, main process will do it.
-        ipcRenderer.send('selection:complete', {
-            x: Math.round(selection.x),
-            y: Math.round(selection.y),
-            width: Math.round(selection.width),
-            height: Math.round(selection.height),
-        });
-    } else if (e.key === 'Escape') {
-        ipcRenderer.send('selection:cancel');
+    if (e.key === 'Escape') {
+        cancelSelection();
+    } else if (e.key === 'Enter') {
+        if (e.target === regionNameInput) {
+            saveCurrentRegion();
+            return;
+        }
+        // A number typed right before Enter has not been applied yet
+        const changedKey = Object.keys(inputs).find((key) => inputs[key] === e.target);
+        if (changedKey) applyInputs(changedKey);
+        confirmSelection();
     }
 }
 
@@ -163,3 +357,44 @@ function onKeyDown(e) {
 // Attach the listener to the document to handle all clicks via event delegation
 document.addEventListener('mousedown', onMouseDown);
 window.addEventListener('keydown', onKeyDown);
+
+for (const [key, input] of Object.entries(inputs)) {
+    input.addEventListener('change', () => applyInputs(key));
+}
+aspectSelect.addEventListener('change', () => {
+    setAspectRatio(aspectSelect.value);
+    render();
+});
+regionSelect.addEventListener('change', () => {
+    const region = savedRegions.find((r) => r.name === regionSelect.value);
+    deleteRegionButton.disabled = !region;
+    if (!region) return;
+    regionNameInput.value = region.name;
+    applyRegion(region);
+});
+saveRegionButton.addEventListener('click', saveCurrentRegion);
+deleteRegionButton.addEventListener('click', deleteSelectedRegion);
+recordButton.addEventListener('click', confirmSelection);
+cancelButton.addEventListener('click', cancelSelection);
+
+ipcRenderer
+    .invoke('selection:get-init')
+    .then((init) => {
+        windowRects = init.windowRects;
+        snapLabel.style.display = windowRects.length > 0 ? 'flex' : 'none';
+        savedRegions = init.savedRegions;
+        updateRegionSelect();
+
+        // The last region is only restored if it still fits, the display layout may have changed
+        const last = init.lastRegion;
+        if (
+            last &&
+            last.x >= 0 &&
+            last.y >= 0 &&
+            last.x + last.width <= window.innerWidth &&
+            last.y + last.height <= window.innerHeight
+        ) {
+            applyRegion(last);
+        }
+    })
+    .catch((error) => console.error('Failed to load selection settings:', error));
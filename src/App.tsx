@@ -3,6 +3,7 @@ import { useShallow } from 'zustand/react/shallow'
 import { EditorPage } from './pages/EditorPage'
 import { RecorderPage } from './pages/RecorderPage'
 import { RendererPage } from './pages/RendererPage'
+import { LibraryPage } from './pages/LibraryPage'
 import { useEditorStore } from './store/editorStore'
 
 function App() {
@@ -48,6 +49,10 @@ function App() {
     return <EditorPage />
   }
 
+  if (route.startsWith('#library')) {
+    return <LibraryPage />
+  }
+
   return <RecorderPage />
 }
 
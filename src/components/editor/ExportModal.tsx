@@ -7,12 +7,15 @@ import { Input } from '../ui/input'
 import { cn } from '../../lib/utils'
 import { useEditorStore } from '../../store/editorStore'
 import { formatTime } from '../../lib/utils'
+import type { ExportPipeline, ExportWorkerLimit } from '../../types'
 
 export type ExportSettings = {
   format: 'mp4' | 'gif'
   resolution: '720p' | '1080p' | '2k'
   fps: 30 | 60
   quality: 'low' | 'medium' | 'high'
+  // Render workers to split the export across, one per CPU core if not set, fewer if memory is short
+  workers?: number
 }
 
 interface ExportModalProps {
@@ -22,9 +25,18 @@ interface ExportModalProps {
   onCancelExport: () => void
   isExporting: boolean
   progress: number
-  result: { success: boolean; outputPath?: string; error?: string } | null
+  result: {
+    success: boolean
+    outputPath?: string
+    error?: string
+    pipeline?: ExportPipeline
+    workerLimit?: ExportWorkerLimit
+  } | null
 }
 
+// Choices besides one worker per core, the default
+const WORKER_COUNTS = [1, 2, 4, 8, 16]
+
 const generateFilename = (format: 'mp4' | 'gif') => {
   const now = new Date()
   const timestamp = now.toISOString().replace(/[:.]/g, '-').replace('T', '-').slice(0, 19)
@@ -51,6 +63,7 @@ const SettingsView = ({
     quality: 'medium',
   })
   const [outputPath, setOutputPath] = useState('')
+  const coreCount = navigator.hardwareConcurrency || 1
   const { duration, cutRegions, speedRegions } = useEditorStore((state) => ({
     duration: state.duration,
     cutRegions: state.cutRegions,
@@ -184,6 +197,27 @@ const SettingsView = ({
               </SelectContent>
             </Select>
           </SettingRow>
+          {/* GIFs are always rendered by a single worker */}
+          {settings.format === 'mp4' && (
+            <SettingRow label="Render Workers">
+              <Select
+                value={settings.workers ? String(settings.workers) : 'auto'}
+                onValueChange={(value) => handleValueChange('workers', value === 'auto' ? undefined : Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto ({coreCount} cores)</SelectItem>
+                  {WORKER_COUNTS.filter((count) => count < coreCount).map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1 ? '1 worker' : `${count} workers`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </SettingRow>
+          )}
           <SettingRow label="Output File">
             <div className="w-full flex items-center gap-2">
               <div className="flex-1 min-w-0">
@@ -262,7 +296,20 @@ const ResultView = ({ result, onClose }: { result: NonNullable<ExportModalProps[
 
   const getMessage = () => {
     if (isCancelled) return 'The export process was stopped.'
-    if (result.success) return 'Your video has been saved to the selected location.'
+    if (result.success) {
+      const { pipeline, workerLimit } = result
+      const notes = ['Your video has been saved to the selected location.']
+      // Worth knowing, since the software path is much slower than the GPU one
+      if (pipeline && (pipeline.decoder === 'ffmpeg' || pipeline.encoder === 'ffmpeg')) {
+        notes.push('It was rendered in software, as hardware video acceleration is not available.')
+      }
+      if (workerLimit) {
+        notes.push(
+          `Only ${workerLimit.used} of ${workerLimit.requested} render workers were used, as there was not enough free memory for more.`,
+        )
+      }
+      return notes.join(' ')
+    }
     return result.error || 'An unknown error occurred.'
   }
 
@@ -10,11 +10,12 @@ import {
   PlayerSkipForward,
 } from 'tabler-icons-react'
 import { useShallow } from 'zustand/react/shallow'
-import { formatTime } from '../../lib/utils'
+import { formatTime, getTrackTime } from '../../lib/utils'
 import { Slider } from '../ui/slider'
 import { Button } from '../ui/button'
 import { drawScene } from '../../lib/renderer'
 import { cn } from '../../lib/utils'
+import type { SyncTrack } from '../../types'
 
 export const Preview = memo(
   ({
@@ -27,6 +28,7 @@ export const Preview = memo(
     const {
       videoUrl,
       audioUrl,
+      systemAudioUrl,
       cutRegions,
       speedRegions,
       webcamVideoUrl,
@@ -43,13 +45,17 @@ export const Preview = memo(
       canvasDimensions,
       volume,
       isMuted,
+      trackVolumes,
+      trackOffsets,
       setCurrentTime,
       cursorStyles,
+      keystrokeStyles,
       cursorBitmapsToRender,
     } = useEditorStore(
       useShallow((state) => ({
         videoUrl: state.videoUrl,
         audioUrl: state.audioUrl,
+        systemAudioUrl: state.systemAudioUrl,
         cutRegions: state.cutRegions,
         speedRegions: state.speedRegions,
         webcamVideoUrl: state.webcamVideoUrl,
@@ -66,8 +72,11 @@ export const Preview = memo(
         canvasDimensions: state.canvasDimensions,
         volume: state.volume,
         isMuted: state.isMuted,
+        trackVolumes: state.trackVolumes,
+        trackOffsets: state.trackOffsets,
         setCurrentTime: state.setCurrentTime,
         cursorStyles: state.cursorStyles,
+        keystrokeStyles: state.keystrokeStyles,
         cursorBitmapsToRender: state.cursorBitmapsToRender,
       })),
     )
@@ -79,6 +88,7 @@ export const Preview = memo(
     const canvasRef = useRef<HTMLCanvasElement>(null)
     const webcamVideoRef = useRef<HTMLVideoElement>(null)
     const audioRef = useRef<HTMLAudioElement>(null)
+    const systemAudioRef = useRef<HTMLAudioElement>(null)
     const animationFrameId = useRef<number>()
     const [controlBarWidth, setControlBarWidth] = useState(0)
 
@@ -208,36 +218,62 @@ export const Preview = memo(
       webcamStyles,
       videoDimensions,
       cursorStyles,
+      keystrokeStyles,
       cursorBitmapsToRender,
     ])
 
+    // The separately recorded audio tracks (mic and system audio) that follow the main video
+    const getAudioTracks = useCallback(
+      () => [audioRef.current, systemAudioRef.current].filter((audio): audio is HTMLAudioElement => !!audio),
+      [],
+    )
+
+    // Where a separately recorded track has to be for a time of the main video
+    const getTrackTimeFor = useCallback((element: HTMLMediaElement, time: number) => {
+      const { syncSegments, trackOffsets } = useEditorStore.getState()
+      let track: SyncTrack = 'mic'
+      if (element === webcamVideoRef.current) track = 'webcam'
+      else if (element === systemAudioRef.current) track = 'system'
+      return Math.max(0, getTrackTime(time, track, syncSegments, trackOffsets[track]))
+    }, [])
+
+    // Moving a track in the audio settings takes effect right away
     useEffect(() => {
       const video = videoRef.current
       if (!video) return
       const webcamVideo = webcamVideoRef.current
-      const audio = audioRef.current
+      if (webcamVideo) webcamVideo.currentTime = getTrackTimeFor(webcamVideo, video.currentTime)
+      getAudioTracks().forEach((audio) => (audio.currentTime = getTrackTimeFor(audio, video.currentTime)))
+    }, [trackOffsets, videoRef, getAudioTracks, getTrackTimeFor])
+
+    useEffect(() => {
+      const video = videoRef.current
+      if (!video) return
+      const webcamVideo = webcamVideoRef.current
+      const audioTracks = getAudioTracks()
       if (isPlaying) {
         video.play().catch(console.error)
         webcamVideo?.play().catch(console.error)
-        audio?.play().catch(console.error)
+        audioTracks.forEach((audio) => audio.play().catch(console.error))
       } else {
         video.pause()
         webcamVideo?.pause()
-        audio?.pause()
+        audioTracks.forEach((audio) => audio.pause())
         // When pausing, reset playbackRate to 1 so scrubbing is at normal speed
         video.playbackRate = 1
         if (webcamVideo) webcamVideo.playbackRate = 1
-        if (audio) audio.playbackRate = 1
+        audioTracks.forEach((audio) => (audio.playbackRate = 1))
       }
-    }, [isPlaying, videoRef])
+    }, [isPlaying, videoRef, getAudioTracks])
 
     // Effect to handle volume and mute state
     useEffect(() => {
       const video = videoRef.current
       const audio = audioRef.current
+      const systemAudio = systemAudioRef.current
       if (video) {
         // Video is always muted when we have a separate audio track
-        if (audioUrl) {
+        if (audioUrl || systemAudioUrl) {
           video.muted = true
         } else {
           // No separate audio, use video's own audio
@@ -246,10 +282,14 @@ export const Preview = memo(
         }
       }
       if (audio) {
-        audio.volume = volume
+        audio.volume = volume * trackVolumes.mic
         audio.muted = isMuted
       }
-    }, [volume, isMuted, videoRef, audioUrl])
+      if (systemAudio) {
+        systemAudio.volume = volume * trackVolumes.system
+        systemAudio.muted = isMuted
+      }
+    }, [volume, isMuted, trackVolumes, videoRef, audioUrl, systemAudioUrl])
 
     useEffect(() => {
       const video = videoRef.current
@@ -264,17 +304,15 @@ export const Preview = memo(
           video.currentTime = newTime
           setCurrentTime(newTime)
           // Sync audio with the jump
-          if (audioRef.current) {
-            audioRef.current.currentTime = newTime
-          }
+          getAudioTracks().forEach((audio) => (audio.currentTime = getTrackTimeFor(audio, newTime)))
         }
       }
-    }, [isCurrentlyCut, isPlaying, videoRef, setCurrentTime])
+    }, [isCurrentlyCut, isPlaying, videoRef, setCurrentTime, getAudioTracks, getTrackTimeFor])
 
     const handleTimeUpdate = () => {
       if (!videoRef.current) return
       const video = videoRef.current
-      const audio = audioRef.current
+      const audioTracks = getAudioTracks()
       const newTime = video.currentTime
 
       // Handle speed regions
@@ -288,22 +326,23 @@ export const Preview = memo(
         video.currentTime = endTrimRegion.startTime
         video.pause()
         // Also pause audio
-        if (audio) {
-          audio.currentTime = endTrimRegion.startTime
+        audioTracks.forEach((audio) => {
+          audio.currentTime = getTrackTimeFor(audio, endTrimRegion.startTime)
           audio.pause()
-        }
+        })
       }
       if (webcamVideoRef.current) {
-        webcamVideoRef.current.currentTime = newTime
+        webcamVideoRef.current.currentTime = getTrackTimeFor(webcamVideoRef.current, newTime)
         webcamVideoRef.current.playbackRate = video.playbackRate // Sync webcam speed
       }
-      if (audio) {
+      audioTracks.forEach((audio) => {
         // Sync audio with video
-        if (Math.abs(audio.currentTime - newTime) > 0.1) {
-          audio.currentTime = newTime
+        const trackTime = getTrackTimeFor(audio, newTime)
+        if (Math.abs(audio.currentTime - trackTime) > 0.1) {
+          audio.currentTime = trackTime
         }
         audio.playbackRate = video.playbackRate // Sync audio speed
-      }
+      })
       setCurrentTime(newTime)
     }
 
@@ -315,7 +354,7 @@ export const Preview = memo(
 
         // Only check video for audio tracks if we don't have a separate audio file
         const store = useEditorStore.getState()
-        if (!store.audioUrl) {
+        if (!store.audioUrl && !store.systemAudioUrl) {
           // Check for audio tracks using type-safe checks
           const hasAudioTracks = video.audioTracks && video.audioTracks.length > 0
           const hasMozAudio = 'mozHasAudio' in video && video.mozHasAudio === true
@@ -341,36 +380,38 @@ export const Preview = memo(
       const mainVideo = videoRef.current
       const webcamVideo = webcamVideoRef.current
       if (mainVideo && webcamVideo) {
-        webcamVideo.currentTime = mainVideo.currentTime
+        webcamVideo.currentTime = getTrackTimeFor(webcamVideo, mainVideo.currentTime)
         if (mainVideo.paused) {
           webcamVideo.pause()
         } else {
           webcamVideo.play().catch(console.error)
         }
       }
-    }, [videoRef])
-
-    const handleAudioLoadedMetadata = useCallback(() => {
-      const video = videoRef.current
-      const audio = audioRef.current
-      if (video && audio) {
-        audio.currentTime = video.currentTime
-        if (video.paused) {
-          audio.pause()
-        } else {
-          audio.play().catch(console.error)
+    }, [videoRef, getTrackTimeFor])
+
+    // Shared by both audio tracks, so the element is taken from the event
+    const handleAudioLoadedMetadata = useCallback(
+      (event: React.SyntheticEvent<HTMLAudioElement>) => {
+        const video = videoRef.current
+        const audio = event.currentTarget
+        if (video) {
+          audio.currentTime = getTrackTimeFor(audio, video.currentTime)
+          if (video.paused) {
+            audio.pause()
+          } else {
+            audio.play().catch(console.error)
+          }
         }
-      }
-    }, [videoRef])
+      },
+      [videoRef, getTrackTimeFor],
+    )
 
     const handleScrub = (value: number) => {
       if (videoRef.current) {
         videoRef.current.currentTime = value
         setCurrentTime(value)
       }
-      if (audioRef.current) {
-        audioRef.current.currentTime = value
-      }
+      getAudioTracks().forEach((audio) => (audio.currentTime = getTrackTimeFor(audio, value)))
     }
 
     const handleRewind = () => {
@@ -380,9 +421,7 @@ export const Preview = memo(
       if (videoRef.current) {
         videoRef.current.currentTime = rewindTime
       }
-      if (audioRef.current) {
-        audioRef.current.currentTime = rewindTime
-      }
+      getAudioTracks().forEach((audio) => (audio.currentTime = getTrackTimeFor(audio, rewindTime)))
     }
 
     return (
@@ -436,6 +475,14 @@ export const Preview = memo(
             style={{ display: 'none' }}
           />
         )}
+        {systemAudioUrl && (
+          <audio
+            ref={systemAudioRef}
+            src={systemAudioUrl}
+            onLoadedMetadata={handleAudioLoadedMetadata}
+            style={{ display: 'none' }}
+          />
+        )}
         {webcamVideoUrl && (
           <video
             ref={webcamVideoRef}
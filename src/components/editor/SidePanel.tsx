@@ -1,10 +1,11 @@
 import { useEditorStore } from '../../store/editorStore'
 import { RegionSettingsPanel } from './RegionSettingsPanel'
-import { Microphone, DeviceComputerCamera, LayoutBoard, Route, Pointer } from 'tabler-icons-react'
+import { Microphone, DeviceComputerCamera, LayoutBoard, Route, Pointer, Keyboard } from 'tabler-icons-react'
 import { BackgroundSettings } from './sidepanel/BackgroundSettings'
 import { FrameEffectsSettings } from './sidepanel/FrameEffectsSettings'
 import { CameraSettings } from './sidepanel/CameraSettings'
 import { CursorSettings } from './sidepanel/CursorSettings'
+import { KeystrokeSettings } from './sidepanel/KeystrokeSettings'
 import { AnimationSettingsPanel } from './sidepanel/AnimationSettingsPanel'
 import { useShallow } from 'zustand/react/shallow'
 import { useEffect, useMemo } from 'react'
@@ -148,6 +149,9 @@ export function SidePanel() {
         <div className="h-full" hidden={activeSidePanelTab !== 'cursor'}>
           <CursorSettings />
         </div>
+        <div className="h-full" hidden={activeSidePanelTab !== 'keystrokes'}>
+          <KeystrokeSettings />
+        </div>
       </div>
 
       {/* Vertical Tab Navigator (Always visible) */}
@@ -185,6 +189,12 @@ export function SidePanel() {
             isActive={activeSidePanelTab === 'cursor'}
             onClick={() => setActiveSidePanelTab('cursor')}
           />
+          <TabButton
+            label="Keystrokes"
+            icon={<Keyboard className="w-5 h-5" />}
+            isActive={activeSidePanelTab === 'keystrokes'}
+            onClick={() => setActiveSidePanelTab('keystrokes')}
+          />
         </div>
       </div>
     </div>
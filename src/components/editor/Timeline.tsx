@@ -46,16 +46,18 @@ const Ruler = memo(
 Ruler.displayName = 'Ruler'
 
 export function Timeline({ videoRef }: { videoRef: React.RefObject<HTMLVideoElement> }) {
-  const { currentTime, duration, timelineZoom, previewCutRegion, selectedRegionId, isPlaying } = useEditorStore(
-    useShallow((state) => ({
-      currentTime: state.currentTime,
-      duration: state.duration,
-      timelineZoom: state.timelineZoom,
-      previewCutRegion: state.previewCutRegion,
-      selectedRegionId: state.selectedRegionId,
-      isPlaying: state.isPlaying,
-    })),
-  )
+  const { currentTime, duration, timelineZoom, previewCutRegion, selectedRegionId, isPlaying, markers } =
+    useEditorStore(
+      useShallow((state) => ({
+        currentTime: state.currentTime,
+        duration: state.duration,
+        timelineZoom: state.timelineZoom,
+        previewCutRegion: state.previewCutRegion,
+        selectedRegionId: state.selectedRegionId,
+        isPlaying: state.isPlaying,
+        markers: state.markers,
+      })),
+    )
   const { setCurrentTime, setSelectedRegionId } = useEditorStore()
 
   const containerRef = useRef<HTMLDivElement>(null)
@@ -197,6 +199,23 @@ export function Timeline({ videoRef }: { videoRef: React.RefObject<HTMLVideoElem
           >
             <Ruler ticks={rulerTicks} timeToPx={timeToPx} formatTime={formatTime} />
 
+            {/* Markers dropped while recording; clicking one jumps to it */}
+            {markers.map((marker, index) => (
+              <div
+                key={`${index}-${marker.timestamp}`}
+                className="absolute top-0 h-12 z-[15] flex flex-col items-center -translate-x-1/2 cursor-pointer"
+                style={{ left: `${timeToPx(marker.timestamp)}px` }}
+                title={`${marker.label} (${formatTime(marker.timestamp)})`}
+                onMouseDown={(e) => {
+                  e.stopPropagation()
+                  updateVideoTime(marker.timestamp)
+                }}
+              >
+                <div className="w-2.5 h-2.5 mt-0.5 rotate-45 rounded-[2px] bg-amber-400 shadow-sm" />
+                <div className="w-px flex-1 bg-amber-400/70" />
+              </div>
+            ))}
+
             <div className="absolute top-12 left-0 w-full" style={{ height: 'calc(100% - 3rem)' }}>
               {allRegionsToRender.map((region) => {
                 const isSelected = selectedRegionId === region.id
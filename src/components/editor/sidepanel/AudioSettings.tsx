@@ -7,12 +7,17 @@ import {
   Volume as MaxVolume,
   Volume3 as MuteVolume,
   MicrophoneOff,
+  DeviceSpeaker,
+  Adjustments,
+  ArrowsHorizontal,
+  Video,
 } from 'tabler-icons-react'
 import { Collapse } from '../../ui/collapse'
 import { Slider } from '../../ui/slider'
 import { Button } from '../../ui/button'
 import { cn } from '../../../lib/utils'
 import { DEFAULTS } from '../../../lib/constants'
+import { SyncWaveform } from './SyncWaveform'
 
 const DisabledPanelPlaceholder = ({
   icon,
@@ -32,8 +37,85 @@ const DisabledPanelPlaceholder = ({
   </div>
 )
 
+const TrackVolumeSlider = ({
+  icon,
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  icon: React.ReactNode
+  label: string
+  value: number
+  disabled: boolean
+  onChange: (value: number) => void
+}) => (
+  <div className="space-y-2">
+    <div className="flex items-center gap-2 text-sm font-medium text-sidebar-foreground">
+      {icon}
+      <span className="flex-1">{label}</span>
+      <span className="text-xs font-semibold text-primary tabular-nums">{Math.round(value * 100)}%</span>
+    </div>
+    <Slider
+      min={DEFAULTS.AUDIO.TRACK_VOLUME.min}
+      max={DEFAULTS.AUDIO.TRACK_VOLUME.max}
+      step={DEFAULTS.AUDIO.TRACK_VOLUME.step}
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+    />
+  </div>
+)
+
+const TrackOffsetSlider = ({
+  icon,
+  label,
+  value,
+  onChange,
+}: {
+  icon: React.ReactNode
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) => {
+  const milliseconds = Math.round(value * 1000)
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-sidebar-foreground">
+        {icon}
+        <span className="flex-1">{label}</span>
+        <span className="text-xs font-semibold text-primary tabular-nums">
+          {milliseconds > 0 ? '+' : ''}
+          {milliseconds} ms
+        </span>
+      </div>
+      <Slider
+        min={DEFAULTS.AUDIO.TRACK_OFFSET.min}
+        max={DEFAULTS.AUDIO.TRACK_OFFSET.max}
+        step={DEFAULTS.AUDIO.TRACK_OFFSET.step}
+        value={value}
+        onChange={onChange}
+      />
+    </div>
+  )
+}
+
 export function AudioSettings() {
-  const { volume, isMuted, setVolume, toggleMute, hasAudioTrack, setIsMuted } = useEditorStore(
+  const {
+    volume,
+    isMuted,
+    setVolume,
+    toggleMute,
+    hasAudioTrack,
+    setIsMuted,
+    trackVolumes,
+    setTrackVolume,
+    hasMicTrack,
+    hasSystemAudioTrack,
+    hasWebcam,
+    trackOffsets,
+    setTrackOffset,
+  } = useEditorStore(
     useShallow((state) => ({
       volume: state.volume,
       isMuted: state.isMuted,
@@ -41,6 +123,13 @@ export function AudioSettings() {
       toggleMute: state.toggleMute,
       hasAudioTrack: state.hasAudioTrack,
       setIsMuted: state.setIsMuted,
+      trackVolumes: state.trackVolumes,
+      setTrackVolume: state.setTrackVolume,
+      hasMicTrack: !!state.audioUrl,
+      hasSystemAudioTrack: !!state.systemAudioUrl,
+      hasWebcam: !!state.webcamVideoUrl,
+      trackOffsets: state.trackOffsets,
+      setTrackOffset: state.setTrackOffset,
     })),
   )
 
@@ -51,6 +140,17 @@ export function AudioSettings() {
     setIsMuted(DEFAULTS.AUDIO.MUTED.defaultValue)
   }
 
+  const handleResetTracks = () => {
+    setTrackVolume('mic', DEFAULTS.AUDIO.TRACK_VOLUME.defaultValue)
+    setTrackVolume('system', DEFAULTS.AUDIO.TRACK_VOLUME.defaultValue)
+  }
+
+  const handleResetOffsets = () => {
+    setTrackOffset('webcam', DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue)
+    setTrackOffset('mic', DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue)
+    setTrackOffset('system', DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue)
+  }
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -121,6 +221,70 @@ export function AudioSettings() {
                 </Button>
               </div>
             </Collapse>
+
+            {/* Only worth showing when there are two tracks to balance */}
+            {hasMicTrack && hasSystemAudioTrack && (
+              <Collapse
+                title="Tracks"
+                description="Balance the microphone against system audio"
+                icon={<Adjustments className="w-4 h-4 text-primary" />}
+                defaultOpen={true}
+                onReset={handleResetTracks}
+              >
+                <div className="space-y-5 pt-2">
+                  <TrackVolumeSlider
+                    icon={<Microphone className="w-4 h-4 text-muted-foreground" />}
+                    label="Microphone"
+                    value={trackVolumes.mic}
+                    disabled={isMuted}
+                    onChange={(value) => setTrackVolume('mic', value)}
+                  />
+                  <TrackVolumeSlider
+                    icon={<DeviceSpeaker className="w-4 h-4 text-muted-foreground" />}
+                    label="System Audio"
+                    value={trackVolumes.system}
+                    disabled={isMuted}
+                    onChange={(value) => setTrackVolume('system', value)}
+                  />
+                </div>
+              </Collapse>
+            )}
+
+            <Collapse
+              title="Sync"
+              description="Fine-tune how the tracks line up with the video"
+              icon={<ArrowsHorizontal className="w-4 h-4 text-primary" />}
+              defaultOpen={false}
+              onReset={handleResetOffsets}
+            >
+              <div className="space-y-5 pt-2">
+                {(hasMicTrack || hasSystemAudioTrack) && <SyncWaveform />}
+                {hasMicTrack && (
+                  <TrackOffsetSlider
+                    icon={<Microphone className="w-4 h-4 text-muted-foreground" />}
+                    label="Microphone"
+                    value={trackOffsets.mic}
+                    onChange={(value) => setTrackOffset('mic', value)}
+                  />
+                )}
+                {hasSystemAudioTrack && (
+                  <TrackOffsetSlider
+                    icon={<DeviceSpeaker className="w-4 h-4 text-muted-foreground" />}
+                    label="System Audio"
+                    value={trackOffsets.system}
+                    onChange={(value) => setTrackOffset('system', value)}
+                  />
+                )}
+                {hasWebcam && (
+                  <TrackOffsetSlider
+                    icon={<Video className="w-4 h-4 text-muted-foreground" />}
+                    label="Webcam"
+                    value={trackOffsets.webcam}
+                    onChange={(value) => setTrackOffset('webcam', value)}
+                  />
+                )}
+              </div>
+            </Collapse>
           </div>
         )}
       </div>
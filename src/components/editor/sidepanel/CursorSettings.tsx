@@ -1,4 +1,4 @@
-import { Pointer, Shadow, HandClick } from 'tabler-icons-react'
+import { Pointer, Shadow, HandClick, Mouse } from 'tabler-icons-react'
 import { SparklesIcon } from '../../ui/icons'
 import { Collapse } from '../../ui/collapse'
 import { cn } from '../../../lib/utils'
@@ -141,6 +141,8 @@ export function CursorSettings() {
       clickScaleAmount: DEFAULTS.CURSOR.CLICK_SCALE.AMOUNT.defaultValue,
       clickScaleDuration: DEFAULTS.CURSOR.CLICK_SCALE.DURATION.defaultValue,
       clickScaleEasing: DEFAULTS.CURSOR.CLICK_SCALE.EASING.defaultValue,
+      scrollIndicator: DEFAULTS.CURSOR.SCROLL_INDICATOR.ENABLED.defaultValue,
+      scrollIndicatorSize: DEFAULTS.CURSOR.SCROLL_INDICATOR.SIZE.defaultValue,
     })
   }
 
@@ -239,8 +241,8 @@ export function CursorSettings() {
           </div>
         </Collapse>
         <Collapse
-          title="Click Effects"
-          description="Add visual feedback for mouse clicks"
+          title="Click & Scroll Effects"
+          description="Add visual feedback for mouse clicks and scrolling"
           icon={<HandClick className="w-4 h-4 text-primary" />}
           defaultOpen={false}
           onReset={handleResetClickEffects}
@@ -410,6 +412,46 @@ export function CursorSettings() {
                 </div>
               </div>
             </ControlGroup>
+            <ControlGroup
+              label="Scroll Indicator"
+              icon={<Mouse className="w-4 h-4 text-primary/80" />}
+              description="A wheel badge next to the cursor while scrolling."
+            >
+              <div className="space-y-4 pt-2">
+                <div className="flex items-center justify-between w-full">
+                  <label
+                    htmlFor="scroll-indicator"
+                    className={`text-sm font-medium ${!cursorStyles.scrollIndicator ? 'text-muted-foreground' : 'text-foreground/80'}`}
+                  >
+                    Visibility
+                  </label>
+                  <Switch
+                    id="scroll-indicator"
+                    checked={cursorStyles.scrollIndicator}
+                    onCheckedChange={(v) => updateCursorStyle({ scrollIndicator: v })}
+                  />
+                </div>
+                <div className={`space-y-2.5 ${!cursorStyles.scrollIndicator ? 'opacity-70' : ''}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Size</span>
+                    <span className="text-xs font-semibold text-primary tabular-nums">
+                      {cursorStyles.scrollIndicatorSize}px
+                    </span>
+                  </div>
+                  <Slider
+                    disabled={!cursorStyles.scrollIndicator}
+                    min={DEFAULTS.CURSOR.SCROLL_INDICATOR.SIZE.min}
+                    max={DEFAULTS.CURSOR.SCROLL_INDICATOR.SIZE.max}
+                    step={DEFAULTS.CURSOR.SCROLL_INDICATOR.SIZE.step}
+                    value={cursorStyles.scrollIndicatorSize}
+                    onChange={(v) => updateCursorStyle({ scrollIndicatorSize: v })}
+                  />
+                </div>
+                {platform !== 'linux' && (
+                  <p className="text-xs text-muted-foreground">Scrolling is currently recorded on Linux only.</p>
+                )}
+              </div>
+            </ControlGroup>
           </div>
         </Collapse>
         <Collapse
@@ -0,0 +1,192 @@
+import { Keyboard, LayoutGrid, Clock } from 'tabler-icons-react'
+import { Collapse } from '../../ui/collapse'
+import { cn } from '../../../lib/utils'
+import { useEditorStore } from '../../../store/editorStore'
+import { useShallow } from 'zustand/react/shallow'
+import { Slider } from '../../ui/slider'
+import { Switch } from '../../ui/switch'
+import { DEFAULTS } from '../../../lib/constants'
+import { ControlGroup } from './ControlGroup'
+import type { KeystrokeOverlayPosition } from '../../../types'
+
+const POSITIONS: { value: KeystrokeOverlayPosition; label: string }[] = [
+  { value: 'top-left', label: 'Top Left' },
+  { value: 'top-center', label: 'Top' },
+  { value: 'top-right', label: 'Top Right' },
+  { value: 'bottom-left', label: 'Bottom Left' },
+  { value: 'bottom-center', label: 'Bottom' },
+  { value: 'bottom-right', label: 'Bottom Right' },
+]
+
+const THEMES = [
+  { value: 'dark', label: 'Dark' },
+  { value: 'light', label: 'Light' },
+] as const
+
+export function KeystrokeSettings() {
+  const { keystrokes, keystrokeStyles, updateKeystrokeStyle } = useEditorStore(
+    useShallow((state) => ({
+      keystrokes: state.keystrokes,
+      keystrokeStyles: state.keystrokeStyles,
+      updateKeystrokeStyle: state.updateKeystrokeStyle,
+    })),
+  )
+  const isDisabled = !keystrokeStyles.showKeystrokes
+
+  const handleResetStyle = () => {
+    updateKeystrokeStyle({
+      position: DEFAULTS.KEYSTROKES.POSITION.defaultValue,
+      size: DEFAULTS.KEYSTROKES.SIZE.defaultValue,
+      theme: DEFAULTS.KEYSTROKES.THEME.defaultValue,
+    })
+  }
+
+  const handleResetTiming = () => {
+    updateKeystrokeStyle({
+      displayDuration: DEFAULTS.KEYSTROKES.DISPLAY_DURATION.defaultValue,
+      fadeDuration: DEFAULTS.KEYSTROKES.FADE_DURATION.defaultValue,
+    })
+  }
+
+  return (
+    <div className="h-full flex flex-col relative">
+      <div className="p-6 border-b border-sidebar-border flex-shrink-0">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Keyboard className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-sidebar-foreground">Keystroke Settings</h2>
+            <p className="text-sm text-muted-foreground">Show the keys pressed while recording</p>
+          </div>
+        </div>
+      </div>
+      <div className="flex-1 p-6 space-y-6 overflow-y-auto stable-scrollbar">
+        <ControlGroup label="Visibility">
+          <div className="flex items-center justify-between p-3 rounded-lg bg-sidebar-accent/30 border border-sidebar-border">
+            <span className="text-sm font-medium text-sidebar-foreground">Show Keystrokes</span>
+            <Switch
+              checked={keystrokeStyles.showKeystrokes}
+              onCheckedChange={(v) => updateKeystrokeStyle({ showKeystrokes: v })}
+              className="data-[state=on]:bg-primary"
+            />
+          </div>
+          {keystrokes.length === 0 && (
+            <p className="text-xs text-muted-foreground pt-2">
+              No keystrokes were captured for this recording. Enable keystroke capture in the recorder before recording
+              (Linux and macOS).
+            </p>
+          )}
+        </ControlGroup>
+        <Collapse
+          title="Appearance"
+          description="Position, size and colors of the overlay"
+          icon={<LayoutGrid className="w-4 h-4 text-primary" />}
+          defaultOpen={true}
+          onReset={handleResetStyle}
+        >
+          <div className={cn('space-y-4', isDisabled && 'opacity-70')}>
+            <div className="space-y-2.5">
+              <span className="text-sm text-muted-foreground">Position</span>
+              <div className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-muted/50">
+                {POSITIONS.map((position) => (
+                  <button
+                    key={position.value}
+                    onClick={() => updateKeystrokeStyle({ position: position.value })}
+                    disabled={isDisabled}
+                    className={cn(
+                      'py-2 text-xs font-medium rounded-md transition-colors duration-200',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      keystrokeStyles.position === position.value
+                        ? 'bg-background shadow-sm text-foreground'
+                        : 'text-muted-foreground hover:text-foreground',
+                    )}
+                  >
+                    {position.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2.5">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Size</span>
+                <span className="text-xs font-semibold text-primary tabular-nums">{keystrokeStyles.size}px</span>
+              </div>
+              <Slider
+                disabled={isDisabled}
+                min={DEFAULTS.KEYSTROKES.SIZE.min}
+                max={DEFAULTS.KEYSTROKES.SIZE.max}
+                step={DEFAULTS.KEYSTROKES.SIZE.step}
+                value={keystrokeStyles.size}
+                onChange={(v) => updateKeystrokeStyle({ size: v })}
+              />
+            </div>
+            <div className="space-y-2.5">
+              <span className="text-sm text-muted-foreground">Style</span>
+              <div className="grid grid-cols-2 gap-1 p-1 rounded-lg bg-muted/50">
+                {THEMES.map((theme) => (
+                  <button
+                    key={theme.value}
+                    onClick={() => updateKeystrokeStyle({ theme: theme.value })}
+                    disabled={isDisabled}
+                    className={cn(
+                      'py-2 text-sm font-medium rounded-md transition-colors duration-200',
+                      'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      keystrokeStyles.theme === theme.value
+                        ? 'bg-background shadow-sm text-foreground'
+                        : 'text-muted-foreground hover:text-foreground',
+                    )}
+                  >
+                    {theme.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </Collapse>
+        <Collapse
+          title="Timing"
+          description="How long keys stay on screen"
+          icon={<Clock className="w-4 h-4 text-primary" />}
+          defaultOpen={false}
+          onReset={handleResetTiming}
+        >
+          <div className={cn('space-y-4', isDisabled && 'opacity-70')}>
+            <div className="space-y-2.5">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Display Duration</span>
+                <span className="text-xs font-semibold text-primary tabular-nums">
+                  {keystrokeStyles.displayDuration.toFixed(1)}s
+                </span>
+              </div>
+              <Slider
+                disabled={isDisabled}
+                min={DEFAULTS.KEYSTROKES.DISPLAY_DURATION.min}
+                max={DEFAULTS.KEYSTROKES.DISPLAY_DURATION.max}
+                step={DEFAULTS.KEYSTROKES.DISPLAY_DURATION.step}
+                value={keystrokeStyles.displayDuration}
+                onChange={(v) => updateKeystrokeStyle({ displayDuration: v })}
+              />
+            </div>
+            <div className="space-y-2.5">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Fade Out</span>
+                <span className="text-xs font-semibold text-primary tabular-nums">
+                  {keystrokeStyles.fadeDuration.toFixed(2)}s
+                </span>
+              </div>
+              <Slider
+                disabled={isDisabled}
+                min={DEFAULTS.KEYSTROKES.FADE_DURATION.min}
+                max={DEFAULTS.KEYSTROKES.FADE_DURATION.max}
+                step={DEFAULTS.KEYSTROKES.FADE_DURATION.step}
+                value={keystrokeStyles.fadeDuration}
+                onChange={(v) => updateKeystrokeStyle({ fadeDuration: v })}
+              />
+            </div>
+          </div>
+        </Collapse>
+      </div>
+    </div>
+  )
+}
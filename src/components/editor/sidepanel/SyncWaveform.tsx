@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useEditorStore } from '../../../store/editorStore'
+import { useShallow } from 'zustand/react/shallow'
+import { getTrackTime } from '../../../lib/utils'
+import { DEFAULTS } from '../../../lib/constants'
+import type { AudioTrack } from '../../../types'
+
+// Must match the resolution of the waveforms returned by the main process
+const PEAKS_PER_SECOND = 100
+const TRACKS: AudioTrack[] = ['mic', 'system']
+
+/**
+ * Shows the audio tracks around the playhead as they line up with the screen video, with the recorded
+ * clicks as markers. A click is usually heard, so its sound should sit on its marker.
+ */
+export function SyncWaveform() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [peaks, setPeaks] = useState<Partial<Record<AudioTrack, number[]>>>({})
+  const { audioPath, systemAudioPath, currentTime, metadata, syncSegments, trackOffsets } = useEditorStore(
+    useShallow((state) => ({
+      audioPath: state.audioPath,
+      systemAudioPath: state.systemAudioPath,
+      currentTime: state.currentTime,
+      metadata: state.metadata,
+      syncSegments: state.syncSegments,
+      trackOffsets: state.trackOffsets,
+    })),
+  )
+
+  useEffect(() => {
+    let isCancelled = false
+    const paths: Record<AudioTrack, string | null> = { mic: audioPath, system: systemAudioPath }
+    Promise.all(
+      TRACKS.map(async (track) => [track, paths[track] ? await window.electronAPI.getAudioWaveform(paths[track]) : []]),
+    )
+      .then((entries) => {
+        if (!isCancelled) setPeaks(Object.fromEntries(entries))
+      })
+      .catch((error) => console.error('Failed to load audio waveforms:', error))
+    return () => {
+      isCancelled = true
+    }
+  }, [audioPath, systemAudioPath])
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = canvas.clientWidth * dpr
+    canvas.height = canvas.clientHeight * dpr
+    const { width, height } = canvas
+    const styles = getComputedStyle(canvas)
+    ctx.clearRect(0, 0, width, height)
+
+    const windowSize = DEFAULTS.AUDIO.WAVEFORM_WINDOW
+    const startTime = currentTime - windowSize
+    const timeToX = (time: number) => ((time - startTime) / (windowSize * 2)) * width
+
+    // One lane per track, drawn mirrored around its middle
+    const tracks = TRACKS.filter((track) => peaks[track]?.length)
+    const laneHeight = height / Math.max(1, tracks.length)
+    ctx.fillStyle = styles.getPropertyValue('--primary')
+    tracks.forEach((track, lane) => {
+      const trackPeaks = peaks[track]!
+      const middle = laneHeight * lane + laneHeight / 2
+      for (let x = 0; x < width; x++) {
+        const time = startTime + (x / width) * windowSize * 2
+        const trackTime = getTrackTime(time, track, syncSegments, trackOffsets[track])
+        const peak = trackPeaks[Math.floor(trackTime * PEAKS_PER_SECOND)] ?? 0
+        const barHeight = Math.max(1, peak * (laneHeight - 4 * dpr))
+        ctx.fillRect(x, middle - barHeight / 2, 1, barHeight)
+      }
+    })
+
+    ctx.fillStyle = styles.getPropertyValue('--muted-foreground')
+    for (const item of metadata) {
+      if (item.type !== 'click' || item.pressed === false) continue
+      if (item.timestamp < startTime || item.timestamp > currentTime + windowSize) continue
+      ctx.fillRect(Math.round(timeToX(item.timestamp)), 0, dpr, height)
+    }
+
+    ctx.fillStyle = styles.getPropertyValue('--foreground')
+    ctx.fillRect(Math.round(width / 2 - dpr), 0, dpr * 2, height)
+  }, [peaks, currentTime, metadata, syncSegments, trackOffsets])
+
+  useEffect(() => {
+    draw()
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(() => draw())
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [draw])
+
+  return (
+    <div className="space-y-1.5">
+      <canvas ref={canvasRef} className="w-full h-20 rounded-lg bg-muted/50 border border-sidebar-border" />
+      <p className="text-xs text-muted-foreground">
+        Lines mark recorded clicks, the playhead is in the middle. Move a track until its clicks are heard on their
+        lines.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react'
+import { DeviceComputerCamera, Microphone, Pencil, Trash, FileText, Loader2 } from 'tabler-icons-react'
+import { Button } from '../ui/button'
+import { cn, formatTime } from '../../lib/utils'
+import type { LibraryItem } from '../../types'
+
+interface LibraryItemCardProps {
+  item: LibraryItem
+  onOpen: (item: LibraryItem) => void
+  onRename: (item: LibraryItem, newName: string) => Promise<boolean>
+  onDelete: (item: LibraryItem) => void
+}
+
+export function LibraryItemCard({ item, onOpen, onRename, onDelete }: LibraryItemCardProps) {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [draftName, setDraftName] = useState(item.name)
+
+  useEffect(() => {
+    let isCancelled = false
+    // Grab a frame slightly into the video; the very first frame is often black
+    const time = Math.min(1, item.duration / 2)
+    window.electronAPI
+      .getVideoFrame({ videoPath: item.session.screenVideoPath, time })
+      .then((url) => !isCancelled && setThumbnailUrl(url))
+      .catch((error) => console.error('Failed to load thumbnail:', error))
+    return () => {
+      isCancelled = true
+    }
+  }, [item.session.screenVideoPath, item.duration])
+
+  const commitRename = async () => {
+    if (draftName.trim() && draftName !== item.name && !(await onRename(item, draftName))) {
+      return // Keep the input open so the user can fix the name
+    }
+    setIsRenaming(false)
+  }
+
+  return (
+    <div
+      className={cn(
+        'group flex flex-col rounded-xl border border-border bg-card overflow-hidden shadow-sm transition-all hover:shadow-md',
+        item.isOpenInEditor && 'ring-2 ring-primary/60',
+      )}
+    >
+      <button className="relative aspect-video bg-muted" onClick={() => onOpen(item)} title="Open in editor">
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt="" className="w-full h-full object-cover" />
+        ) : (
+          <Loader2 className="absolute inset-0 m-auto w-5 h-5 animate-spin text-muted-foreground" />
+        )}
+        <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs font-medium text-white">
+          {formatTime(item.duration)}
+        </span>
+        {item.kind === 'project' && (
+          <span className="absolute top-2 left-2 flex items-center gap-1 rounded bg-primary px-1.5 py-0.5 text-xs font-medium text-primary-foreground">
+            <FileText size={12} /> Project
+          </span>
+        )}
+      </button>
+
+      <div className="flex flex-col gap-1 p-3">
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename()
+              if (e.key === 'Escape') {
+                setDraftName(item.name)
+                setIsRenaming(false)
+              }
+            }}
+            className="h-7 rounded-md border border-border bg-background px-2 text-sm font-medium text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        ) : (
+          <p className="truncate text-sm font-semibold text-foreground" title={item.name}>
+            {item.name}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {new Date(item.createdAt).toLocaleString()}
+          {item.width > 0 && ` · ${item.width}×${item.height}`}
+        </p>
+
+        <div className="mt-1 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <DeviceComputerCamera
+              size={16}
+              className={cn(!item.hasWebcam && 'opacity-30')}
+              aria-label={item.hasWebcam ? 'Has webcam track' : 'No webcam track'}
+            />
+            <Microphone
+              size={16}
+              className={cn(!item.hasAudio && 'opacity-30')}
+              aria-label={item.hasAudio ? 'Has audio track' : 'No audio track'}
+            />
+          </div>
+          <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Rename"
+              onClick={() => {
+                setDraftName(item.name)
+                setIsRenaming(true)
+              }}
+            >
+              <Pencil size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 hover:text-destructive"
+              title="Delete"
+              disabled={item.isOpenInEditor}
+              onClick={() => onDelete(item)}
+            >
+              <Trash size={14} />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
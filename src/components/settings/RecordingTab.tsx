@@ -0,0 +1,413 @@
+import { useEffect, useState } from 'react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Input } from '../ui/input'
+import { Switch } from '../ui/switch'
+import { Button } from '../ui/button'
+import type { AutomationSettings, RecordingCodec, RecordingProfile } from '../../types'
+
+const CUSTOM_PROFILE_ID = 'custom'
+
+const CODECS: { value: RecordingCodec; label: string }[] = [
+  { value: 'x264', label: 'H.264' },
+  { value: 'x265', label: 'H.265 / HEVC' },
+  { value: 'vp9', label: 'VP9' },
+  { value: 'lossless', label: 'Lossless (VP9)' },
+]
+// An HEVC Main profile string, to ask whether the preview can play H.265 recordings
+const HEVC_MIME_TYPE = 'video/mp4; codecs="hvc1.1.6.L120.90"'
+const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium']
+const FRAMERATES = [24, 30, 60]
+const WEBCAM_RESOLUTIONS = [
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+]
+const WEBCAM_FRAMERATES = [15, 30, 60]
+const AUDIO_BITRATES = [96, 128, 192, 256, 320]
+const COUNTDOWNS = [
+  { value: 0, label: 'Off' },
+  { value: 3, label: '3 seconds' },
+  { value: 5, label: '5 seconds' },
+  { value: 10, label: '10 seconds' },
+]
+const MAX_DURATIONS = [
+  { value: 0, label: 'No limit' },
+  { value: 5, label: '5 minutes' },
+  { value: 10, label: '10 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 120, label: '2 hours' },
+]
+const MAX_FILE_SIZES = [
+  { value: 0, label: 'No limit' },
+  { value: 500, label: '500 MB' },
+  { value: 1024, label: '1 GB' },
+  { value: 2048, label: '2 GB' },
+  { value: 4096, label: '4 GB' },
+  { value: 8192, label: '8 GB' },
+]
+
+const SettingRow = ({
+  title,
+  description,
+  children,
+}: {
+  title: string
+  description: string
+  children: React.ReactNode
+}) => (
+  <div className="flex items-center justify-between gap-6 py-3">
+    <div>
+      <h4 className="text-sm font-medium text-foreground">{title}</h4>
+      <p className="text-xs text-muted-foreground">{description}</p>
+    </div>
+    <div className="w-[180px] flex-shrink-0">{children}</div>
+  </div>
+)
+
+// A numeric recorder setting picked from a list, 0 meaning off
+const NumberSettingSelect = ({ settingKey, options }: { settingKey: string; options: typeof COUNTDOWNS }) => {
+  const [value, setValue] = useState(0)
+
+  useEffect(() => {
+    window.electronAPI
+      .getSetting<number>(settingKey)
+      .then((saved) => setValue(saved ?? 0))
+      .catch((error) => console.error(`Failed to load setting ${settingKey}:`, error))
+  }, [settingKey])
+
+  return (
+    <Select
+      value={String(value)}
+      onValueChange={(newValue) => {
+        setValue(Number(newValue))
+        window.electronAPI.setSetting(settingKey, Number(newValue))
+      }}
+    >
+      <SelectTrigger className="h-9 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={String(option.value)}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * The local endpoint that lets scripts control the recorder, off unless the user turns it on.
+ */
+const AutomationSection = () => {
+  const [settings, setSettings] = useState<AutomationSettings | null>(null)
+  const [port, setPort] = useState('')
+  const [isCopied, setIsCopied] = useState(false)
+
+  useEffect(() => {
+    window.electronAPI
+      .getAutomationSettings()
+      .then((saved) => {
+        setSettings(saved)
+        setPort(String(saved.port))
+      })
+      .catch((error) => console.error('Failed to load automation settings:', error))
+  }, [])
+
+  if (!settings) return null
+
+  const apply = async (request: Promise<AutomationSettings>) => {
+    try {
+      const updated = await request
+      setSettings(updated)
+      setPort(String(updated.port))
+    } catch (error) {
+      console.error('Failed to save automation settings:', error)
+    }
+  }
+
+  const copyToken = async () => {
+    await navigator.clipboard.writeText(settings.token)
+    setIsCopied(true)
+    setTimeout(() => setIsCopied(false), 1500)
+  }
+
+  return (
+    <>
+      <h3 className="text-sm font-semibold text-foreground mt-8 mb-2">Automation</h3>
+      <div className="divide-y divide-border">
+        <SettingRow
+          title="Automation API"
+          description="Lets scripts on this computer start, stop and pause recordings and add timeline markers."
+        >
+          <div className="flex justify-end">
+            <Switch
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => apply(window.electronAPI.saveAutomationSettings({ enabled }))}
+            />
+          </div>
+        </SettingRow>
+
+        {settings.enabled && (
+          <>
+            <SettingRow title="Port" description={settings.error ?? `Listening on http://127.0.0.1:${settings.port}.`}>
+              <Input
+                type="number"
+                min={1024}
+                max={65535}
+                value={port}
+                onChange={(e) => setPort(e.target.value)}
+                onBlur={() => {
+                  if (Number(port) !== settings.port) {
+                    apply(window.electronAPI.saveAutomationSettings({ port: Number(port) }))
+                  }
+                }}
+              />
+            </SettingRow>
+
+            <div className="py-3">
+              <h4 className="text-sm font-medium text-foreground">Token</h4>
+              <p className="text-xs text-muted-foreground mb-2">
+                Send it as <code>Authorization: Bearer &lt;token&gt;</code>. Anyone with it can record your screen.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={settings.token} className="font-mono text-xs" />
+                <Button variant="outline" size="sm" className="h-9" onClick={copyToken}>
+                  {isCopied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9"
+                  onClick={() => apply(window.electronAPI.regenerateAutomationToken())}
+                >
+                  Regenerate
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  )
+}
+
+export function RecordingTab() {
+  const [profile, setProfile] = useState<RecordingProfile | null>(null)
+  const [showHud, setShowHud] = useState(false)
+  const [platform, setPlatform] = useState<NodeJS.Platform | null>(null)
+
+  useEffect(() => {
+    Promise.all([window.electronAPI.getSetting<boolean>('recorder.showHud'), window.electronAPI.getPlatform()])
+      .then(([savedShowHud, currentPlatform]) => {
+        setPlatform(currentPlatform)
+        // Matches the default of the main process
+        setShowHud(savedShowHud ?? currentPlatform !== 'linux')
+      })
+      .catch((error) => console.error('Failed to load HUD setting:', error))
+  }, [])
+
+  useEffect(() => {
+    window.electronAPI
+      .getRecordingProfiles()
+      .then((profiles) => setProfile(profiles.find((p) => p.id === CUSTOM_PROFILE_ID) ?? null))
+      .catch((error) => console.error('Failed to load recording profiles:', error))
+  }, [])
+
+  if (!profile) return null
+
+  const updateProfile = async (changes: Partial<RecordingProfile>) => {
+    setProfile({ ...profile, ...changes })
+    try {
+      setProfile(await window.electronAPI.saveCustomRecordingProfile(changes))
+    } catch (error) {
+      console.error('Failed to save custom recording profile:', error)
+    }
+  }
+
+  const toggleShowHud = (checked: boolean) => {
+    setShowHud(checked)
+    window.electronAPI.setSetting('recorder.showHud', checked)
+  }
+
+  const usesPreset = profile.codec === 'x264' || profile.codec === 'x265'
+  // Chromium only plays H.265 with a hardware decoder, without one the editor's preview stays black
+  const canPlayHevc = typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(HEVC_MIME_TYPE)
+  const codecDescription =
+    profile.codec === 'x265' && !canPlayHevc
+      ? 'This system cannot play H.265 back, so recordings would show a black preview in the editor.'
+      : 'H.265 and VP9 make smaller files but need more CPU.'
+
+  return (
+    <div className="p-8">
+      <h2 className="text-lg font-semibold text-foreground mb-2">Recording</h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Encoder settings of the Custom profile. Pick it in the recorder to use them for the next recording.
+      </p>
+
+      <div className="divide-y divide-border">
+        <SettingRow title="Codec" description={codecDescription}>
+          <Select value={profile.codec} onValueChange={(codec) => updateProfile({ codec: codec as RecordingCodec })}>
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CODECS.map((c) => (
+                <SelectItem key={c.value} value={c.value}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+
+        {profile.codec !== 'lossless' && (
+          <SettingRow title="Quality (CRF)" description="Lower values give better quality and larger files.">
+            <Input
+              type="number"
+              min={0}
+              max={profile.codec === 'vp9' ? 63 : 51}
+              value={profile.crf}
+              onChange={(e) => {
+                const crf = Number(e.target.value)
+                const maxCrf = profile.codec === 'vp9' ? 63 : 51
+                if (e.target.value !== '' && Number.isInteger(crf) && crf >= 0 && crf <= maxCrf) updateProfile({ crf })
+              }}
+            />
+          </SettingRow>
+        )}
+
+        {usesPreset && (
+          <SettingRow title="Preset" description="Faster presets use less CPU at the cost of file size.">
+            <Select value={profile.preset} onValueChange={(preset) => updateProfile({ preset })}>
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRESETS.map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {preset}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SettingRow>
+        )}
+
+        <SettingRow title="Screen framerate" description="Frames captured per second.">
+          <Select
+            value={String(profile.framerate)}
+            onValueChange={(value) => updateProfile({ framerate: Number(value) })}
+          >
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FRAMERATES.map((fps) => (
+                <SelectItem key={fps} value={String(fps)}>
+                  {fps} fps
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+
+        <SettingRow title="Webcam resolution" description="Requested from the camera; it may pick the closest mode.">
+          <Select
+            value={`${profile.webcamWidth}x${profile.webcamHeight}`}
+            onValueChange={(value) => {
+              const [webcamWidth, webcamHeight] = value.split('x').map(Number)
+              updateProfile({ webcamWidth, webcamHeight })
+            }}
+          >
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEBCAM_RESOLUTIONS.map((r) => (
+                <SelectItem key={r.width} value={`${r.width}x${r.height}`}>
+                  {r.width} × {r.height}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+
+        <SettingRow title="Webcam framerate" description="Frames captured per second from the webcam.">
+          <Select
+            value={String(profile.webcamFramerate)}
+            onValueChange={(value) => updateProfile({ webcamFramerate: Number(value) })}
+          >
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEBCAM_FRAMERATES.map((fps) => (
+                <SelectItem key={fps} value={String(fps)}>
+                  {fps} fps
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+
+        <SettingRow title="Audio bitrate" description="Applies to the microphone and system audio tracks.">
+          <Select
+            value={String(profile.audioBitrate)}
+            onValueChange={(value) => updateProfile({ audioBitrate: Number(value) })}
+          >
+            <SelectTrigger className="h-9 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUDIO_BITRATES.map((bitrate) => (
+                <SelectItem key={bitrate} value={String(bitrate)}>
+                  {bitrate} kbps
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SettingRow>
+      </div>
+
+      <h3 className="text-sm font-semibold text-foreground mt-8 mb-2">While recording</h3>
+      <div className="divide-y divide-border">
+        <SettingRow title="Countdown" description="Counts down over the recorded area before capturing starts.">
+          <NumberSettingSelect settingKey="recorder.countdown" options={COUNTDOWNS} />
+        </SettingRow>
+
+        <SettingRow
+          title="Stop after"
+          description="Stops and saves the recording after this long, not counting pauses."
+        >
+          <NumberSettingSelect settingKey="recorder.maxDurationMinutes" options={MAX_DURATIONS} />
+        </SettingRow>
+
+        <SettingRow
+          title="Stop at file size"
+          description="Stops and saves the recording once its files reach this size."
+        >
+          <NumberSettingSelect settingKey="recorder.maxFileSizeMB" options={MAX_FILE_SIZES} />
+        </SettingRow>
+
+        <SettingRow
+          title="Recording HUD"
+          description={
+            platform === 'linux'
+              ? 'Shows frame rate, dropped frames and free disk space. Visible in full-screen recordings on Linux.'
+              : 'Shows frame rate, dropped frames and free disk space. It is left out of the recording.'
+          }
+        >
+          <div className="flex justify-end">
+            <Switch checked={showHud} onCheckedChange={toggleShowHud} />
+          </div>
+        </SettingRow>
+      </div>
+
+      <AutomationSection />
+    </div>
+  )
+}
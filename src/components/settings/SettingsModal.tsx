@@ -1,7 +1,8 @@
 import { useState } from 'react'
 import { cn } from '../../lib/utils'
-import { Settings, InfoCircle, Keyboard } from 'tabler-icons-react'
+import { Settings, InfoCircle, Keyboard, Video } from 'tabler-icons-react'
 import { GeneralTab } from './GeneralTab'
+import { RecordingTab } from './RecordingTab'
 import { AboutTab } from './AboutTab'
 import { ShortcutsTab } from './ShortcutsTab'
 
@@ -10,10 +11,11 @@ interface SettingsModalProps {
   onClose: () => void
 }
 
-type SettingsTab = 'general' | 'shortcuts' | 'about'
+type SettingsTab = 'general' | 'recording' | 'shortcuts' | 'about'
 
 const TABS: { id: SettingsTab; label: string; icon: React.ReactNode }[] = [
   { id: 'general', label: 'General', icon: <Settings className="w-5 h-5" /> },
+  { id: 'recording', label: 'Recording', icon: <Video className="w-5 h-5" /> },
   { id: 'shortcuts', label: 'Shortcuts', icon: <Keyboard className="w-5 h-5" /> },
   { id: 'about', label: 'About', icon: <InfoCircle className="w-5 h-5" /> },
 ]
@@ -27,6 +29,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     switch (activeTab) {
       case 'general':
         return <GeneralTab />
+      case 'recording':
+        return <RecordingTab />
       case 'shortcuts':
         return <ShortcutsTab />
       case 'about':
@@ -1,24 +1,158 @@
-import React from 'react'
+import React, { useEffect, useState } from 'react'
+import { cn } from '../../lib/utils'
+import type { RecordingHotkeyAction, RecordingHotkeys } from '../../types'
+
+const RECORDING_HOTKEY_ACTIONS: { action: RecordingHotkeyAction; description: string }[] = [
+  { action: 'start', description: 'Start Recording (recorder open)' },
+  { action: 'stop', description: 'Stop Recording' },
+  { action: 'pause', description: 'Pause / Resume Recording' },
+  { action: 'cancel', description: 'Cancel Recording' },
+]
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta']
+
+/**
+ * Turns a key press into an Electron accelerator, e.g. "CommandOrControl+Shift+R".
+ * @returns null for presses that cannot be a global shortcut, like a letter without modifiers.
+ */
+function toAccelerator(event: React.KeyboardEvent, isMac: boolean): string | null {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+
+  let key: string | null = null
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3)
+  else if (/^Digit\d$/.test(event.code)) key = event.code.slice(5)
+  else if (/^F\d{1,2}$/.test(event.code)) key = event.code
+  else if (event.code.startsWith('Arrow')) key = event.code.slice(5)
+  else if (['Space', 'Home', 'End', 'PageUp', 'PageDown', 'Insert', 'Delete', 'PrintScreen'].includes(event.code)) {
+    key = event.code
+  }
+  if (!key) return null
+
+  const modifiers: string[] = []
+  if (isMac) {
+    if (event.metaKey) modifiers.push('CommandOrControl')
+    if (event.ctrlKey) modifiers.push('Control')
+  } else {
+    if (event.ctrlKey) modifiers.push('CommandOrControl')
+    if (event.metaKey) modifiers.push('Super')
+  }
+  if (event.altKey) modifiers.push('Alt')
+  if (event.shiftKey) modifiers.push('Shift')
+
+  // Anything else would swallow plain typing in every app while registered
+  const isStandalone = /^F\d{1,2}$/.test(key) || key === 'PrintScreen'
+  if (modifiers.length === 0 && !isStandalone) return null
+  return [...modifiers, key].join('+')
+}
+
+const acceleratorToKeys = (accelerator: string) =>
+  accelerator.split('+').map((part) => (part === 'CommandOrControl' ? 'Cmd/Ctrl' : part))
+
+const KeyList = ({ keys }: { keys: string[] }) => (
+  <div className="flex items-center gap-1.5">
+    {keys.map((key, index) => (
+      <React.Fragment key={key}>
+        <kbd className="px-2 py-1 text-xs font-semibold text-muted-foreground bg-muted rounded-md border border-border">
+          {key}
+        </kbd>
+        {index < keys.length - 1 && <span className="text-sm text-muted-foreground">+</span>}
+      </React.Fragment>
+    ))}
+  </div>
+)
 
 const ShortcutItem = ({ keys, description }: { keys: string[]; description: string }) => {
   return (
     <div className="flex items-center justify-between py-3">
       <p className="text-sm text-foreground">{description}</p>
-      <div className="flex items-center gap-1.5">
-        {keys.map((key, index) => (
-          <React.Fragment key={key}>
-            <kbd className="px-2 py-1 text-xs font-semibold text-muted-foreground bg-muted rounded-md border border-border">
-              {key}
-            </kbd>
-            {index < keys.length - 1 && <span className="text-sm text-muted-foreground">+</span>}
-          </React.Fragment>
-        ))}
-      </div>
+      <KeyList keys={keys} />
+    </div>
+  )
+}
+
+/**
+ * A shortcut that can be changed: click it, then press the new combination. Escape keeps the old one,
+ * Backspace removes it.
+ */
+const EditableShortcutItem = ({
+  accelerator,
+  description,
+  isMac,
+  onChange,
+}: {
+  accelerator: string
+  description: string
+  isMac: boolean
+  onChange: (accelerator: string) => void
+}) => {
+  const [isListening, setIsListening] = useState(false)
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!isListening) return
+    // Keeps the editor's own shortcuts from reacting while a combination is entered
+    event.preventDefault()
+    event.stopPropagation()
+
+    const hasModifier = event.ctrlKey || event.metaKey || event.altKey || event.shiftKey
+    if (event.key === 'Escape' && !hasModifier) {
+      setIsListening(false)
+    } else if (event.key === 'Backspace' && !hasModifier) {
+      setIsListening(false)
+      onChange('')
+    } else {
+      const newAccelerator = toAccelerator(event, isMac)
+      if (!newAccelerator) return
+      setIsListening(false)
+      onChange(newAccelerator)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between py-3">
+      <p className="text-sm text-foreground">{description}</p>
+      <button
+        onClick={() => setIsListening(true)}
+        onBlur={() => setIsListening(false)}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          'rounded-md px-1 py-0.5 outline-none transition-colors hover:bg-muted/60',
+          isListening && 'ring-2 ring-ring',
+        )}
+        title="Click and press a new shortcut"
+      >
+        {isListening ? (
+          <span className="px-1 text-xs text-muted-foreground">Press a shortcut…</span>
+        ) : accelerator ? (
+          <KeyList keys={acceleratorToKeys(accelerator)} />
+        ) : (
+          <span className="px-1 text-xs text-muted-foreground">Not set</span>
+        )}
+      </button>
     </div>
   )
 }
 
 export function ShortcutsTab() {
+  const [recordingHotkeys, setRecordingHotkeys] = useState<RecordingHotkeys | null>(null)
+  const [isMac, setIsMac] = useState(false)
+
+  useEffect(() => {
+    Promise.all([window.electronAPI.getRecordingHotkeys(), window.electronAPI.getPlatform()])
+      .then(([hotkeys, platform]) => {
+        setRecordingHotkeys(hotkeys)
+        setIsMac(platform === 'darwin')
+      })
+      .catch((error) => console.error('Failed to load recording shortcuts:', error))
+  }, [])
+
+  const updateRecordingHotkey = async (action: RecordingHotkeyAction, accelerator: string) => {
+    try {
+      setRecordingHotkeys(await window.electronAPI.saveRecordingHotkeys({ [action]: accelerator }))
+    } catch (error) {
+      console.error('Failed to save recording shortcut:', error)
+    }
+  }
+
   const shortcutCategories = [
     {
       title: 'Playback',
@@ -64,6 +198,26 @@ export function ShortcutsTab() {
             </div>
           </div>
         ))}
+
+        {recordingHotkeys && (
+          <div>
+            <h3 className="text-sm font-bold text-muted-foreground uppercase tracking-wider mb-2">Recording</h3>
+            <p className="text-xs text-muted-foreground mb-2">
+              Work in any app while the recorder is open or a recording is running. Click one to change it.
+            </p>
+            <div className="divide-y divide-border rounded-lg border border-border bg-muted/30 px-4">
+              {RECORDING_HOTKEY_ACTIONS.map(({ action, description }) => (
+                <EditableShortcutItem
+                  key={action}
+                  accelerator={recordingHotkeys[action]}
+                  description={description}
+                  isMac={isMac}
+                  onChange={(accelerator) => updateRecordingHotkey(action, accelerator)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -25,8 +25,3 @@ declare module 'react' {
     // Add other custom CSS properties here if needed
   }
 }
-
-declare module 'mp4box' {
-  const MP4Box: any
-  export default MP4Box
-}
@@ -0,0 +1,31 @@
+import { useEffect } from 'react'
+import { useEditorStore } from '../store/editorStore'
+import { APP } from '../lib/constants'
+import type { ProjectEditorState } from '../types'
+
+/**
+ * Periodically sends a snapshot of the editor state to the main process so the session
+ * can be recovered after a crash. Snapshots are skipped while nothing has changed.
+ */
+export function useAutosave() {
+  useEffect(() => {
+    let lastSnapshot: ProjectEditorState | null = null
+
+    const interval = setInterval(() => {
+      const state = useEditorStore.getState()
+      if (!state.videoPath) return
+
+      const snapshot = state.getProjectEditorState()
+      // Immer keeps references of untouched state stable, so a shallow comparison is enough
+      const hasChanged =
+        !lastSnapshot ||
+        (Object.keys(snapshot) as (keyof ProjectEditorState)[]).some((key) => snapshot[key] !== lastSnapshot![key])
+      if (!hasChanged) return
+
+      lastSnapshot = snapshot
+      window.electronAPI.autosaveProject(snapshot)
+    }, APP.AUTOSAVE_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [])
+}
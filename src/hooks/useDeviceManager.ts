@@ -4,7 +4,7 @@ type Device = { id: string; name: string }
 
 /**
  * Custom hook to manage loading and reloading of media devices (webcams, microphones).
- * It handles platform-specific logic (dshow on Windows) and provides a unified interface.
+ * It handles platform-specific logic (dshow on Windows, PulseAudio on Linux) and provides a unified interface.
  *
  * @returns An object containing device lists, loading status, platform info, and a reload function.
  */
@@ -27,6 +27,15 @@ export const useDeviceManager = () => {
         return (kind === 'videoinput' ? video : audio).map((d) => ({ id: d.alternativeName, name: d.name }))
       }
 
+      // On Linux, FFmpeg records microphones through PulseAudio, so its source names are used as ids.
+      // Without a PulseAudio-compatible server the browser's list is shown and the default device is recorded.
+      if (currentPlatform === 'linux' && kind === 'audioinput') {
+        const sources = await window.electronAPI.getPulseAudioSources()
+        if (sources.length > 0) {
+          return sources.map((source) => ({ id: source.name, name: source.description }))
+        }
+      }
+
       try {
         // Request permission to ensure device labels are available
         const stream = await navigator.mediaDevices.getUserMedia({ [kind === 'videoinput' ? 'video' : 'audio']: true })
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useEditorStore } from '../store/editorStore'
 import { ExportSettings } from '../components/editor/ExportModal'
+import type { ExportPipeline, ExportWorkerLimit } from '../types'
 
 /**
  * Custom hook to manage the entire video export process.
@@ -11,7 +12,13 @@ export const useExportProcess = () => {
   const [isModalOpen, setModalOpen] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [progress, setProgress] = useState(0)
-  const [result, setResult] = useState<{ success: boolean; outputPath?: string; error?: string } | null>(null)
+  const [result, setResult] = useState<{
+    success: boolean
+    outputPath?: string
+    error?: string
+    pipeline?: ExportPipeline
+    workerLimit?: ExportWorkerLimit
+  } | null>(null)
 
   // Effect to set up and tear down IPC listeners for export progress and completion
   useEffect(() => {
@@ -19,10 +26,10 @@ export const useExportProcess = () => {
       setProgress(progress)
     })
 
-    const cleanCompleteListener = window.electronAPI.onExportComplete(({ success, outputPath, error }) => {
+    const cleanCompleteListener = window.electronAPI.onExportComplete((payload) => {
       setIsExporting(false)
       setProgress(100)
-      setResult({ success, outputPath, error })
+      setResult(payload)
     })
 
     return () => {
@@ -53,9 +60,17 @@ export const useExportProcess = () => {
       cursorImages: fullState.cursorImages,
       cursorTheme: fullState.cursorTheme,
       cursorStyles: fullState.cursorStyles,
-      syncOffset: fullState.syncOffset,
+      keystrokes: fullState.keystrokes,
+      keystrokeStyles: fullState.keystrokeStyles,
+      syncSegments: fullState.syncSegments,
+      webcamCapture: fullState.webcamCapture,
       audioPath: fullState.audioPath,
       audioUrl: fullState.audioUrl,
+      systemAudioPath: fullState.systemAudioPath,
+      volume: fullState.volume,
+      isMuted: fullState.isMuted,
+      trackVolumes: fullState.trackVolumes,
+      trackOffsets: fullState.trackOffsets,
     }
 
     setResult(null)
@@ -75,6 +90,39 @@ export const useExportProcess = () => {
     }
   }, [])
 
+  /**
+   * Runs an export requested from the command line, once the video is loaded far enough to know its duration.
+   */
+  const startHeadlessExport = useCallback(
+    async ({
+      presetName,
+      exportSettings,
+      outputPath,
+    }: {
+      presetName?: string
+      exportSettings: ExportSettings
+      outputPath: string
+    }) => {
+      const { presets, applyPreset } = useEditorStore.getState()
+      if (presetName) {
+        const preset = Object.values(presets).find((p) => p.name === presetName)
+        if (preset) applyPreset(preset.id)
+        else console.warn(`Preset "${presetName}" not found, exporting with the project's styles.`)
+      }
+
+      await new Promise<void>((resolve) => {
+        if (useEditorStore.getState().duration > 0) return resolve()
+        const unsubscribe = useEditorStore.subscribe((state) => {
+          if (state.duration <= 0) return
+          unsubscribe()
+          resolve()
+        })
+      })
+      await handleStartExport(exportSettings, outputPath)
+    },
+    [handleStartExport],
+  )
+
   // Handler to cancel an ongoing export
   const handleCancelExport = () => {
     window.electronAPI.cancelExport()
@@ -96,6 +144,7 @@ export const useExportProcess = () => {
     openExportModal: () => setModalOpen(true),
     closeExportModal: handleCloseModal,
     startExport: handleStartExport,
+    startHeadlessExport,
     cancelExport: handleCancelExport,
   }
 }
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Streams the live input level (0 to 1) of a Linux PulseAudio source from the main process.
+ * Pass null to stop metering, e.g. while a recording is running.
+ */
+export const useMicLevel = (sourceName: string | null) => {
+  const [level, setLevel] = useState(0)
+
+  useEffect(() => {
+    setLevel(0)
+    if (!sourceName) return
+
+    const cleanup = window.electronAPI.onMicLevel(setLevel)
+    window.electronAPI.startMicLevelMonitor(sourceName)
+    return () => {
+      cleanup()
+      window.electronAPI.stopMicLevelMonitor()
+    }
+  }, [sourceName])
+
+  return level
+}
@@ -30,6 +30,7 @@ export const RESOLUTIONS = {
 // Application-wide constants
 export const APP = {
   LAST_PRESET_ID_KEY: 'screenarc_lastActivePresetId',
+  AUTOSAVE_INTERVAL_MS: 15000,
 }
 
 // Timeline specific constants
@@ -55,6 +56,9 @@ export const ZOOM = {
   AUTO_ZOOM_PRE_CLICK_OFFSET: 1.0, // Time to start zoom before the first click
   AUTO_ZOOM_POST_CLICK_PADDING: 0.9, // Time to hold zoom after the last click
   AUTO_ZOOM_MIN_DURATION: 3.0, // Minimum duration for an auto-generated zoom region
+  AUTO_ZOOM_SCROLL_GAP: 0.5, // Scroll steps closer together than this belong to one scroll sequence
+  AUTO_ZOOM_MIN_SCROLL_DURATION: 1.0, // Shorter scroll sequences do not get a zoom region of their own
+  AUTO_ZOOM_SCROLL_LEVEL: 1.25, // Scrolled content needs more context than a click target
   PAN_EASING: 'Balanced', // Easing function for pan transitions
 }
 
@@ -108,11 +112,18 @@ export const DEFAULTS = {
       DEAD_ZONE: 10, // pixels - minimum movement threshold before camera follows
       SMOOTHING_FACTOR: 0.07, // Lower value = smoother/slower response (default 0.03, faster = 0.07)
       SMOOTHING_WINDOW: 0.5, // seconds - time window for smoothing calculation
+      SPRING_FREQUENCY: 10, // rad/s - how quickly the camera catches up with the cursor while zoomed in
+      PATH_SAMPLE_RATE: 120, // samples per second of the camera path solved for each zoom region
     },
   },
   AUDIO: {
     VOLUME: { min: 0, max: 1, step: 0.01, defaultValue: 1 },
     MUTED: { defaultValue: false },
+    TRACK_VOLUME: { min: 0, max: 1, step: 0.01, defaultValue: 1 },
+    // Seconds a track is moved against the screen video, on top of the measured offset
+    TRACK_OFFSET: { min: -1, max: 1, step: 0.01, defaultValue: 0 },
+    // Seconds of audio shown on either side of the playhead in the sync waveform
+    WAVEFORM_WINDOW: 2,
   },
   ANIMATION: {
     SPEED: { defaultValue: ZOOM.DEFAULT_SPEED },
@@ -142,5 +153,20 @@ export const DEFAULTS = {
       DURATION: { min: 0.1, max: 1, step: 0.05, defaultValue: 0.4 },
       EASING: { defaultValue: 'Balanced' },
     },
+    SCROLL_INDICATOR: {
+      ENABLED: { defaultValue: false },
+      SIZE: { min: 16, max: 64, step: 1, defaultValue: 28 },
+      DURATION: 0.6, // seconds the indicator stays after the last scroll step
+    },
+  },
+  KEYSTROKES: {
+    SHOW_KEYSTROKES: { defaultValue: true },
+    POSITION: { defaultValue: 'bottom-center' as const },
+    SIZE: { min: 24, max: 96, step: 2, defaultValue: 48 },
+    THEME: { defaultValue: 'dark' as const },
+    DISPLAY_DURATION: { min: 0.3, max: 5, step: 0.1, defaultValue: 1.5 },
+    FADE_DURATION: { min: 0, max: 1, step: 0.05, defaultValue: 0.3 },
+    MAX_VISIBLE: 3, // Key groups shown at once, oldest first
+    TYPING_GROUP_GAP: 1, // seconds - typed characters closer together are shown as one word
   },
 }
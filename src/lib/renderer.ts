@@ -1,4 +1,4 @@
-import { EditorState, RenderableState, WebcamPosition } from '../types'
+import { EditorState, KeystrokeItem, KeystrokeStyles, RenderableState, WebcamPosition } from '../types'
 import { calculateZoomTransform, findLastMetadataIndex } from './transform'
 import { EASING_MAP } from './easing'
 import { DEFAULTS } from './constants'
@@ -43,6 +43,179 @@ function lerp(start: number, end: number, t: number): number {
   return start * (1 - t) + end * t
 }
 
+/**
+ * Draws a mouse wheel badge next to the cursor while the recording scrolls, pointing in the scroll direction.
+ * @param lastEventIndex Index of the last metadata event at `currentTime`.
+ */
+function drawScrollIndicator(
+  ctx: CanvasRenderingContext2D,
+  metadata: RenderableState['metadata'],
+  lastEventIndex: number,
+  currentTime: number,
+  size: number,
+  scaleX: number,
+  scaleY: number,
+) {
+  const duration = DEFAULTS.CURSOR.SCROLL_INDICATOR.DURATION
+  let lastScroll = null
+  for (let i = lastEventIndex; i >= 0 && metadata[i].timestamp > currentTime - duration; i--) {
+    if (metadata[i].type === 'scroll') {
+      lastScroll = metadata[i]
+      break
+    }
+  }
+  if (!lastScroll) return
+
+  const progress = (currentTime - lastScroll.timestamp) / duration
+  const width = size * 0.6
+  const x = lastScroll.x * scaleX + size * 0.5
+  const y = lastScroll.y * scaleY + size * 0.5
+
+  ctx.save()
+  ctx.globalAlpha = 1 - EASING_MAP.Balanced(progress)
+
+  // Wheel body
+  const body = new Path2D()
+  body.roundRect(x, y, width, size, width / 2)
+  ctx.fillStyle = 'rgba(20, 20, 20, 0.75)'
+  ctx.fill(body)
+
+  // Chevron in the scroll direction; vertical scrolling wins when both axes moved
+  const centerX = x + width / 2
+  const centerY = y + size / 2
+  const arm = width * 0.25
+  let angle = (lastScroll.deltaX ?? 0) > 0 ? 0 : Math.PI
+  if (lastScroll.deltaY) angle = lastScroll.deltaY > 0 ? Math.PI / 2 : -Math.PI / 2
+  ctx.translate(centerX, centerY)
+  ctx.rotate(angle)
+  ctx.beginPath()
+  ctx.moveTo(-arm / 2, -arm)
+  ctx.lineTo(arm / 2, 0)
+  ctx.lineTo(-arm / 2, arm)
+  ctx.strokeStyle = '#ffffff'
+  ctx.lineWidth = Math.max(1.5, size * 0.07)
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  ctx.stroke()
+  ctx.restore()
+}
+
+const MODIFIER_LABELS: Record<string, Record<string, string>> = {
+  darwin: { Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Meta: '⌘' },
+  win32: { Ctrl: 'Ctrl', Alt: 'Alt', Shift: 'Shift', Meta: 'Win' },
+  linux: { Ctrl: 'Ctrl', Alt: 'Alt', Shift: 'Shift', Meta: 'Super' },
+}
+const KEY_LABELS: Record<string, string> = {
+  Enter: '⏎',
+  Tab: '⇥',
+  Backspace: '⌫',
+  Delete: 'Del',
+  Space: '␣',
+  Up: '↑',
+  Down: '↓',
+  Left: '←',
+  Right: '→',
+}
+
+// A character typed as text rather than a shortcut
+const isTypedKeystroke = (k: KeystrokeItem) =>
+  (k.key.length === 1 || k.key === 'Space') && k.modifiers.every((modifier) => modifier === 'Shift')
+
+/**
+ * Groups the keystrokes pressed up to `currentTime` into the labels shown by the overlay.
+ * Characters typed in quick succession form one label; every shortcut gets its own.
+ */
+function getKeystrokeLabels(
+  keystrokes: KeystrokeItem[],
+  currentTime: number,
+  platform: NodeJS.Platform | null,
+): { text: string; endTime: number }[] {
+  const modifierLabels = MODIFIER_LABELS[platform || 'linux'] || MODIFIER_LABELS.linux
+  const separator = platform === 'darwin' ? '' : ' + '
+  const labels: { text: string; endTime: number; isTyping: boolean }[] = []
+
+  for (const keystroke of keystrokes) {
+    if (keystroke.timestamp > currentTime) break
+    const last = labels[labels.length - 1]
+
+    if (isTypedKeystroke(keystroke)) {
+      const char = keystroke.key === 'Space' ? ' ' : keystroke.key
+      if (last?.isTyping && keystroke.timestamp - last.endTime < DEFAULTS.KEYSTROKES.TYPING_GROUP_GAP) {
+        last.text += char
+        last.endTime = keystroke.timestamp
+      } else {
+        labels.push({ text: char, endTime: keystroke.timestamp, isTyping: true })
+      }
+      continue
+    }
+
+    const key = KEY_LABELS[keystroke.key] || (keystroke.key.length === 1 ? keystroke.key.toUpperCase() : keystroke.key)
+    const modifiers = ['Ctrl', 'Alt', 'Shift', 'Meta']
+      .filter((modifier) => keystroke.modifiers.includes(modifier))
+      .map((modifier) => modifierLabels[modifier])
+    labels.push({ text: [...modifiers, key].join(separator), endTime: keystroke.timestamp, isTyping: false })
+  }
+
+  // Long runs of typing only show their most recent characters
+  return labels.map(({ text, endTime }) => ({ text: text.length > 24 ? `…${text.slice(-23)}` : text, endTime }))
+}
+
+/**
+ * Draws the recently pressed keys as a row of pills in output coordinates.
+ */
+function drawKeystrokeOverlay(
+  ctx: CanvasRenderingContext2D,
+  keystrokes: KeystrokeItem[],
+  styles: KeystrokeStyles,
+  platform: NodeJS.Platform | null,
+  currentTime: number,
+  outputWidth: number,
+  outputHeight: number,
+) {
+  const { position, size, theme, displayDuration, fadeDuration } = styles
+  const visibleLabels = getKeystrokeLabels(keystrokes, currentTime, platform)
+    .filter((label) => currentTime < label.endTime + displayDuration + fadeDuration)
+    .slice(-DEFAULTS.KEYSTROKES.MAX_VISIBLE)
+  if (visibleLabels.length === 0) return
+
+  // Sizes are defined for a 1080p output
+  const scale = outputHeight / 1080
+  const pillHeight = size * scale
+  const paddingX = pillHeight * 0.4
+  const gap = pillHeight * 0.25
+  const edgePadding = Math.min(outputWidth, outputHeight) * 0.04
+
+  ctx.save()
+  ctx.font = `600 ${pillHeight * 0.5}px system-ui, sans-serif`
+  ctx.textBaseline = 'middle'
+  ctx.textAlign = 'center'
+
+  const pillWidths = visibleLabels.map((label) =>
+    Math.max(pillHeight, ctx.measureText(label.text).width + paddingX * 2),
+  )
+  const rowWidth = pillWidths.reduce((sum, width) => sum + width, 0) + gap * (visibleLabels.length - 1)
+
+  let x = edgePadding
+  if (position.endsWith('center')) x = (outputWidth - rowWidth) / 2
+  else if (position.endsWith('right')) x = outputWidth - rowWidth - edgePadding
+  const y = position.startsWith('top') ? edgePadding : outputHeight - pillHeight - edgePadding
+
+  visibleLabels.forEach((label, index) => {
+    const fadeProgress = fadeDuration > 0 ? (currentTime - label.endTime - displayDuration) / fadeDuration : 0
+    ctx.globalAlpha = 1 - Math.min(1, Math.max(0, fadeProgress))
+
+    const path = new Path2D()
+    path.roundRect(x, y, pillWidths[index], pillHeight, pillHeight * 0.25)
+    ctx.fillStyle = theme === 'dark' ? 'rgba(20, 20, 20, 0.8)' : 'rgba(255, 255, 255, 0.9)'
+    ctx.fill(path)
+    ctx.fillStyle = theme === 'dark' ? '#ffffff' : '#111111'
+    ctx.fillText(label.text, x + pillWidths[index] / 2, y + pillHeight / 2)
+
+    x += pillWidths[index] + gap
+  })
+  ctx.restore()
+}
+
 /**
  * Draws the background with optimized rendering
  */
@@ -281,6 +454,18 @@ export const drawScene = async (
   // --- 5. Draw Cursor ---
   const lastEventIndex = findLastMetadataIndex(state.metadata, currentTime)
 
+  if (state.cursorStyles.scrollIndicator && lastEventIndex > -1 && state.recordingGeometry) {
+    drawScrollIndicator(
+      ctx,
+      state.metadata,
+      lastEventIndex,
+      currentTime,
+      state.cursorStyles.scrollIndicatorSize,
+      frameContentWidth / state.recordingGeometry.width,
+      frameContentHeight / state.recordingGeometry.height,
+    )
+  }
+
   if (state.cursorStyles.showCursor && lastEventIndex > -1 && state.recordingGeometry) {
     const event = state.metadata[lastEventIndex]
     if (event && currentTime - event.timestamp < 0.1) {
@@ -487,4 +672,17 @@ export const drawScene = async (
     ctx.drawImage(webcamVideoElement, sx, sy, sWidth, sHeight, drawX, webcamY, webcamWidth, webcamHeight)
     ctx.restore()
   }
+
+  // --- 7. Draw Keystroke Overlay ---
+  if (state.keystrokeStyles.showKeystrokes && state.keystrokes.length > 0) {
+    drawKeystrokeOverlay(
+      ctx,
+      state.keystrokes,
+      state.keystrokeStyles,
+      state.platform,
+      currentTime,
+      outputWidth,
+      outputHeight,
+    )
+  }
 }
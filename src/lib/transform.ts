@@ -139,12 +139,144 @@ function getTransformOrigin(targetX: number, targetY: number): { x: number; y: n
   return { x: targetX + 0.5, y: targetY + 0.5 }
 }
 
-// Store previous pan position for smooth interpolation during pan/hold phase
-let previousPanX = 0
-let previousPanY = 0
-let lastPanUpdateTime = 0
-const PAN_SMOOTHING_FACTOR = 0.1 // 0.1 provides very smooth but responsive movement
+// --- CAMERA PATH ---
 
+// Frame content of size 1, so cached paths hold pans as fractions of the frame and fit any output size
+const UNIT_FRAME = { width: 1, height: 1 }
+
+interface CachedCameraPath {
+  metadata: MetaDataItem[]
+  recordingWidth: number
+  recordingHeight: number
+  // Pan from the end of the zoom-in on, as x, y pairs sampled at PATH_SAMPLE_RATE
+  samples: Float32Array
+}
+
+// Keyed by the region itself, which the store replaces whenever the region is edited
+const cameraPathCache = new WeakMap<ZoomRegion, CachedCameraPath>()
+
+function getEasedProgress(easing: string, progress: number): number {
+  return (EASING_MAP[easing as keyof typeof EASING_MAP] || EASING_MAP.Balanced)(progress)
+}
+
+/**
+ * Moves a critically damped spring towards a target held for one time step, using the exact solution so the
+ * result does not depend on the step size.
+ */
+function stepSpring(
+  position: number,
+  velocity: number,
+  target: number,
+  frequency: number,
+  dt: number,
+): { position: number; velocity: number } {
+  const offset = position - target
+  const decay = Math.exp(-frequency * dt)
+  const impulse = velocity + frequency * offset
+  return {
+    position: target + (offset + impulse * dt) * decay,
+    velocity: (velocity - frequency * impulse * dt) * decay,
+  }
+}
+
+/**
+ * Solves the camera pan of an auto zoom region from the end of its zoom-in to its end. The camera is a spring
+ * that follows the smoothed cursor, starting at rest where the zoom-in leaves it. During the zoom-out the cursor
+ * is released and the pan is pulled firmly back to the center.
+ */
+function solveCameraPath(
+  region: ZoomRegion,
+  metadata: MetaDataItem[],
+  recordingGeometry: { width: number; height: number },
+): Float32Array {
+  const { startTime, duration, zoomLevel, targetX, targetY, easing, transitionDuration } = region
+  const { SPRING_FREQUENCY, PATH_SAMPLE_RATE } = DEFAULTS.CAMERA.MOVEMENT
+  const origin = getTransformOrigin(targetX, targetY)
+  const zoomInEndTime = startTime + transitionDuration
+  const zoomOutStartTime = startTime + duration - transitionDuration
+  const dt = 1 / PATH_SAMPLE_RATE
+  const sampleCount = Math.max(1, Math.ceil((startTime + duration - zoomInEndTime) * PATH_SAMPLE_RATE) + 1)
+  const samples = new Float32Array(sampleCount * 2)
+
+  const getPan = (time: number, scale: number) =>
+    calculateBoundedPan(getSmoothedMousePosition(metadata, time), origin, scale, recordingGeometry, UNIT_FRAME)
+
+  const initialPan = getPan(zoomInEndTime, zoomLevel)
+  let x = { position: initialPan.tx, velocity: 0 }
+  let y = { position: initialPan.ty, velocity: 0 }
+
+  for (let i = 0; i < sampleCount; i++) {
+    const time = zoomInEndTime + i * dt
+    let targetTx: number
+    let targetTy: number
+    // Pulls the output onto the target as the zoom-out finishes, so nothing jumps when the region ends
+    let convergence = 0
+
+    if (time < zoomOutStartTime) {
+      const pan = getPan(time, zoomLevel)
+      targetTx = pan.tx
+      targetTy = pan.ty
+    } else {
+      const t = getEasedProgress(easing, Math.min(1, (time - zoomOutStartTime) / transitionDuration))
+      const pan = getPan(time, lerp(zoomLevel, 1, t))
+      // The first 5% of the zoom-out lets go of the cursor; the rest moves to the center only
+      const cursorInfluence = t <= 0.05 ? 1 - t / 0.05 : 0
+      targetTx = pan.tx * cursorInfluence
+      targetTy = pan.ty * cursorInfluence
+      // Power 4 keeps the spring in charge early on but snaps firmly at the end
+      convergence = Math.pow(t, 4)
+    }
+
+    samples[i * 2] = lerp(x.position, targetTx, convergence)
+    samples[i * 2 + 1] = lerp(y.position, targetTy, convergence)
+    x = stepSpring(x.position, x.velocity, targetTx, SPRING_FREQUENCY, dt)
+    y = stepSpring(y.position, y.velocity, targetTy, SPRING_FREQUENCY, dt)
+  }
+  return samples
+}
+
+/**
+ * Returns the solved pan of a region at the given time after its zoom-in, solving it first if the region,
+ * the metadata or the recording size changed.
+ */
+function getCameraPan(
+  region: ZoomRegion,
+  elapsed: number,
+  metadata: MetaDataItem[],
+  recordingGeometry: { width: number; height: number },
+): { tx: number; ty: number } {
+  let path = cameraPathCache.get(region)
+  if (
+    !path ||
+    path.metadata !== metadata ||
+    path.recordingWidth !== recordingGeometry.width ||
+    path.recordingHeight !== recordingGeometry.height
+  ) {
+    path = {
+      metadata,
+      recordingWidth: recordingGeometry.width,
+      recordingHeight: recordingGeometry.height,
+      samples: solveCameraPath(region, metadata, recordingGeometry),
+    }
+    cameraPathCache.set(region, path)
+  }
+
+  const { samples } = path
+  const lastIndex = samples.length / 2 - 1
+  const position = Math.max(0, elapsed * DEFAULTS.CAMERA.MOVEMENT.PATH_SAMPLE_RATE)
+  const index = Math.min(Math.floor(position), lastIndex)
+  const nextIndex = Math.min(index + 1, lastIndex)
+  const t = Math.min(1, position - index)
+  return {
+    tx: lerp(samples[index * 2], samples[nextIndex * 2], t),
+    ty: lerp(samples[index * 2 + 1], samples[nextIndex * 2 + 1], t),
+  }
+}
+
+/**
+ * Calculates the camera transform at the given time. It depends on nothing but its arguments, so the preview
+ * and exports at any frame rate, in any order, show the same camera path.
+ */
 export const calculateZoomTransform = (
   currentTime: number,
   zoomRegions: Record<string, ZoomRegion>,
@@ -156,142 +288,41 @@ export const calculateZoomTransform = (
     (r) => currentTime >= r.startTime && currentTime < r.startTime + r.duration,
   )
 
-  const defaultTransform = {
-    scale: 1,
-    translateX: 0,
-    translateY: 0,
-    transformOrigin: '50% 50%',
-  }
-
-  // If no region or big time jump, reset tracking
-  if (!activeRegion || Math.abs(currentTime - lastPanUpdateTime) > 0.5) {
-     if (activeRegion) {
-        // Just reset to 0 or we could try to re-initialize if we had context
-        // But simply resetting means next frame will "snap" or "converge"
-        previousPanX = 0
-        previousPanY = 0
-     }
+  if (!activeRegion) {
+    return { scale: 1, translateX: 0, translateY: 0, transformOrigin: '50% 50%' }
   }
 
-  if (!activeRegion) return defaultTransform
-
   const { startTime, duration, zoomLevel, targetX, targetY, mode, easing, transitionDuration } = activeRegion
   const zoomOutStartTime = startTime + duration - transitionDuration
   const zoomInEndTime = startTime + transitionDuration
 
   const fixedOrigin = getTransformOrigin(targetX, targetY)
   const transformOrigin = `${fixedOrigin.x * 100}% ${fixedOrigin.y * 100}%`
+  const followsCursor = mode === 'auto' && metadata.length > 0 && recordingGeometry.width > 0
 
-  let currentScale = 1
-  let currentTranslateX = 0
-  let currentTranslateY = 0
-
-  // --- Calculate Pan Targets ---
-  let initialPan = { tx: 0, ty: 0 }
-  let livePan = { tx: 0, ty: 0 }
-  let finalPan = { tx: 0, ty: 0 }
-
-  if (mode === 'auto' && metadata.length > 0 && recordingGeometry.width > 0) {
-    // Pan target for the end of the zoom-in transition (cursor position at that time)
-    const zoomInEndMousePos = getSmoothedMousePosition(metadata, zoomInEndTime)
-    const zoomInEndPan = calculateBoundedPan(zoomInEndMousePos, fixedOrigin, zoomLevel, recordingGeometry, frameContentDimensions)
-    initialPan = zoomInEndPan
-
-    // Live pan target for the hold phase (DYNAMIC)
-    const liveMousePos = getSmoothedMousePosition(metadata, currentTime)
-    livePan = calculateBoundedPan(liveMousePos, fixedOrigin, zoomLevel, recordingGeometry, frameContentDimensions)
+  let currentScale = zoomLevel
+  let pan = { tx: 0, ty: 0 }
 
-    // Pan target for the start of the zoom-out transition (STATIONARY)
-    const finalMousePos = getSmoothedMousePosition(metadata, zoomOutStartTime)
-    finalPan = calculateBoundedPan(finalMousePos, fixedOrigin, zoomLevel, recordingGeometry, frameContentDimensions)
-  }
-
-  // --- Determine current transform based on phase ---
-
-  // Phase 1: ZOOM-IN (Strict interpolation to avoid initial lag)
-  if (currentTime >= startTime && currentTime < zoomInEndTime) {
-    const t = (EASING_MAP[easing as keyof typeof EASING_MAP] || EASING_MAP.Balanced)(
-      (currentTime - startTime) / transitionDuration,
-    )
+  if (currentTime < zoomInEndTime) {
+    // Phase 1: ZOOM-IN (Strict interpolation towards where the camera path starts, to avoid initial lag)
+    const t = getEasedProgress(easing, (currentTime - startTime) / transitionDuration)
     currentScale = lerp(1, zoomLevel, t)
-    currentTranslateX = lerp(0, initialPan.tx, t)
-    currentTranslateY = lerp(0, initialPan.ty, t)
-    
-    // Snap our smoother to the current calculation so Phase 2 starts correctly
-    previousPanX = currentTranslateX
-    previousPanY = currentTranslateY
-  }
-  // Phase 2: PAN/HOLD (Apply extra smoothing for fluid camera feeling)
-  else if (currentTime >= zoomInEndTime && currentTime < zoomOutStartTime) {
-    currentScale = zoomLevel
-    
-    // Smooth interpolation towards the live target
-    const timeDelta = currentTime - lastPanUpdateTime
-    // Normalize smoothing to frame rate roughly (assuming ~60fps if delta is ~0.016)
-    // If delta is 0 (same frame), don't change.
-    const alpha = timeDelta > 0 ? (timeDelta / 0.016) * PAN_SMOOTHING_FACTOR : 0
-    // Clamp alpha
-    const safeAlpha = Math.max(0, Math.min(1, alpha))
-
-    currentTranslateX = lerp(previousPanX, livePan.tx, safeAlpha)
-    currentTranslateY = lerp(previousPanY, livePan.ty, safeAlpha)
-
-    previousPanX = currentTranslateX
-    previousPanY = currentTranslateY
-  }
-  // Phase 3: ZOOM-OUT (Continue smoothing towards dynamic target)
-  else if (currentTime >= zoomOutStartTime && currentTime <= startTime + duration) {
-    const t = (EASING_MAP[easing as keyof typeof EASING_MAP] || EASING_MAP.Balanced)(
-      (currentTime - zoomOutStartTime) / transitionDuration,
-    )
-    currentScale = lerp(zoomLevel, 1, t)
-
-    let targetTx = 0
-    let targetTy = 0
-
-    if (mode === 'auto' && metadata.length > 0 && recordingGeometry.width > 0) {
-      const liveMousePos = getSmoothedMousePosition(metadata, currentTime)
-      const dynamicPan = calculateBoundedPan(
-        liveMousePos,
-        fixedOrigin,
-        currentScale,
-        recordingGeometry,
-        frameContentDimensions,
-      )
-      
-      // User request optimization: 
-      // First 5% of zoom-out: gradually release cursor tracking (decay from 1.0 to 0.0).
-      // Remaining 95%: pure movement to center (influence is 0).
-      const cursorInfluence = t <= 0.05 ? 1 - (t / 0.05) : 0
-      
-      targetTx = dynamicPan.tx * cursorInfluence
-      targetTy = dynamicPan.ty * cursorInfluence
-    } else {
-      targetTx = lerp(finalPan.tx, 0, t)
-      targetTy = lerp(finalPan.ty, 0, t)
+    if (followsCursor) {
+      const initialPan = getCameraPan(activeRegion, 0, metadata, recordingGeometry)
+      pan = { tx: lerp(0, initialPan.tx, t), ty: lerp(0, initialPan.ty, t) }
     }
-
-    // Apply same smoothing as Phase 2 to prevent jump in velocity
-    // But ensure we converge to 0 if target is 0?
-    // Actually, dynamicPan converges to 0. So smoothing towards it is safe.
-    
-    const timeDelta = currentTime - lastPanUpdateTime
-    const baseAlpha = timeDelta > 0 ? (timeDelta / 0.016) * PAN_SMOOTHING_FACTOR : 0
-    
-    // CRITICAL FIX: As zoom-out finishes (t -> 1), force convergence to the target.
-    // Otherwise, the smoothed value lags behind and causes a jump when the region ends.
-    // Using power 4 keeps smoothing active early on, but snaps firmly at the end.
-    const convergence = Math.pow(t, 4)
-    const fluidAlpha = lerp(Math.max(0, Math.min(1, baseAlpha)), 1, convergence)
-
-    currentTranslateX = lerp(previousPanX, targetTx, fluidAlpha)
-    currentTranslateY = lerp(previousPanY, targetTy, fluidAlpha)
-    
-    previousPanX = currentTranslateX
-    previousPanY = currentTranslateY
+  } else {
+    // Phase 2: PAN/HOLD and phase 3: ZOOM-OUT follow the solved camera path
+    if (currentTime >= zoomOutStartTime) {
+      currentScale = lerp(zoomLevel, 1, getEasedProgress(easing, (currentTime - zoomOutStartTime) / transitionDuration))
+    }
+    if (followsCursor) pan = getCameraPan(activeRegion, currentTime - zoomInEndTime, metadata, recordingGeometry)
   }
-  
-  lastPanUpdateTime = currentTime
 
-  return { scale: currentScale, translateX: currentTranslateX, translateY: currentTranslateY, transformOrigin }
+  return {
+    scale: currentScale,
+    translateX: pan.tx * frameContentDimensions.width,
+    translateY: pan.ty * frameContentDimensions.height,
+    transformOrigin,
+  }
 }
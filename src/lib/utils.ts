@@ -1,6 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
-import { CursorImage, CursorImageBitmap, CutRegion, SpeedRegion } from '../types'
+import { CursorImage, CursorImageBitmap, CutRegion, SpeedRegion, SyncSegment, SyncTrack } from '../types'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -196,3 +196,28 @@ export const mapExportTimeToSourceTime = (
   // If exportTime is beyond the calculated duration (e.g., due to floating point), clamp to the end
   return sourceTime
 }
+
+/**
+ * Maps a time on the screen video to the matching time in a separately recorded track, using the
+ * offsets measured while recording and the user's adjustment of the track.
+ * @param time The time in seconds in the screen video.
+ * @param track The webcam video or one of the audio tracks.
+ * @param syncSegments The measured sync data; null for older recordings, which are assumed to line up.
+ * @param userOffset Seconds the user moved the track; positive values play it later.
+ * @returns The time in seconds in the track file. Negative while the track has not started yet.
+ */
+export const getTrackTime = (
+  time: number,
+  track: SyncTrack,
+  syncSegments: SyncSegment[] | null,
+  userOffset = 0,
+): number => {
+  // Segments are in order, the last one starting before the time contains it
+  let segment = syncSegments?.[0]
+  for (const candidate of syncSegments ?? []) {
+    if (time >= candidate.start) segment = candidate
+  }
+  const trackSync = segment?.tracks[track]
+  if (!segment || !trackSync) return time - userOffset
+  return trackSync.start + (time - segment.start) - trackSync.offset - userOffset
+}
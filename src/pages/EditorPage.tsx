@@ -14,12 +14,15 @@ import { Stack3, Loader2, Check, Settings } from 'tabler-icons-react'
 import { cn } from '../lib/utils'
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts'
 import { useExportProcess } from '../hooks/useExportProcess'
+import { useAutosave } from '../hooks/useAutosave'
 import { Button } from '../components/ui/button'
 import { useShallow } from 'zustand/react/shallow'
 
 export function EditorPage() {
   const {
     loadProject,
+    setProjectPath,
+    getProjectEditorState,
     deleteRegion,
     initializePresets,
     initializeSettings,
@@ -30,11 +33,12 @@ export function EditorPage() {
     seekBackward,
     seekForward,
   } = useEditorStore.getState()
-  const { presetSaveStatus, duration, isPreviewFullScreen } = useEditorStore(
+  const { presetSaveStatus, duration, isPreviewFullScreen, projectPath } = useEditorStore(
     useShallow((state) => ({
       presetSaveStatus: state.presetSaveStatus,
       duration: state.duration,
       isPreviewFullScreen: state.isPreviewFullScreen,
+      projectPath: state.projectPath,
     })),
   )
   const { undo, redo } = useEditorStore.temporal.getState()
@@ -46,9 +50,12 @@ export function EditorPage() {
     openExportModal,
     closeExportModal,
     startExport,
+    startHeadlessExport,
     cancelExport,
   } = useExportProcess()
 
+  useAutosave()
+
   const videoRef = useRef<HTMLVideoElement>(null)
   const [isPresetModalOpen, setPresetModalOpen] = useState(false)
   const [isSettingsModalOpen, setSettingsModalOpen] = useState(false)
@@ -145,9 +152,25 @@ export function EditorPage() {
       await initializePresets()
       await loadProject(payload)
       useEditorStore.temporal.getState().clear()
+      if (payload.exportRequest) startHeadlessExport(payload.exportRequest)
     })
     return () => cleanup()
-  }, [loadProject, initializePresets, initializeSettings])
+  }, [loadProject, initializePresets, initializeSettings, startHeadlessExport])
+
+  useEffect(() => {
+    const cleanup = window.electronAPI.onProjectSaveRequest(async ({ saveAs }) => {
+      const result = await window.electronAPI.saveProject({ editorState: getProjectEditorState(), saveAs })
+      if (!result.canceled && result.filePath) {
+        setProjectPath(result.filePath)
+      }
+    })
+    return () => cleanup()
+  }, [getProjectEditorState, setProjectPath])
+
+  const projectName = projectPath
+    ?.split(/[\\/]/)
+    .pop()
+    ?.replace(/\.screenarc$/, '')
 
   const getPresetButtonContent = () => {
     switch (presetSaveStatus) {
@@ -244,7 +267,7 @@ export function EditorPage() {
 
         {/* Centered Title */}
         <h1 className="text-sm font-bold text-foreground pointer-events-none tracking-tight absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2">
-          ScreenArc
+          {projectName ? `${projectName} — ScreenArc` : 'ScreenArc'}
         </h1>
 
         {/* Right side controls (for non-Windows) */}
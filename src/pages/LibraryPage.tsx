@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Loader2, Refresh, Search } from 'tabler-icons-react'
+import { Button } from '../components/ui/button'
+import { LibraryItemCard } from '../components/library/LibraryItemCard'
+import type { LibraryItem } from '../types'
+
+export function LibraryPage() {
+  const [items, setItems] = useState<LibraryItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [query, setQuery] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const loadItems = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setItems(await window.electronAPI.listLibraryItems())
+    } catch (err) {
+      console.error('Failed to load library:', err)
+      setError('Could not load the library.')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadItems()
+    const cleanup = window.electronAPI.onLibraryChanged(loadItems)
+    return () => cleanup()
+  }, [loadItems])
+
+  const filteredItems = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase()
+    if (!normalizedQuery) return items
+    return items.filter((item) => item.name.toLowerCase().includes(normalizedQuery))
+  }, [items, query])
+
+  const handleOpen = async (item: LibraryItem) => {
+    const result = await window.electronAPI.openLibraryItem(item.filePath)
+    if (result.error) setError(result.error)
+    else if (result.success) loadItems()
+  }
+
+  const handleRename = async (item: LibraryItem, newName: string) => {
+    const result = await window.electronAPI.renameLibraryItem(item.filePath, newName)
+    if (!result.success) {
+      setError(result.error ?? 'Rename failed.')
+      return false
+    }
+    setError(null)
+    await loadItems()
+    return true
+  }
+
+  const handleDelete = async (item: LibraryItem) => {
+    const result = await window.electronAPI.deleteLibraryItem(item.filePath)
+    if (result.error) setError(result.error)
+    else if (result.success) loadItems()
+  }
+
+  return (
+    <main className="h-screen w-screen bg-background flex flex-col overflow-hidden select-none">
+      <header className="flex items-center gap-3 border-b border-border/50 bg-card/80 px-4 py-3">
+        <h1 className="text-sm font-bold tracking-tight text-foreground">Library</h1>
+        <div className="relative ml-auto w-64">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search recordings"
+            className="h-8 w-full rounded-md border border-border bg-background/50 pl-8 pr-2 text-sm text-foreground placeholder:text-muted-foreground/70 focus:outline-none focus:ring-2 focus:ring-primary/50"
+          />
+        </div>
+        <Button variant="ghost" size="icon" title="Refresh" onClick={loadItems} disabled={isLoading}>
+          <Refresh size={16} />
+        </Button>
+      </header>
+
+      {error && (
+        <div className="flex items-center justify-between bg-destructive/10 px-4 py-2 text-sm text-destructive">
+          <span>{error}</span>
+          <button className="font-medium hover:underline" onClick={() => setError(null)}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {isLoading && items.length === 0 ? (
+          <div className="flex h-full items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : filteredItems.length === 0 ? (
+          <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+            {query ? 'No recordings match your search.' : 'No recordings or projects yet.'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(240px,1fr))] gap-4">
+            {filteredItems.map((item) => (
+              <LibraryItemCard
+                key={item.filePath}
+                item={item}
+                onOpen={handleOpen}
+                onRename={handleRename}
+                onDelete={handleDelete}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
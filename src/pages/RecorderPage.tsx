@@ -12,11 +12,21 @@ import {
   Pointer,
   Folder,
   Square,
+  Books,
+  AppWindow,
+  DeviceSpeaker,
+  DeviceSpeakerOff,
+  PlayerPause,
+  PlayerPlay,
+  Adjustments,
+  Keyboard,
 } from 'tabler-icons-react'
 import { Button } from '../components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { useDeviceManager } from '../hooks/useDeviceManager'
+import { useMicLevel } from '../hooks/useMicLevel'
 import { cn } from '../lib/utils'
+import type { KeystrokeCaptureMode, RecordingProfile, WebcamMode } from '../types'
 import '../index.css'
 
 // --- Constants ---
@@ -31,42 +41,87 @@ const WINDOWS_SCALES = [
   { value: 1, label: '1x' },
 ]
 
+const DEFAULT_PROFILE_ID = 'high-quality'
+
+const KEYSTROKE_MODES: { value: KeystrokeCaptureMode; label: string }[] = [
+  { value: 'off', label: 'Keys off' },
+  { value: 'shortcuts', label: 'Shortcuts' },
+  { value: 'all', label: 'All keys' },
+]
+
+// Opens the webcam with the size and rate of the recording profile
+const PROFILE_WEBCAM_MODE = 'profile'
+
+const getWebcamModeKey = (mode: WebcamMode) => `${mode.pixelFormat}:${mode.width}x${mode.height}@${mode.framerate}`
+
+const formatWebcamMode = (mode: WebcamMode) =>
+  `${mode.width}×${mode.height} · ${mode.framerate > 0 ? `${mode.framerate} fps` : 'auto fps'} · ${mode.formatName}`
+
 // --- Types ---
 type RecordingState = 'idle' | 'preparing' | 'recording'
 type ActionInProgress = 'none' | 'recording' | 'loading'
-type RecordingSource = 'area' | 'fullscreen'
+type RecordingSource = 'area' | 'fullscreen' | 'window'
 type DisplayInfo = { id: number; name: string; isPrimary: boolean }
+type WindowInfo = { id: string; name: string; appName?: string; thumbnailUrl: string }
 
 export function RecorderPage() {
   const [recordingState, setRecordingState] = useState<RecordingState>('idle')
   const [isRecording, setIsRecording] = useState(false)
+  const [isPaused, setIsPaused] = useState(false)
   const [actionInProgress, setActionInProgress] = useState<ActionInProgress>('none')
   const [source, setSource] = useState<RecordingSource>('fullscreen')
   const [displays, setDisplays] = useState<DisplayInfo[]>([])
   const [selectedDisplayId, setSelectedDisplayId] = useState<string>('')
+  const [windows, setWindows] = useState<WindowInfo[]>([])
+  const [selectedWindowId, setSelectedWindowId] = useState<string>('')
   const [selectedWebcamId, setSelectedWebcamId] = useState<string>('none')
+  const [webcamModes, setWebcamModes] = useState<WebcamMode[]>([])
+  const [selectedWebcamModeKey, setSelectedWebcamModeKey] = useState<string>(PROFILE_WEBCAM_MODE)
   const [selectedMicId, setSelectedMicId] = useState<string>('none')
+  const [isSystemAudioEnabled, setIsSystemAudioEnabled] = useState(false)
   const [cursorScale, setCursorScale] = useState<number>(1)
+  const [profiles, setProfiles] = useState<RecordingProfile[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(DEFAULT_PROFILE_ID)
+  const [keystrokeMode, setKeystrokeMode] = useState<KeystrokeCaptureMode>('off')
 
   const { platform, webcams, mics, isInitializing, reload: reloadDevices } = useDeviceManager()
+  const micLevel = useMicLevel(platform === 'linux' && !isRecording && selectedMicId !== 'none' ? selectedMicId : null)
   const webcamPreviewRef = useRef<HTMLVideoElement>(null)
   const webcamStreamRef = useRef<MediaStream | null>(null)
 
   const cursorScales = useMemo(() => (platform === 'win32' ? WINDOWS_SCALES : LINUX_SCALES), [platform])
+  const selectedWebcamMode = webcamModes.find((mode) => getWebcamModeKey(mode) === selectedWebcamModeKey)
 
   // Effect for initializing settings and devices from storage/system
   useEffect(() => {
     const initialize = async () => {
       try {
-        const [savedWebcamId, savedMicId, savedCursorScale, fetchedDisplays] = await Promise.all([
+        const [
+          savedWebcamId,
+          savedMicId,
+          savedSystemAudio,
+          savedCursorScale,
+          savedProfileId,
+          savedKeystrokeMode,
+          fetchedDisplays,
+          fetchedProfiles,
+        ] = await Promise.all([
           window.electronAPI.getSetting<string>('recorder.selectedWebcamId'),
           window.electronAPI.getSetting<string>('recorder.selectedMicId'),
+          window.electronAPI.getSetting<boolean>('recorder.systemAudio'),
           window.electronAPI.getSetting<number>('recorder.cursorScale'),
+          window.electronAPI.getSetting<string>('recorder.profileId'),
+          window.electronAPI.getSetting<KeystrokeCaptureMode>('recorder.keystrokes'),
           window.electronAPI.getDisplays(),
+          window.electronAPI.getRecordingProfiles(),
         ])
 
         setSelectedWebcamId(savedWebcamId || 'none')
         setSelectedMicId(savedMicId || 'none')
+        setIsSystemAudioEnabled(!!savedSystemAudio)
+        setProfiles(fetchedProfiles)
+        setSelectedProfileId(fetchedProfiles.some((p) => p.id === savedProfileId) ? savedProfileId : DEFAULT_PROFILE_ID)
+        setKeystrokeMode(savedKeystrokeMode || 'off')
 
         // Only set cursor scale from settings for Linux
         if (platform === 'linux') {
@@ -101,6 +156,24 @@ export function RecorderPage() {
     }
   }, [isInitializing, webcams, mics, platform, cursorScales, selectedWebcamId, selectedMicId, cursorScale])
 
+  const reloadWindows = async () => {
+    try {
+      const fetchedWindows = await window.electronAPI.getWindowSources()
+      setWindows(fetchedWindows)
+      // Keep the current choice if the window still exists
+      setSelectedWindowId((current) =>
+        fetchedWindows.some((w) => w.id === current) ? current : (fetchedWindows[0]?.id ?? ''),
+      )
+    } catch (error) {
+      console.error('Failed to list windows:', error)
+    }
+  }
+
+  // Effect to refresh the window list whenever the window source is chosen
+  useEffect(() => {
+    if (source === 'window') reloadWindows()
+  }, [source])
+
   // Effect to manage IPC listeners for recording completion
   useEffect(() => {
     const cleanupStarted = window.electronAPI.onRecordingStarted(() => {
@@ -112,14 +185,46 @@ export function RecorderPage() {
       setActionInProgress('none')
       setRecordingState('idle')
       setIsRecording(false)
+      setIsPaused(false)
       reloadDevices() // Refresh device list in case something changed
     })
+
+    const cleanupPauseChanged = window.electronAPI.onRecordingPauseChanged(({ isPaused }) => setIsPaused(isPaused))
     return () => {
       cleanupStarted()
       cleanupFinished()
+      cleanupPauseChanged()
     }
   }, [reloadDevices])
 
+  // Effect to list the capture modes of the selected webcam (V4L2 devices on Linux only)
+  useEffect(() => {
+    const index = webcams.findIndex((w) => w.id === selectedWebcamId)
+    if (platform !== 'linux' || index < 0) {
+      setWebcamModes([])
+      setSelectedWebcamModeKey(PROFILE_WEBCAM_MODE)
+      return
+    }
+
+    let isCurrent = true
+    Promise.all([
+      window.electronAPI.getWebcamModes(index),
+      window.electronAPI.getSetting<Record<string, string>>('recorder.webcamModes'),
+    ])
+      .then(([modes, savedModes]) => {
+        if (!isCurrent) return
+        const savedKey = savedModes?.[selectedWebcamId]
+        setWebcamModes(modes)
+        setSelectedWebcamModeKey(
+          savedKey && modes.some((mode) => getWebcamModeKey(mode) === savedKey) ? savedKey : PROFILE_WEBCAM_MODE,
+        )
+      })
+      .catch((error) => console.error('Failed to list webcam modes:', error))
+    return () => {
+      isCurrent = false
+    }
+  }, [platform, webcams, selectedWebcamId])
+
   // Effect to manage the webcam preview stream
   useEffect(() => {
     const videoEl = webcamPreviewRef.current
@@ -139,7 +244,15 @@ export function RecorderPage() {
     const startStream = async () => {
       stopStream()
       try {
-        const constraints = { video: platform === 'win32' ? true : { deviceId: { exact: selectedWebcamId } } }
+        // Preview in the picked mode, so the camera shows the framing it will record
+        const modeConstraints = selectedWebcamMode && {
+          width: { ideal: selectedWebcamMode.width },
+          height: { ideal: selectedWebcamMode.height },
+          ...(selectedWebcamMode.framerate > 0 && { frameRate: { ideal: selectedWebcamMode.framerate } }),
+        }
+        const constraints = {
+          video: platform === 'win32' ? true : { deviceId: { exact: selectedWebcamId }, ...modeConstraints },
+        }
         const stream = await navigator.mediaDevices.getUserMedia(constraints)
         webcamStreamRef.current = stream
         if (videoEl) videoEl.srcObject = stream
@@ -150,7 +263,7 @@ export function RecorderPage() {
 
     startStream()
     return stopStream
-  }, [selectedWebcamId, platform, recordingState])
+  }, [selectedWebcamId, selectedWebcamMode, platform, recordingState])
 
   const handleStart = async () => {
     setActionInProgress('recording')
@@ -168,8 +281,15 @@ export function RecorderPage() {
       const result = await window.electronAPI.startRecording({
         source,
         displayId: source === 'fullscreen' ? Number(selectedDisplayId) : undefined,
-        webcam: webcam ? { deviceId: webcam.id, deviceLabel: webcam.id, index: webcams.indexOf(webcam) } : undefined,
+        windowId: source === 'window' ? selectedWindowId : undefined,
+        windowTitle: source === 'window' ? windows.find((w) => w.id === selectedWindowId)?.name : undefined,
+        webcam: webcam
+          ? { deviceId: webcam.id, deviceLabel: webcam.id, index: webcams.indexOf(webcam), mode: selectedWebcamMode }
+          : undefined,
         mic: mic ? { deviceId: mic.id, deviceLabel: mic.id, index: mics.indexOf(mic) } : undefined,
+        systemAudio: platform === 'linux' && isSystemAudioEnabled,
+        profileId: selectedProfileId,
+        keystrokes: platform === 'linux' || platform === 'darwin' ? keystrokeMode : 'off',
       })
 
       if (result.canceled) {
@@ -183,6 +303,20 @@ export function RecorderPage() {
     }
   }
 
+  const canStart =
+    !isInitializing && actionInProgress === 'none' && !isRecording && !(source === 'window' && !selectedWindowId)
+
+  // The start shortcut is global, so it arrives from the main process instead of as a key event
+  const startFromHotkeyRef = useRef<(() => void) | null>(null)
+  startFromHotkeyRef.current = canStart ? handleStart : null
+  useEffect(
+    () =>
+      window.electronAPI.onRecordingHotkey((action) => {
+        if (action === 'start') startFromHotkeyRef.current?.()
+      }),
+    [],
+  )
+
   const handleStop = () => {
     setActionInProgress('recording')
     window.electronAPI.stopRecording()
@@ -204,6 +338,19 @@ export function RecorderPage() {
     window.electronAPI.setSetting(key, id)
   }
 
+  const handleWebcamModeChange = async (key: string) => {
+    setSelectedWebcamModeKey(key)
+    // Remembered per camera, since every camera offers its own modes
+    const savedModes = (await window.electronAPI.getSetting<Record<string, string>>('recorder.webcamModes')) || {}
+    window.electronAPI.setSetting('recorder.webcamModes', { ...savedModes, [selectedWebcamId]: key })
+  }
+
+  const handleSystemAudioToggle = () => {
+    const enabled = !isSystemAudioEnabled
+    setIsSystemAudioEnabled(enabled)
+    window.electronAPI.setSetting('recorder.systemAudio', enabled)
+  }
+
   const handleCursorScaleChange = (value: string) => {
     const newScale = Number(value)
     setCursorScale(newScale)
@@ -249,39 +396,89 @@ export function RecorderPage() {
                 tooltip="Area"
                 disabled={isRecording}
               />
+              {platform === 'linux' && (
+                <SourceButton
+                  icon={<AppWindow size={16} />}
+                  isActive={source === 'window'}
+                  onClick={() => setSource('window')}
+                  tooltip="Window"
+                  disabled={isRecording}
+                />
+              )}
             </div>
 
             <div className="w-px h-8 bg-border/50"></div>
 
             {/* Device Selectors */}
             <div className="flex items-center gap-2" style={{ WebkitAppRegion: 'no-drag' }}>
-              <Select
-                value={selectedDisplayId}
-                onValueChange={setSelectedDisplayId}
-                disabled={source !== 'fullscreen' || isRecording}
-              >
-                <SelectTrigger
-                  variant="minimal"
-                  className="w-auto min-w-[120px] max-w-[150px] h-9"
-                  aria-label="Select display"
+              {source === 'window' ? (
+                <Select
+                  value={selectedWindowId}
+                  onValueChange={setSelectedWindowId}
+                  onOpenChange={(open) => open && reloadWindows()}
+                  disabled={isRecording}
                 >
-                  <SelectValue asChild>
-                    <div className="flex items-center gap-1.5 text-xs">
-                      <DeviceDesktop size={14} className="text-primary shrink-0" />
-                      <span className="truncate">
-                        {displays.find((d) => String(d.id) === selectedDisplayId)?.name || '...'}
-                      </span>
-                    </div>
-                  </SelectValue>
-                </SelectTrigger>
-                <SelectContent>
-                  {displays.map((d) => (
-                    <SelectItem key={d.id} value={String(d.id)}>
-                      {d.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                  <SelectTrigger
+                    variant="minimal"
+                    className="w-auto min-w-[120px] max-w-[150px] h-9"
+                    aria-label="Select window"
+                  >
+                    <SelectValue asChild>
+                      <div className="flex items-center gap-1.5 text-xs">
+                        <AppWindow size={14} className="text-primary shrink-0" />
+                        <span className="truncate">
+                          {windows.find((w) => w.id === selectedWindowId)?.name || 'No windows'}
+                        </span>
+                      </div>
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {windows.map((w) => (
+                      <SelectItem key={w.id} value={w.id}>
+                        <div className="flex items-center gap-2 max-w-[260px]">
+                          {w.thumbnailUrl && (
+                            <img src={w.thumbnailUrl} alt="" className="w-10 h-6 rounded-sm object-cover shrink-0" />
+                          )}
+                          <span className="truncate">
+                            {w.name}
+                            {w.appName && w.appName !== w.name && (
+                              <span className="text-muted-foreground"> — {w.appName}</span>
+                            )}
+                          </span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Select
+                  value={selectedDisplayId}
+                  onValueChange={setSelectedDisplayId}
+                  disabled={source !== 'fullscreen' || isRecording}
+                >
+                  <SelectTrigger
+                    variant="minimal"
+                    className="w-auto min-w-[120px] max-w-[150px] h-9"
+                    aria-label="Select display"
+                  >
+                    <SelectValue asChild>
+                      <div className="flex items-center gap-1.5 text-xs">
+                        <DeviceDesktop size={14} className="text-primary shrink-0" />
+                        <span className="truncate">
+                          {displays.find((d) => String(d.id) === selectedDisplayId)?.name || '...'}
+                        </span>
+                      </div>
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {displays.map((d) => (
+                      <SelectItem key={d.id} value={String(d.id)}>
+                        {d.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
 
               <Select
                 value={selectedWebcamId}
@@ -316,38 +513,71 @@ export function RecorderPage() {
                 </SelectContent>
               </Select>
 
-              <Select
-                value={selectedMicId}
-                onValueChange={handleSelectionChange(setSelectedMicId, 'recorder.selectedMicId')}
-                disabled={isRecording}
-              >
-                <SelectTrigger
-                  variant="minimal"
-                  className="w-auto min-w-[120px] max-w-[150px] h-9"
-                  aria-label="Select microphone"
+              <div className="relative">
+                <Select
+                  value={selectedMicId}
+                  onValueChange={handleSelectionChange(setSelectedMicId, 'recorder.selectedMicId')}
+                  disabled={isRecording}
                 >
-                  <SelectValue asChild>
-                    <div className="flex items-center gap-1.5 text-xs">
-                      {selectedMicId !== 'none' ? (
-                        <Microphone size={14} className="text-primary shrink-0" />
-                      ) : (
-                        <MicrophoneOff size={14} className="text-muted-foreground/60" />
+                  <SelectTrigger
+                    variant="minimal"
+                    className="w-auto min-w-[120px] max-w-[150px] h-9"
+                    aria-label="Select microphone"
+                  >
+                    <SelectValue asChild>
+                      <div className="flex items-center gap-1.5 text-xs">
+                        {selectedMicId !== 'none' ? (
+                          <Microphone size={14} className="text-primary shrink-0" />
+                        ) : (
+                          <MicrophoneOff size={14} className="text-muted-foreground/60" />
+                        )}
+                        <span className={cn('truncate', selectedMicId === 'none' && 'text-muted-foreground')}>
+                          {mics.find((m) => m.id === selectedMicId)?.name || 'No microphone'}
+                        </span>
+                      </div>
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No microphone</SelectItem>
+                    {mics.map((m) => (
+                      <SelectItem key={m.id} value={m.id}>
+                        {m.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {/* Live input level of the selected mic (Linux only) */}
+                {platform === 'linux' && selectedMicId !== 'none' && !isRecording && (
+                  <div className="pointer-events-none absolute left-2 right-2 bottom-0.5 h-0.5 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={cn(
+                        'h-full rounded-full transition-[width] duration-75',
+                        micLevel > 0.9 ? 'bg-destructive' : 'bg-primary',
                       )}
-                      <span className={cn('truncate', selectedMicId === 'none' && 'text-muted-foreground')}>
-                        {mics.find((m) => m.id === selectedMicId)?.name || 'No microphone'}
-                      </span>
-                    </div>
-                  </SelectValue>
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No microphone</SelectItem>
-                  {mics.map((m) => (
-                    <SelectItem key={m.id} value={m.id}>
-                      {m.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+                      style={{ width: `${Math.round(micLevel * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* System Audio (Linux only, captured from the PulseAudio/PipeWire monitor) */}
+              {platform === 'linux' && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  onClick={handleSystemAudioToggle}
+                  disabled={isRecording}
+                  title={isSystemAudioEnabled ? 'System audio: on' : 'System audio: off'}
+                  aria-pressed={isSystemAudioEnabled}
+                >
+                  {isSystemAudioEnabled ? (
+                    <DeviceSpeaker size={16} className="text-primary" />
+                  ) : (
+                    <DeviceSpeakerOff size={16} className="text-muted-foreground/60" />
+                  )}
+                </Button>
+              )}
             </div>
 
             <div className="w-px h-8 bg-border/50"></div>
@@ -374,9 +604,80 @@ export function RecorderPage() {
               </>
             )}
 
+            {/* Recording Profile */}
+            <div className="flex items-center gap-1.5" style={{ WebkitAppRegion: 'no-drag' }}>
+              <Adjustments size={14} className="text-muted-foreground/60" />
+              <Select
+                value={selectedProfileId}
+                onValueChange={handleSelectionChange(setSelectedProfileId, 'recorder.profileId')}
+                disabled={isRecording}
+              >
+                <SelectTrigger
+                  variant="minimal"
+                  className="w-auto max-w-[120px] h-9 text-xs"
+                  aria-label="Select profile"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="end">
+                  {profiles.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-px h-8 bg-border/50"></div>
+
+            {/* Keystroke Capture (Linux and macOS) */}
+            {(platform === 'linux' || platform === 'darwin') && (
+              <>
+                <div className="flex items-center gap-1.5" style={{ WebkitAppRegion: 'no-drag' }}>
+                  <Keyboard size={14} className="text-muted-foreground/60" />
+                  <Select
+                    value={keystrokeMode}
+                    onValueChange={handleSelectionChange(
+                      (mode) => setKeystrokeMode(mode as KeystrokeCaptureMode),
+                      'recorder.keystrokes',
+                    )}
+                    disabled={isRecording}
+                  >
+                    <SelectTrigger
+                      variant="minimal"
+                      className="w-auto max-w-[100px] h-9 text-xs"
+                      aria-label="Select keystroke capture"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent align="end">
+                      {KEYSTROKE_MODES.map((m) => (
+                        <SelectItem key={m.value} value={m.value}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-px h-8 bg-border/50"></div>
+              </>
+            )}
+
             {/* Action Buttons */}
             <div className="flex items-center" style={{ WebkitAppRegion: 'no-drag' }}>
               <div className="flex items-center gap-2">
+                {isRecording && (
+                  <Button
+                    onClick={() => window.electronAPI.togglePauseRecording()}
+                    title={isPaused ? 'Resume Recording' : 'Pause Recording'}
+                    disabled={actionInProgress !== 'none'}
+                    variant="secondary"
+                    size="icon"
+                    className="h-10 w-10 rounded-full shadow-lg"
+                  >
+                    {isPaused ? <PlayerPlay size={16} /> : <PlayerPause size={16} />}
+                  </Button>
+                )}
                 {isRecording ? (
                   <Button
                     onClick={handleStop}
@@ -391,7 +692,7 @@ export function RecorderPage() {
                   <Button
                     onClick={handleStart}
                     title="Record"
-                    disabled={isInitializing || actionInProgress !== 'none'}
+                    disabled={!canStart}
                     size="icon"
                     className="h-10 w-10 rounded-full shadow-lg"
                   >
@@ -408,6 +709,16 @@ export function RecorderPage() {
                 >
                   <Folder size={18} />
                 </Button>
+                <Button
+                  onClick={() => window.electronAPI.openLibraryWindow()}
+                  title="Library"
+                  disabled={isRecording}
+                  variant="secondary"
+                  size="icon"
+                  className="h-10 w-10 rounded-full shadow-lg"
+                >
+                  <Books size={18} />
+                </Button>
               </div>
               <div className="w-8 h-10 flex items-center justify-center">
                 <Loader2
@@ -432,6 +743,33 @@ export function RecorderPage() {
           >
             <video ref={webcamPreviewRef} autoPlay playsInline muted className="w-full h-full object-cover" />
           </div>
+
+          {/* Webcam Capture Mode (Linux only) */}
+          {webcamModes.length > 0 && selectedWebcamId !== 'none' && !isRecording && (
+            <div className="mt-2 flex justify-center">
+              <Select
+                value={selectedWebcamModeKey}
+                onValueChange={handleWebcamModeChange}
+                disabled={actionInProgress !== 'none'}
+              >
+                <SelectTrigger
+                  variant="minimal"
+                  className="w-auto h-8 px-3 text-xs rounded-lg bg-card border border-border shadow-lg"
+                  aria-label="Select webcam mode"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="center">
+                  <SelectItem value={PROFILE_WEBCAM_MODE}>Profile default</SelectItem>
+                  {webcamModes.map((mode) => (
+                    <SelectItem key={getWebcamModeKey(mode)} value={getWebcamModeKey(mode)}>
+                      {formatWebcamMode(mode)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,31 +1,49 @@
 import log from 'electron-log/renderer'
 import { useEffect, useRef } from 'react'
 import { useEditorStore } from '../store/editorStore'
-import { EditorState, EditorActions, CursorTheme, CursorFrame, CursorImageBitmap } from '../types'
+import { EditorState, EditorActions, CursorTheme, CursorFrame, CursorImageBitmap, ExportPipeline } from '../types'
 import { ExportSettings } from '../components/editor/ExportModal'
 import { RESOLUTIONS } from '../lib/constants'
 import { drawScene } from '../lib/renderer'
-import { prepareCursorBitmaps, mapExportTimeToSourceTime } from '../lib/utils'
+import { prepareCursorBitmaps, mapExportTimeToSourceTime, getTrackTime } from '../lib/utils'
+import type { Movie, Sample } from 'mp4box'
 
 type RenderStartPayload = {
   projectState: Omit<EditorState, keyof EditorActions>
   exportSettings: ExportSettings
+  // Part of the export this worker renders, out of how many
+  segment?: { index: number; count: number }
 }
 
+// A decoded picture of the recording: a WebCodecs frame, or the canvas FFmpeg's pixels were drawn on
+type ExportFrame = VideoFrame | OffscreenCanvas
+
 type VideoFrameProvider = {
-  getFrameForTime: (timeSec: number) => Promise<VideoFrame | null>
+  // Seeks by itself when the time goes backwards or far ahead
+  getFrameForTime: (timeSec: number) => Promise<ExportFrame | null>
+  // Restarts decoding at the given time, e.g. for an export that does not begin at the start of the recording
+  seek: (timeSec: number) => Promise<void>
   close: () => void
 }
 
+// Bytes read per request while looking for the movie header, which may sit at the end of the file
+const HEADER_READ_BYTES = 4 * 1024 * 1024
+// Most bytes read at once for sample data. Frames are stored in file order, so one read covers many of them.
+const SAMPLE_READ_BYTES = 8 * 1024 * 1024
+// Decoded frames plus chunks still waiting in the decoder. Only this many are kept ahead of the export, so memory
+// stays the same however long the recording is.
+const MAX_PENDING_FRAMES = 8
+// Jumps the software decoder makes by starting over rather than decoding every frame in between
+const SOFTWARE_SEEK_AHEAD_SEC = 5
+
 async function createVideoFrameProvider(videoPath: string): Promise<VideoFrameProvider> {
   if (!('VideoDecoder' in window)) {
     throw new Error('VideoDecoder is not available in this context.')
   }
 
-  let MP4Box: any
+  let MP4Box: typeof import('mp4box')
   try {
-    const mod: any = await import('mp4box')
-    MP4Box = mod?.default ?? mod
+    MP4Box = await import('mp4box')
   } catch (e) {
     throw new Error('Failed to import mp4box module.')
   }
@@ -37,11 +55,25 @@ async function createVideoFrameProvider(videoPath: string): Promise<VideoFramePr
   const mp4boxfile = MP4Box.createFile()
   const frameQueue: VideoFrame[] = []
   const waiters: Array<(frame: VideoFrame | null) => void> = []
-  let decoder: any = null
+  // Created in onReady, so declared without narrowing to null
+  let decoder = null as VideoDecoder | null
   let timescale = 1
+  let decoderConfig: VideoDecoderConfig | null = null
   let closed = false
+  // No more frames will be decoded, until a seek starts decoding again
+  let isEnded = false
   let lastFrame: VideoFrame | null = null
   let nextFrame: VideoFrame | null = null
+  // Samples of the video track in decode order, with their position in the file
+  let samples: Sample[] = []
+  // Sync samples, ordered by time, where decoding can start after a seek
+  let keyframes: Array<{ sampleIndex: number; timestampUs: number }> = []
+  let nextSampleIndex = 0
+  let hasKeyframe = false
+  let feeding: Promise<void> | null = null
+  let isFlushing = false
+  // Increased on every seek, so reads and flushes started before it are ignored
+  let decodeGeneration = 0
 
   const buildAvcCRecord = (avcC: any): Uint8Array | undefined => {
     if (!avcC) return undefined
@@ -130,88 +162,155 @@ async function createVideoFrameProvider(videoPath: string): Promise<VideoFramePr
     }
   }
 
-  const pullFrame = () =>
-    new Promise<VideoFrame | null>((resolve) => {
-      if (frameQueue.length > 0) return resolve(frameQueue.shift()!)
-      if (closed) return resolve(null)
-      waiters.push(resolve)
-    })
-
-  const ready = new Promise<void>((resolve, reject) => {
-    mp4boxfile.onReady = (info: any) => {
-      try {
-        const track = info.videoTracks?.[0]
-        if (!track) throw new Error('No video track found in MP4')
-        timescale = track.timescale || 1
+  const finishFrames = () => {
+    isEnded = true
+    while (waiters.length > 0) {
+      const waiter = waiters.shift()
+      if (waiter) waiter(null)
+    }
+  }
 
-        decoder = new VideoDecoder({
-          output: (frame: VideoFrame) => pushFrame(frame),
-          error: (err) => log.error('[RendererPage] VideoDecoder error:', err),
-        })
+  // Reads and decodes the next samples until enough frames are pending
+  const readSamples = async (activeDecoder: VideoDecoder, generation: number) => {
+    try {
+      while (!closed && generation === decodeGeneration && nextSampleIndex < samples.length) {
+        const room = MAX_PENDING_FRAMES - frameQueue.length - activeDecoder.decodeQueueSize
+        if (room <= 0) break
+
+        const first = samples[nextSampleIndex]
+        let end = nextSampleIndex + 1
+        while (end < samples.length && end - nextSampleIndex < room) {
+          const previous = samples[end - 1]
+          const sample = samples[end]
+          if (sample.offset < previous.offset + previous.size) break
+          if (sample.offset + sample.size - first.offset > SAMPLE_READ_BYTES) break
+          end++
+        }
+        const last = samples[end - 1]
+        const bytes = await window.electronAPI.readFileRange(
+          videoPath,
+          first.offset,
+          last.offset + last.size - first.offset,
+        )
+        if (closed || generation !== decodeGeneration) return
 
-        const description = getDecoderDescription(track, mp4boxfile)
-        const isAvc = typeof track?.codec === 'string' && (track.codec.startsWith('avc1') || track.codec.startsWith('avc3'))
-        const isHevc = typeof track?.codec === 'string' && (track.codec.startsWith('hvc1') || track.codec.startsWith('hev1'))
-        if ((isAvc || isHevc) && !description) {
-          const trackKeys = Object.keys(track || {})
-          const sampleDescKeys = Object.keys(track?.sampleDescriptions?.[0] || {})
-          throw new Error(
-            `Missing codec description (avcC/hvcC). codec=${track.codec}, trackKeys=${trackKeys.join(',')}, sampleDescriptionKeys=${sampleDescKeys.join(',')}`,
-          )
+        for (let i = nextSampleIndex; i < end; i++) {
+          const sample = samples[i]
+          if (!hasKeyframe) {
+            if (!sample.is_sync) continue
+            hasKeyframe = true
+          }
+          const start = sample.offset - first.offset
+          if (start + sample.size > bytes.byteLength) throw new Error(`Sample ${i} is past the end of the file.`)
+          const chunk = new EncodedVideoChunk({
+            type: sample.is_sync ? 'key' : 'delta',
+            timestamp: Math.round((sample.cts * 1e6) / timescale),
+            duration: Math.round((sample.duration * 1e6) / timescale),
+            data: bytes.subarray(start, start + sample.size),
+          })
+          activeDecoder.decode(chunk)
         }
-        decoder.configure({
-          codec: track.codec,
-          codedWidth: track.video?.width,
-          codedHeight: track.video?.height,
-          description,
-        })
+        nextSampleIndex = end
+      }
 
-        mp4boxfile.setExtractionOptions(track.id, null, { nbSamples: 1 })
-        mp4boxfile.start()
-        resolve()
-      } catch (err) {
-        reject(err)
+      if (!closed && generation === decodeGeneration && nextSampleIndex >= samples.length) {
+        isFlushing = true
+        // A seek resets the decoder, which rejects the flush without the video having ended
+        const onFlushed = () => {
+          if (generation === decodeGeneration) finishFrames()
+        }
+        activeDecoder.flush().then(onFlushed, onFlushed)
       }
+    } catch (err) {
+      log.error('[RendererPage] Failed to read video samples:', err)
+      if (generation === decodeGeneration) finishFrames()
     }
+  }
 
-    mp4boxfile.onError = (err: any) => reject(err)
+  // Called again whenever the export takes a frame or the decoder accepts a chunk. Only one read runs at a time.
+  const feedDecoder = () => {
+    if (feeding || isFlushing || isEnded || closed || !decoder) return
+    feeding = readSamples(decoder, decodeGeneration).finally(() => {
+      feeding = null
+    })
+  }
 
-    let hasKeyframe = false
-    mp4boxfile.onSamples = (_id: any, _user: any, samples: any[]) => {
-      if (!decoder) return
-      for (const sample of samples) {
-        if (!hasKeyframe) {
-          if (!sample.is_sync) continue
-          hasKeyframe = true
-        }
-        const timestamp = Math.round((sample.cts * 1e6) / timescale)
-        const duration = Math.round((sample.duration * 1e6) / timescale)
-        // @ts-ignore
-        const chunk = new EncodedVideoChunk({
-          type: sample.is_sync ? 'key' : 'delta',
-          timestamp,
-          duration,
-          data: sample.data,
-        })
-        decoder.decode(chunk)
+  const pullFrame = () =>
+    new Promise<VideoFrame | null>((resolve) => {
+      if (frameQueue.length > 0) {
+        resolve(frameQueue.shift()!)
+        feedDecoder()
+        return
+      }
+      if (closed || isEnded) return resolve(null)
+      waiters.push(resolve)
+    })
+
+  let isReady = false
+  let readyError: unknown = null
+  mp4boxfile.onReady = (info: Movie) => {
+    isReady = true
+    try {
+      const track = info.videoTracks?.[0]
+      if (!track) throw new Error('No video track found in MP4')
+      // Samples of a fragmented MP4 are listed in boxes spread over the file, past the header read here.
+      // Such files, imported before imports were remuxed, are decoded by FFmpeg instead.
+      if (info.isFragmented) throw new Error('Fragmented MP4 is not supported by the streaming demuxer')
+      timescale = track.timescale || 1
+      samples = mp4boxfile.getTrackSamplesInfo(track.id) ?? []
+      keyframes = samples
+        .map((sample, sampleIndex) => ({ sample, sampleIndex }))
+        .filter(({ sample }) => sample.is_sync)
+        .map(({ sample, sampleIndex }) => ({ sampleIndex, timestampUs: Math.round((sample.cts * 1e6) / timescale) }))
+        .sort((a, b) => a.timestampUs - b.timestampUs)
+
+      decoder = new VideoDecoder({
+        output: (frame: VideoFrame) => pushFrame(frame),
+        error: (err) => log.error('[RendererPage] VideoDecoder error:', err),
+      })
+      decoder.ondequeue = () => feedDecoder()
+
+      const description = getDecoderDescription(track, mp4boxfile)
+      const isAvc = typeof track?.codec === 'string' && (track.codec.startsWith('avc1') || track.codec.startsWith('avc3'))
+      const isHevc = typeof track?.codec === 'string' && (track.codec.startsWith('hvc1') || track.codec.startsWith('hev1'))
+      if ((isAvc || isHevc) && !description) {
+        const trackKeys = Object.keys(track || {})
+        const sampleEntry = mp4boxfile.getTrackById(track.id)?.mdia?.minf?.stbl?.stsd?.entries?.[0]
+        throw new Error(
+          `Missing codec description (avcC/hvcC). codec=${track.codec}, trackKeys=${trackKeys.join(',')}, sampleEntry=${sampleEntry?.type}`,
+        )
+      }
+      decoderConfig = {
+        codec: track.codec,
+        codedWidth: track.video?.width,
+        codedHeight: track.video?.height,
+        description,
       }
+      decoder.configure(decoderConfig)
+    } catch (err) {
+      readyError = err
     }
-  })
+  }
+
+  mp4boxfile.onError = (module: string, message: string) => {
+    readyError = new Error(`${module}: ${message}`)
+  }
 
   try {
-    const buffer = await window.electronAPI.readFileBuffer(videoPath)
-    const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
-    ;(arrayBuffer as any).fileStart = 0
-    mp4boxfile.appendBuffer(arrayBuffer)
-    await ready
-    mp4boxfile.flush()
-    decoder?.flush().finally(() => {
-      closed = true
-      while (waiters.length > 0) {
-        const waiter = waiters.shift()
-        if (waiter) waiter(null)
-      }
-    })
+    // Only the header goes through MP4Box. It tells where to read next, e.g. past the media data to a header at the
+    // end of the file. Sample data is then read directly by feedDecoder, so it is never held in memory as a whole.
+    let offset = 0
+    while (!isReady && !readyError) {
+      const bytes = await window.electronAPI.readFileRange(videoPath, offset, HEADER_READ_BYTES)
+      if (bytes.byteLength === 0) throw new Error('No movie header (moov) found in MP4')
+      const arrayBuffer = new MP4Box.MP4BoxBuffer(bytes.byteLength)
+      new Uint8Array(arrayBuffer).set(bytes)
+      arrayBuffer.fileStart = offset
+      const nextOffset = mp4boxfile.appendBuffer(arrayBuffer)
+      offset = nextOffset > offset ? nextOffset : offset + bytes.byteLength
+    }
+    if (readyError) throw readyError
+    feedDecoder()
   } catch (e) {
     log.warn('[RendererPage] Failed to initialize MP4Box/VideoDecoder:', e)
     try {
@@ -220,9 +319,57 @@ async function createVideoFrameProvider(videoPath: string): Promise<VideoFramePr
     throw e instanceof Error ? e : new Error('Failed to initialize MP4Box/VideoDecoder.')
   }
 
+  // The last keyframe at or before the given time, or the first one for times before it
+  const findKeyframe = (timestampUs: number) => {
+    let low = 0
+    let high = keyframes.length - 1
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2)
+      if (keyframes[middle].timestampUs <= timestampUs) low = middle
+      else high = middle - 1
+    }
+    return keyframes[low] ?? null
+  }
+
+  const discardFrames = () => {
+    while (frameQueue.length > 0) {
+      const frame = frameQueue.shift()
+      frame?.close()
+    }
+    if (lastFrame) lastFrame.close()
+    if (nextFrame && nextFrame !== lastFrame) nextFrame.close()
+    lastFrame = null
+    nextFrame = null
+  }
+
+  const seek = async (timeSec: number) => {
+    const keyframe = findKeyframe(Math.round(timeSec * 1e6))
+    if (!keyframe || closed || !decoder || !decoderConfig || decoder.state === 'closed') return
+
+    decodeGeneration++
+    await feeding
+    if (closed) return
+    // Drops the chunks and frames still in the decoder, which then needs its configuration again
+    decoder.reset()
+    decoder.configure(decoderConfig)
+    discardFrames()
+    nextSampleIndex = keyframe.sampleIndex
+    hasKeyframe = true
+    isFlushing = false
+    isEnded = false
+    feedDecoder()
+  }
+
   const getFrameForTime = async (timeSec: number): Promise<VideoFrame | null> => {
     const targetUs = Math.round(timeSec * 1e6)
 
+    // Frames before the shown one are gone, and samples up to a keyframe that has not been sent to the decoder
+    // yet would only be decoded to be thrown away
+    const keyframe = findKeyframe(targetUs)
+    if ((lastFrame && targetUs < lastFrame.timestamp) || (keyframe && keyframe.sampleIndex > nextSampleIndex)) {
+      await seek(timeSec)
+    }
+
     if (!nextFrame) {
       nextFrame = await pullFrame()
     }
@@ -238,19 +385,61 @@ async function createVideoFrameProvider(videoPath: string): Promise<VideoFramePr
 
   const close = () => {
     closed = true
-    while (frameQueue.length > 0) {
-      const frame = frameQueue.shift()
-      frame?.close()
-    }
-    if (lastFrame) lastFrame.close()
-    if (nextFrame && nextFrame !== lastFrame) nextFrame.close()
+    discardFrames()
     if (decoder && decoder.state !== 'closed') decoder.close()
     if (typeof mp4boxfile.stop === 'function') mp4boxfile.stop()
   }
 
-  return { getFrameForTime, close }
+  return { getFrameForTime, seek, close }
 }
 
+/**
+ * Reads frames that FFmpeg decodes in the main process, for systems where WebCodecs cannot decode the recording.
+ * FFmpeg only reads the video forward, so going back, or far ahead, starts a new decoder at that time.
+ */
+async function createSoftwareFrameProvider(videoPath: string, maxHeight: number): Promise<VideoFrameProvider> {
+  const { id, width, height } = await window.electronAPI.openExportDecoder(videoPath, maxHeight)
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    window.electronAPI.closeExportDecoder(id)
+    throw new Error('Failed to get 2D context for decoded frames.')
+  }
+  let decoderId = id
+  // Time of the last frame asked for
+  let position = 0
+  let hasFrame = false
+
+  const seek = async (timeSec: number) => {
+    const startTime = Math.max(0, timeSec)
+    window.electronAPI.closeExportDecoder(decoderId)
+    decoderId = (await window.electronAPI.openExportDecoder(videoPath, maxHeight, startTime)).id
+    position = startTime
+  }
+
+  const getFrameForTime = async (timeSec: number): Promise<ExportFrame | null> => {
+    const time = Math.max(0, timeSec)
+    if (time < position || time - position > SOFTWARE_SEEK_AHEAD_SEC) await seek(time)
+    position = time
+
+    // Null means the frame has not changed since the last call
+    const pixels = await window.electronAPI.readExportDecoderFrame(decoderId, time)
+    if (pixels) {
+      const data = new Uint8ClampedArray(pixels.buffer as ArrayBuffer, pixels.byteOffset, pixels.byteLength)
+      ctx.putImageData(new ImageData(data, width, height), 0, 0)
+      hasFrame = true
+    }
+    return hasFrame ? canvas : null
+  }
+
+  return { getFrameForTime, seek, close: () => window.electronAPI.closeExportDecoder(decoderId) }
+}
+
+const getFrameSize = (frame: ExportFrame) =>
+  frame instanceof OffscreenCanvas
+    ? { width: frame.width, height: frame.height }
+    : { width: frame.displayWidth || frame.codedWidth, height: frame.displayHeight || frame.codedHeight }
+
 // These are needed to regenerate bitmaps within the renderer worker context.
 async function prepareWindowsCursorBitmaps(theme: CursorTheme, scale: number): Promise<Map<string, CursorImageBitmap>> {
   const bitmapMap = new Map<string, CursorImageBitmap>()
@@ -347,7 +536,8 @@ export function RendererPage() {
   useEffect(() => {
     log.info('[RendererPage] Component mounted. Setting up listeners.')
 
-    const cleanup = window.electronAPI.onRenderStart(async ({ projectState, exportSettings }: RenderStartPayload) => {
+    const cleanup = window.electronAPI.onRenderStart(async (payload: RenderStartPayload) => {
+      const { projectState, exportSettings, segment } = payload
       const canvas = canvasRef.current
       const video = videoRef.current
       const webcamVideo = webcamVideoRef.current
@@ -355,7 +545,7 @@ export function RendererPage() {
       let webcamFrameProvider: VideoFrameProvider | null = null
 
       try {
-        log.info('[RendererPage] Received "render:start" event.', { exportSettings })
+        log.info('[RendererPage] Received "render:start" event.', { exportSettings, segment })
         if (!canvas || !video) throw new Error('Canvas or Video ref is not available.')
 
         // --- 1. SETUP CANVAS AND CONTEXT ---
@@ -391,7 +581,8 @@ export function RendererPage() {
         const projectStateWithCursorBitmaps = { ...projectState, cursorBitmapsToRender: finalCursorBitmaps }
         const bgImage = await loadBackgroundImage(projectState.frameStyles.background)
 
-        // --- 2.5 SETUP VIDEO DECODER (Optimization) ---
+        // --- 2.5 SETUP VIDEO DECODER ---
+        // WebCodecs decodes on the GPU. Without it, e.g. on build agents and VMs, FFmpeg decodes in the main process.
         frameProvider = null
         webcamFrameProvider = null
         const isSecure = typeof window !== 'undefined' ? window.isSecureContext : false
@@ -404,33 +595,27 @@ export function RendererPage() {
           hasVideoEncoder,
           ua,
         })
-        if (!hasVideoDecoder) {
-          throw new Error(
-            `WebCodecs VideoDecoder is unavailable (secureContext=${isSecure}, hasVideoDecoder=${hasVideoDecoder}, hasVideoEncoder=${hasVideoEncoder}, ua=${ua}). Export requires decoder-only mode.`,
-          )
-        }
+        const { videoPath, webcamVideoPath } = projectStateWithCursorBitmaps
+        if (!videoPath) throw new Error('The project has no video to export.')
+        let decoder: ExportPipeline['decoder'] = 'webcodecs'
         try {
-          if (projectStateWithCursorBitmaps.videoPath) {
-            frameProvider = await createVideoFrameProvider(projectStateWithCursorBitmaps.videoPath)
-            if (frameProvider) log.info('[RendererPage] Using WebCodecs VideoDecoder for main video.')
-          }
-          if (projectStateWithCursorBitmaps.webcamVideoPath) {
-            webcamFrameProvider = await createVideoFrameProvider(projectStateWithCursorBitmaps.webcamVideoPath)
-            if (webcamFrameProvider) log.info('[RendererPage] Using WebCodecs VideoDecoder for webcam video.')
-          }
+          if (!hasVideoDecoder) throw new Error(`WebCodecs VideoDecoder is unavailable (secureContext=${isSecure}).`)
+          frameProvider = await createVideoFrameProvider(videoPath)
+          if (webcamVideoPath) webcamFrameProvider = await createVideoFrameProvider(webcamVideoPath)
+          // A decoder that accepts the stream can still fail on its first frame
+          if (!(await frameProvider.getFrameForTime(0))) throw new Error('VideoDecoder returned no frames.')
+          log.info('[RendererPage] Using WebCodecs VideoDecoder.')
         } catch (e) {
-          const msg = e instanceof Error ? e.message : 'Unknown decoder initialization error'
-          throw new Error(
-            `Decoder initialization failed (secureContext=${isSecure}, hasVideoDecoder=${hasVideoDecoder}, ua=${ua}): ${msg}`,
-          )
+          log.warn('[RendererPage] Falling back to FFmpeg decoding:', e instanceof Error ? e.message : e)
+          frameProvider?.close()
+          webcamFrameProvider?.close()
+          webcamFrameProvider = null
+          decoder = 'ffmpeg'
+          frameProvider = await createSoftwareFrameProvider(videoPath, outputHeight)
+          if (webcamVideoPath) webcamFrameProvider = await createSoftwareFrameProvider(webcamVideoPath, outputHeight)
         }
         const useDecoder = Boolean(frameProvider)
         const useWebcamDecoder = Boolean(webcamFrameProvider)
-        if (!useDecoder) {
-          throw new Error(
-            `WebCodecs VideoDecoder is unavailable (secureContext=${isSecure}, hasVideoDecoder=${hasVideoDecoder}, ua=${ua}). Export requires decoder-only mode.`,
-          )
-        }
 
         // --- 3. LOAD VIDEO SOURCES ---
         const loadVideo = (videoElement: HTMLVideoElement, source: string, path: string): Promise<void> =>
@@ -454,13 +639,24 @@ export function RendererPage() {
 
         const mainDuration = video.duration || projectState.duration
         const webcamDuration = hasWebcam && webcamVideo ? webcamVideo.duration : 0
+        // Recordings without measured capture times can only be lined up by stretching the webcam to the video.
+        // Recordings that store how the webcam was captured keep its real frame timing and are never stretched.
+        const { syncSegments, trackOffsets, webcamCapture } = projectState
         const webcamTimeScale =
-          hasWebcam && webcamDuration > 0 && mainDuration > 0 ? webcamDuration / mainDuration : 1
+          !syncSegments && !webcamCapture && hasWebcam && webcamDuration > 0 && mainDuration > 0
+            ? webcamDuration / mainDuration
+            : 1
+        const getWebcamTime = (time: number) =>
+          syncSegments
+            ? getTrackTime(time, 'webcam', syncSegments, trackOffsets?.webcam)
+            : time * webcamTimeScale - (trackOffsets?.webcam ?? 0)
         if (hasWebcam) {
           log.info('[RendererPage] Webcam timing sync', {
             mainDuration,
             webcamDuration,
             webcamTimeScale,
+            webcamCapture,
+            syncSegments,
           })
         }
 
@@ -474,12 +670,18 @@ export function RendererPage() {
         })
         exportDuration = Math.max(0, exportDuration)
         const totalFrames = Math.floor(exportDuration * fps)
+        // Every worker computes the same frame count, so the segments line up without gaps or overlaps
+        const segmentIndex = segment?.index ?? 0
+        const segmentCount = segment?.count ?? 1
+        const startFrame = Math.floor((totalFrames * segmentIndex) / segmentCount)
+        const endFrame = Math.floor((totalFrames * (segmentIndex + 1)) / segmentCount)
+        const segmentFrames = endFrame - startFrame
         log.info(
-          `[RendererPage] Starting seek-driven rendering. Total frames: ${totalFrames}, Export duration: ${exportDuration.toFixed(2)}s`,
+          `[RendererPage] Starting seek-driven rendering. Total frames: ${totalFrames}, Export duration: ${exportDuration.toFixed(2)}s, Segment ${segmentIndex + 1}/${segmentCount}: frames ${startFrame}-${endFrame}`,
         )
 
         // --- SETUP ENCODER (Optimization) ---
-        let videoEncoder: any = null
+        let videoEncoder: VideoEncoder | null = null
         let lastProgress = 0
         const useHardwareEncoding = exportSettings.format === 'mp4' && 'VideoEncoder' in window
 
@@ -509,26 +711,37 @@ export function RendererPage() {
           const targetBitrate = calculateBitrate(exportSettings.resolution, exportSettings.quality, fps)
           log.info(`[RendererPage] Configured encoder bitrate: ${(targetBitrate / 1_000_000).toFixed(2)} Mbps`)
 
-          videoEncoder = new (window as any).VideoEncoder({
-            output: (chunk: any) => {
-              const buffer = new ArrayBuffer(chunk.byteLength)
-              chunk.copyTo(buffer)
-              window.electronAPI.sendFrameToMain({ frame: Buffer.from(buffer), progress: lastProgress })
-            },
-            error: (e: any) => log.error('[RendererPage] Encoder error:', e),
-          })
-
-          videoEncoder.configure({
+          const encoderConfig: VideoEncoderConfig = {
             codec: 'avc1.420033', // H.264 Baseline Profile Level 5.1
             width: outputWidth,
             height: outputHeight,
             bitrate: targetBitrate,
             framerate: fps,
             avc: { format: 'annexb' },
-          })
+          }
+          // Builds without a hardware or OpenH264 encoder expose VideoEncoder but cannot encode H.264
+          const support = await VideoEncoder.isConfigSupported(encoderConfig).catch(() => null)
+          if (support?.supported) {
+            videoEncoder = new VideoEncoder({
+              output: (chunk: EncodedVideoChunk, _metadata?: EncodedVideoChunkMetadata) => {
+                const buffer = new ArrayBuffer(chunk.byteLength)
+                chunk.copyTo(buffer)
+                window.electronAPI.sendFrameToMain({ frame: Buffer.from(buffer), progress: lastProgress })
+              },
+              error: (e: DOMException) => log.error('[RendererPage] Encoder error:', e),
+            })
+            videoEncoder.configure(encoderConfig)
+          } else {
+            log.warn('[RendererPage] VideoEncoder cannot encode H.264 here, falling back to libx264.')
+          }
         }
 
-        for (let frame = 0; frame < totalFrames; frame++) {
+        // Main starts FFmpeg for the frames it is about to receive
+        const pipeline: ExportPipeline = { decoder, encoder: videoEncoder ? 'webcodecs' : 'ffmpeg' }
+        log.info('[RendererPage] Export pipeline', pipeline)
+        window.electronAPI.setExportPipeline(pipeline)
+
+        for (let frame = startFrame; frame < endFrame; frame++) {
           // Backpressure handling to prevent hanging on slower systems
           if (videoEncoder && videoEncoder.encodeQueueSize > 2) {
             // Wait for the queue to drain
@@ -537,7 +750,7 @@ export function RendererPage() {
             }
           }
 
-          lastProgress = Math.min(99, ((frame + 1) / totalFrames) * 100)
+          lastProgress = Math.min(99, ((frame - startFrame + 1) / segmentFrames) * 100)
           const exportTimestamp = frame / fps
           const sourceTimestamp = mapExportTimeToSourceTime(
             exportTimestamp,
@@ -546,8 +759,8 @@ export function RendererPage() {
             projectState.speedRegions,
           )
 
-          let mainFrame: VideoFrame | null = null
-          let webcamFrame: VideoFrame | null = null
+          let mainFrame: ExportFrame | null = null
+          let webcamFrame: ExportFrame | null = null
 
           if (useDecoder && frameProvider) {
             mainFrame = await frameProvider.getFrameForTime(sourceTimestamp)
@@ -558,7 +771,7 @@ export function RendererPage() {
           if (hasWebcam && webcamVideo) {
             const webcamTimestamp = Math.max(
               0,
-              Math.min(sourceTimestamp * webcamTimeScale, Math.max(0, webcamDuration - 1 / fps)),
+              Math.min(getWebcamTime(sourceTimestamp), Math.max(0, webcamDuration - 1 / fps)),
             )
             if (useWebcamDecoder && webcamFrameProvider) {
               webcamFrame = await webcamFrameProvider.getFrameForTime(webcamTimestamp)
@@ -574,12 +787,7 @@ export function RendererPage() {
           const webcamFrameToUse = webcamFrame ?? webcamVideo
 
           // Now that videos are at the correct time, draw the scene
-          const webcamFrameDimensions = webcamFrame
-            ? {
-                width: (webcamFrame as any).displayWidth || (webcamFrame as any).codedWidth,
-                height: (webcamFrame as any).displayHeight || (webcamFrame as any).codedHeight,
-              }
-            : undefined
+          const webcamFrameDimensions = webcamFrame ? getFrameSize(webcamFrame) : undefined
 
           await drawScene(
             ctx,
@@ -594,18 +802,18 @@ export function RendererPage() {
           )
 
           if (videoEncoder) {
-            const timestamp = (frame / fps) * 1e6
-            // @ts-ignore
+            // Each segment is a video of its own, starting at zero with a keyframe
+            const segmentFrame = frame - startFrame
+            const timestamp = (segmentFrame / fps) * 1e6
             const vFrame = new VideoFrame(canvas, { timestamp })
-            const keyFrame = frame % (fps * 2) === 0
+            const keyFrame = segmentFrame % (fps * 2) === 0
             videoEncoder.encode(vFrame, { keyFrame })
             vFrame.close()
           } else {
             // Send the rendered frame to the main process
             const imageData = ctx.getImageData(0, 0, outputWidth, outputHeight)
             const frameBuffer = Buffer.from(imageData.data.buffer)
-            const progress = Math.min(99, ((frame + 1) / totalFrames) * 100)
-            window.electronAPI.sendFrameToMain({ frame: frameBuffer, progress })
+            window.electronAPI.sendFrameToMain({ frame: frameBuffer, progress: lastProgress })
           }
         }
 
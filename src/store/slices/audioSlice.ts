@@ -4,6 +4,15 @@ import { DEFAULTS } from '../../lib/constants'
 export const initialAudioState: AudioState = {
   volume: DEFAULTS.AUDIO.VOLUME.defaultValue,
   isMuted: DEFAULTS.AUDIO.MUTED.defaultValue,
+  trackVolumes: {
+    mic: DEFAULTS.AUDIO.TRACK_VOLUME.defaultValue,
+    system: DEFAULTS.AUDIO.TRACK_VOLUME.defaultValue,
+  },
+  trackOffsets: {
+    webcam: DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue,
+    mic: DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue,
+    system: DEFAULTS.AUDIO.TRACK_OFFSET.defaultValue,
+  },
 }
 
 export const createAudioSlice: Slice<AudioState, AudioActions> = (set) => ({
@@ -28,4 +37,15 @@ export const createAudioSlice: Slice<AudioState, AudioActions> = (set) => ({
       state.isMuted = isMuted
     })
   },
+  setTrackVolume: (track, volume) => {
+    set((state) => {
+      state.trackVolumes[track] = Math.max(0, Math.min(1, volume))
+    })
+  },
+  setTrackOffset: (track, offset) => {
+    set((state) => {
+      const { min, max } = DEFAULTS.AUDIO.TRACK_OFFSET
+      state.trackOffsets[track] = Math.max(min, Math.min(max, offset))
+    })
+  },
 })
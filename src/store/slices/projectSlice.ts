@@ -6,8 +6,11 @@ import type {
   VideoDimensions,
   CursorTheme,
   CursorImageBitmap,
+  EditorState,
+  ProjectEditorState,
 } from '../../types'
-import type { MetaDataItem, ZoomRegion, CursorFrame } from '../../types'
+import type { MetaDataItem, KeystrokeItem, RecordingMarker, ZoomRegion, CursorFrame } from '../../types'
+import type { SyncSegment, SyncTrack, TrackSync } from '../../types'
 import { ZOOM } from '../../lib/constants'
 import { initialFrameState, recalculateCanvasDimensions } from './frameSlice'
 import { prepareCursorBitmaps } from '../../lib/utils'
@@ -18,22 +21,83 @@ export const initialProjectState: ProjectState = {
   videoUrl: null,
   audioPath: null,
   audioUrl: null,
+  systemAudioPath: null,
+  systemAudioUrl: null,
   videoDimensions: { width: 0, height: 0 },
   recordingGeometry: null,
   screenSize: null,
   canvasDimensions: { width: 0, height: 0 },
   metadata: [],
+  keystrokes: [],
+  markers: [],
   duration: 0,
   cursorImages: {},
   cursorBitmapsToRender: new Map<string, CursorImageBitmap>(),
-  syncOffset: 0,
+  syncSegments: null,
+  webcamCapture: null,
   platform: null,
   cursorTheme: null,
   hasAudioTrack: false,
+  projectPath: null,
 }
 
 /**
- * Generates automatic zoom regions based on click events from metadata.
+ * Restores the editor state saved in a project file on top of the freshly loaded recording.
+ * Style objects are merged so that fields added after the project was saved keep their defaults.
+ */
+function applyProjectEditorState(state: EditorState, saved: Partial<ProjectEditorState>) {
+  if (saved.frameStyles) state.frameStyles = { ...state.frameStyles, ...saved.frameStyles }
+  if (saved.aspectRatio) state.aspectRatio = saved.aspectRatio
+  if (saved.cutRegions) state.cutRegions = saved.cutRegions
+  if (saved.speedRegions) state.speedRegions = saved.speedRegions
+  if (saved.webcamPosition) state.webcamPosition = saved.webcamPosition
+  if (saved.webcamStyles) state.webcamStyles = { ...state.webcamStyles, ...saved.webcamStyles }
+  if (saved.isWebcamVisible !== undefined) state.isWebcamVisible = saved.isWebcamVisible && !!state.webcamVideoUrl
+  if (saved.cursorThemeName) state.cursorThemeName = saved.cursorThemeName
+  if (saved.cursorStyles) state.cursorStyles = { ...state.cursorStyles, ...saved.cursorStyles }
+  if (saved.keystrokeStyles) state.keystrokeStyles = { ...state.keystrokeStyles, ...saved.keystrokeStyles }
+  if (saved.volume !== undefined) state.volume = saved.volume
+  if (saved.isMuted !== undefined) state.isMuted = saved.isMuted
+  if (saved.trackVolumes) state.trackVolumes = { ...state.trackVolumes, ...saved.trackVolumes }
+  if (saved.trackOffsets) state.trackOffsets = { ...state.trackOffsets, ...saved.trackOffsets }
+}
+
+/**
+ * Converts a segment of the metadata's sync data from milliseconds to seconds.
+ */
+function syncSegmentToSeconds(segment: SyncSegment): SyncSegment {
+  const tracks: SyncSegment['tracks'] = {}
+  for (const [track, trackSync] of Object.entries(segment.tracks) as [SyncTrack, TrackSync][]) {
+    tracks[track] = { start: trackSync.start / 1000, offset: trackSync.offset / 1000 }
+  }
+  return { start: segment.start / 1000, duration: segment.duration / 1000, tracks }
+}
+
+/**
+ * Splits the scroll events into sequences of steps that follow each other closely,
+ * keeping only the sequences long enough to be a focus segment of their own.
+ */
+function findScrollSequences(metadata: MetaDataItem[]): MetaDataItem[][] {
+  const sequences: MetaDataItem[][] = []
+  let current: MetaDataItem[] = []
+  for (const item of metadata) {
+    if (item.type !== 'scroll') continue
+    if (current.length > 0 && item.timestamp - current[current.length - 1].timestamp >= ZOOM.AUTO_ZOOM_SCROLL_GAP) {
+      sequences.push(current)
+      current = []
+    }
+    current.push(item)
+  }
+  if (current.length > 0) sequences.push(current)
+
+  return sequences.filter(
+    (sequence) => sequence[sequence.length - 1].timestamp - sequence[0].timestamp >= ZOOM.AUTO_ZOOM_MIN_SCROLL_DURATION,
+  )
+}
+
+/**
+ * Generates automatic zoom regions based on click and scroll events from metadata.
+ * Long scroll sequences get their own region; clicks made while scrolling belong to it.
  * @param metadata - The array of mouse events.
  * @param videoDimensions - The dimensions of the video.
  * @returns A record of new ZoomRegion objects.
@@ -43,14 +107,24 @@ function generateAutoZoomRegions(
   recordingGeometry: RecordingGeometry,
   videoDimensions: VideoDimensions,
 ): Record<string, ZoomRegion> {
-  const clicks = metadata.filter((item) => item.type === 'click' && item.pressed)
-  if (clicks.length === 0) return {}
+  const scrollSequences = findScrollSequences(metadata)
+  const isDuringScrollSequence = (item: MetaDataItem) =>
+    scrollSequences.some(
+      (sequence) =>
+        item.timestamp >= sequence[0].timestamp && item.timestamp <= sequence[sequence.length - 1].timestamp,
+    )
+  const clicks = metadata.filter((item) => item.type === 'click' && item.pressed && !isDuringScrollSequence(item))
 
   const mergedClickGroups: MetaDataItem[][] = []
   if (clicks.length > 0) {
     let currentGroup = [clicks[0]]
     for (let i = 1; i < clicks.length; i++) {
-      if (clicks[i].timestamp - currentGroup[currentGroup.length - 1].timestamp < ZOOM.AUTO_ZOOM_MIN_DURATION) {
+      const previous = currentGroup[currentGroup.length - 1]
+      // A scroll sequence between two clicks ends the group
+      const isSplitByScroll = scrollSequences.some(
+        (sequence) => sequence[0].timestamp > previous.timestamp && sequence[0].timestamp < clicks[i].timestamp,
+      )
+      if (clicks[i].timestamp - previous.timestamp < ZOOM.AUTO_ZOOM_MIN_DURATION && !isSplitByScroll) {
         currentGroup.push(clicks[i])
       } else {
         mergedClickGroups.push(currentGroup)
@@ -60,31 +134,43 @@ function generateAutoZoomRegions(
     mergedClickGroups.push(currentGroup)
   }
 
-  const geometry = recordingGeometry || videoDimensions
+  const focusGroups = [
+    ...mergedClickGroups.map((events) => ({ events, zoomLevel: ZOOM.DEFAULT_LEVEL })),
+    ...scrollSequences.map((events) => ({ events, zoomLevel: ZOOM.AUTO_ZOOM_SCROLL_LEVEL })),
+  ].sort((a, b) => a.events[0].timestamp - b.events[0].timestamp)
+  if (focusGroups.length === 0) return {}
 
-  return mergedClickGroups.reduce(
-    (acc, group, index) => {
-      const firstClick = group[0]
-      const lastClick = group[group.length - 1]
+  const geometry = recordingGeometry || videoDimensions
+  const regions = focusGroups.map(({ events, zoomLevel }) => {
+    const firstEvent = events[0]
+    const lastEvent = events[events.length - 1]
+    const startTime = Math.max(0, firstEvent.timestamp - ZOOM.AUTO_ZOOM_PRE_CLICK_OFFSET)
+    const endTime = lastEvent.timestamp + ZOOM.AUTO_ZOOM_POST_CLICK_PADDING
+    return {
+      startTime,
+      duration: Math.max(endTime - startTime, ZOOM.AUTO_ZOOM_MIN_DURATION),
+      zoomLevel,
+      // Scrolling moves the content under a mostly still pointer, so its first position is the focus
+      targetX: firstEvent.x / geometry.width - 0.5,
+      targetY: firstEvent.y / geometry.height - 0.5,
+    }
+  })
 
-      const startTime = Math.max(0, firstClick.timestamp - ZOOM.AUTO_ZOOM_PRE_CLICK_OFFSET)
-      const endTime = lastClick.timestamp + ZOOM.AUTO_ZOOM_POST_CLICK_PADDING
-      let duration = endTime - startTime
-      if (duration < ZOOM.AUTO_ZOOM_MIN_DURATION) {
-        duration = ZOOM.AUTO_ZOOM_MIN_DURATION
-      }
+  // Click and scroll regions may now overlap; each region ends where the next one starts
+  for (let i = 0; i < regions.length - 1; i++) {
+    const gap = regions[i + 1].startTime - regions[i].startTime
+    if (gap > 0 && regions[i].duration > gap) regions[i].duration = gap
+  }
 
+  return regions.reduce(
+    (acc, region, index) => {
       const id = `auto-zoom-${Date.now()}-${index}`
       acc[id] = {
         id,
         type: 'zoom',
-        startTime,
-        duration,
-        zoomLevel: ZOOM.DEFAULT_LEVEL,
+        ...region,
         easing: ZOOM.DEFAULT_EASING,
         transitionDuration: ZOOM.SPEED_OPTIONS[ZOOM.DEFAULT_SPEED as keyof typeof ZOOM.SPEED_OPTIONS],
-        targetX: firstClick.x / geometry.width - 0.5,
-        targetY: firstClick.y / geometry.height - 0.5,
         mode: 'auto',
         zIndex: 0,
       }
@@ -173,7 +259,15 @@ async function prepareMacOSCursorBitmaps(theme: CursorTheme, scale: number): Pro
 
 export const createProjectSlice: Slice<ProjectState, ProjectActions> = (set, get) => ({
   ...initialProjectState,
-  loadProject: async ({ videoPath, metadataPath, webcamVideoPath, audioPath }) => {
+  loadProject: async ({
+    videoPath,
+    metadataPath,
+    webcamVideoPath,
+    audioPath,
+    systemAudioPath,
+    projectPath,
+    editorState,
+  }) => {
     // Always use media:// protocol for video, webcam, and audio URLs (revert to original logic)
     const toUrl = (path: string | null | undefined) => {
       if (!path) return null;
@@ -182,6 +276,7 @@ export const createProjectSlice: Slice<ProjectState, ProjectActions> = (set, get
     const videoUrl = toUrl(videoPath);
     const webcamVideoUrl = toUrl(webcamVideoPath);
     const audioUrl = toUrl(audioPath);
+    const systemAudioUrl = toUrl(systemAudioPath);
 
     get().resetProjectState() // Clear previous project data first
 
@@ -204,7 +299,13 @@ export const createProjectSlice: Slice<ProjectState, ProjectActions> = (set, get
       state.isWebcamVisible = !!webcamVideoUrl
       state.audioPath = audioPath || null
       state.audioUrl = audioUrl
-      state.hasAudioTrack = !!audioUrl
+      state.systemAudioPath = systemAudioPath || null
+      state.systemAudioUrl = systemAudioUrl
+      state.hasAudioTrack = !!audioUrl || !!systemAudioUrl
+      state.projectPath = projectPath || null
+      if (editorState) {
+        applyProjectEditorState(state, editorState)
+      }
     })
 
     try {
@@ -215,16 +316,30 @@ export const createProjectSlice: Slice<ProjectState, ProjectActions> = (set, get
         ...item,
         timestamp: item.timestamp / 1000,
       }))
+      const keystrokes = (parsedData.keystrokes || []).map((item: KeystrokeItem) => ({
+        ...item,
+        timestamp: item.timestamp / 1000,
+      }))
+      const markers = (parsedData.markers || []).map((marker: RecordingMarker) => ({
+        ...marker,
+        timestamp: marker.timestamp / 1000,
+      }))
+      const syncSegments = parsedData.sync?.segments?.map(syncSegmentToSeconds) ?? null
 
-      const newZoomRegions = generateAutoZoomRegions(processedMetadata, parsedData.geometry, get().videoDimensions)
+      // A saved project keeps its own zoom regions, even when the user deleted all of them
+      const newZoomRegions =
+        editorState?.zoomRegions ?? generateAutoZoomRegions(processedMetadata, parsedData.geometry, get().videoDimensions)
 
       const platform = parsedData.platform || (await window.electronAPI.getPlatform())
       set((state) => {
         state.platform = platform
         state.metadata = processedMetadata
+        state.keystrokes = keystrokes
+        state.markers = markers
         state.recordingGeometry = parsedData.geometry || null
         state.screenSize = parsedData.screenSize || null
-        state.syncOffset = parsedData.syncOffset || 0
+        state.syncSegments = syncSegments
+        state.webcamCapture = parsedData.webcam || null
         state.zoomRegions = newZoomRegions
         recalculateCanvasDimensions(state)
       })
@@ -263,6 +378,30 @@ export const createProjectSlice: Slice<ProjectState, ProjectActions> = (set, get
       console.error('Failed to process metadata file:', error)
     }
   },
+  setProjectPath: (projectPath) =>
+    set((state) => {
+      state.projectPath = projectPath
+    }),
+  getProjectEditorState: () => {
+    const state = get()
+    return {
+      frameStyles: state.frameStyles,
+      aspectRatio: state.aspectRatio,
+      zoomRegions: state.zoomRegions,
+      cutRegions: state.cutRegions,
+      speedRegions: state.speedRegions,
+      webcamPosition: state.webcamPosition,
+      webcamStyles: state.webcamStyles,
+      isWebcamVisible: state.isWebcamVisible,
+      cursorThemeName: state.cursorThemeName,
+      cursorStyles: state.cursorStyles,
+      keystrokeStyles: state.keystrokeStyles,
+      volume: state.volume,
+      isMuted: state.isMuted,
+      trackVolumes: state.trackVolumes,
+      trackOffsets: state.trackOffsets,
+    }
+  },
   setVideoDimensions: (dims) =>
     set((state) => {
       state.videoDimensions = dims
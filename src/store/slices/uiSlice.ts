@@ -1,4 +1,4 @@
-import type { UIState, UIActions, Slice, CursorStyles, SidePanelTab } from '../../types'
+import type { UIState, UIActions, Slice, CursorStyles, KeystrokeStyles, SidePanelTab } from '../../types'
 import { DEFAULTS } from '../../lib/constants'
 
 const initialCursorStyles: CursorStyles = {
@@ -15,6 +15,17 @@ const initialCursorStyles: CursorStyles = {
   clickScaleAmount: DEFAULTS.CURSOR.CLICK_SCALE.AMOUNT.defaultValue,
   clickScaleDuration: DEFAULTS.CURSOR.CLICK_SCALE.DURATION.defaultValue,
   clickScaleEasing: DEFAULTS.CURSOR.CLICK_SCALE.EASING.defaultValue,
+  scrollIndicator: DEFAULTS.CURSOR.SCROLL_INDICATOR.ENABLED.defaultValue,
+  scrollIndicatorSize: DEFAULTS.CURSOR.SCROLL_INDICATOR.SIZE.defaultValue,
+}
+
+const initialKeystrokeStyles: KeystrokeStyles = {
+  showKeystrokes: DEFAULTS.KEYSTROKES.SHOW_KEYSTROKES.defaultValue,
+  position: DEFAULTS.KEYSTROKES.POSITION.defaultValue,
+  size: DEFAULTS.KEYSTROKES.SIZE.defaultValue,
+  theme: DEFAULTS.KEYSTROKES.THEME.defaultValue,
+  displayDuration: DEFAULTS.KEYSTROKES.DISPLAY_DURATION.defaultValue,
+  fadeDuration: DEFAULTS.KEYSTROKES.FADE_DURATION.defaultValue,
 }
 
 export const initialUIState: UIState = {
@@ -22,6 +33,7 @@ export const initialUIState: UIState = {
   isPreviewFullScreen: false,
   cursorThemeName: 'default',
   cursorStyles: initialCursorStyles,
+  keystrokeStyles: initialKeystrokeStyles,
   activeSidePanelTab: 'general',
 }
 
@@ -51,6 +63,7 @@ export const createUISlice: Slice<UIState, UIActions> = (set, get) => ({
         mode: 'light' | 'dark'
         cursorThemeName: string
         cursorStyles: Partial<CursorStyles>
+        keystrokeStyles: Partial<KeystrokeStyles>
       }>('appearance')
 
       let finalMode: 'light' | 'dark' = 'light'
@@ -71,6 +84,11 @@ export const createUISlice: Slice<UIState, UIActions> = (set, get) => ({
           state.cursorStyles = { ...initialCursorStyles, ...appearance.cursorStyles }
         })
       }
+      if (appearance?.keystrokeStyles) {
+        set((state) => {
+          state.keystrokeStyles = { ...initialKeystrokeStyles, ...appearance.keystrokeStyles }
+        })
+      }
       updateWindowsTitleBar(finalMode, get().platform)
     } catch (error) {
       console.error('Could not load app settings:', error)
@@ -92,6 +110,12 @@ export const createUISlice: Slice<UIState, UIActions> = (set, get) => ({
     })
     window.electronAPI.setSetting('appearance.cursorStyles', get().cursorStyles)
   },
+  updateKeystrokeStyle: (style: Partial<KeystrokeStyles>) => {
+    set((state) => {
+      Object.assign(state.keystrokeStyles, style)
+    })
+    window.electronAPI.setSetting('appearance.keystrokeStyles', get().keystrokeStyles)
+  },
   setActiveSidePanelTab: (tab: SidePanelTab) => {
     set((state) => {
       state.activeSidePanelTab = tab
@@ -1,7 +1,14 @@
 // --- Types ---
 export type BackgroundType = 'color' | 'gradient' | 'image' | 'wallpaper'
 export type AspectRatio = '16:9' | '9:16' | '4:3' | '3:4' | '1:1'
-export type SidePanelTab = 'general' | 'camera' | 'cursor' | 'audio' | 'animation' | 'settings'
+export type SidePanelTab = 'general' | 'camera' | 'cursor' | 'keystrokes' | 'audio' | 'animation' | 'settings'
+export type KeystrokeOverlayPosition =
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
 
 export interface Background {
   type: BackgroundType
@@ -40,6 +47,18 @@ export interface CursorStyles {
   clickScaleAmount: number
   clickScaleDuration: number
   clickScaleEasing: string
+  // Scroll Indicator
+  scrollIndicator: boolean
+  scrollIndicatorSize: number
+}
+
+export interface KeystrokeStyles {
+  showKeystrokes: boolean
+  position: KeystrokeOverlayPosition
+  size: number // Key height in px at 1080p output
+  theme: 'dark' | 'light'
+  displayDuration: number // seconds a key stays fully visible
+  fadeDuration: number // seconds
 }
 
 export interface Preset {
@@ -53,6 +72,68 @@ export interface Preset {
   isWebcamVisible?: boolean
 }
 
+// Recording or project listed in the library window
+export interface LibraryItem {
+  kind: 'recording' | 'project'
+  filePath: string
+  name: string
+  session: {
+    screenVideoPath: string
+    metadataPath: string
+    webcamVideoPath?: string
+    audioPath?: string
+    systemAudioPath?: string
+  }
+  createdAt: number
+  duration: number
+  width: number
+  height: number
+  hasWebcam: boolean
+  hasAudio: boolean
+  isOpenInEditor: boolean
+}
+
+export type RecordingCodec = 'x264' | 'x265' | 'vp9' | 'lossless'
+
+// Encoder settings applied while recording, picked in the recorder window
+export interface RecordingProfile {
+  id: string
+  name: string
+  codec: RecordingCodec
+  crf: number
+  preset: string
+  framerate: number
+  webcamWidth: number
+  webcamHeight: number
+  webcamFramerate: number
+  audioBitrate: number
+}
+
+// Which key presses the recorder captures for the keystroke overlay
+export type KeystrokeCaptureMode = 'off' | 'shortcuts' | 'all'
+
+export type RecordingHotkeyAction = 'start' | 'stop' | 'pause' | 'cancel'
+export type RecordingHotkeys = Record<RecordingHotkeyAction, string>
+
+export interface AutomationSettings {
+  enabled: boolean
+  port: number
+  token: string
+  error: string | null
+}
+
+// How an export read the recording and encoded the video; 'ffmpeg' is the software fallback
+export interface ExportPipeline {
+  decoder: 'webcodecs' | 'ffmpeg'
+  encoder: 'webcodecs' | 'ffmpeg'
+}
+
+// Set when free memory held an export to fewer render workers than were asked for
+export interface ExportWorkerLimit {
+  requested: number
+  used: number
+}
+
 export interface ZoomRegion {
   id: string
   type: 'zoom'
@@ -95,6 +176,53 @@ export interface MetaDataItem {
   button?: string
   pressed?: boolean
   cursorImageKey?: string
+  // Scroll steps of a 'scroll' event; positive values scroll down and right
+  deltaX?: number
+  deltaY?: number
+}
+
+// Tracks that are recorded next to the screen video and have to be lined up with it
+export type SyncTrack = 'webcam' | 'mic' | 'system'
+
+export interface TrackSync {
+  start: number // Where the segment's part begins in the track file
+  offset: number // How much later than the screen video the part began; negative if it began earlier
+}
+
+// A stretch of the recording between two pauses and how its tracks line up with the screen video (seconds)
+export interface SyncSegment {
+  start: number
+  duration: number
+  tracks: Partial<Record<SyncTrack, TrackSync>>
+}
+
+export interface KeystrokeItem {
+  timestamp: number
+  key: string
+  modifiers: string[]
+}
+
+// A point of interest dropped while recording, shown on the timeline
+export interface RecordingMarker {
+  timestamp: number
+  label: string
+}
+
+// A resolution, frame rate and pixel format a webcam can capture in
+export interface WebcamMode {
+  width: number
+  height: number
+  framerate: number // 0 when the camera picks its own rate
+  pixelFormat: string // FFmpeg name, e.g. 'yuyv422' or 'mjpeg'
+  formatName: string
+}
+
+// How the webcam track of a recording was captured
+export interface WebcamCaptureInfo {
+  mode: WebcamMode | null // Null when the recording profile's size and rate were requested
+  width: number
+  height: number
+  framerate: number // Average rate of the saved webcam video
 }
 
 export interface CursorFrame {
@@ -163,22 +291,38 @@ export interface ProjectState {
   videoUrl: string | null
   audioPath: string | null
   audioUrl: string | null
+  systemAudioPath: string | null
+  systemAudioUrl: string | null
   videoDimensions: VideoDimensions
   recordingGeometry: RecordingGeometry | null
   screenSize: ScreenSize | null
   canvasDimensions: Dimensions
   metadata: MetaDataItem[]
+  keystrokes: KeystrokeItem[]
+  markers: RecordingMarker[]
   duration: number
   cursorImages: Record<string, CursorImage>
   cursorBitmapsToRender: Map<string, CursorImageBitmap>
-  syncOffset: number
+  syncSegments: SyncSegment[] | null // Missing for recordings made before capture times were measured
+  webcamCapture: WebcamCaptureInfo | null // Missing for recordings made before webcam modes were stored
   platform: NodeJS.Platform | null
   cursorTheme: CursorTheme | null
   hasAudioTrack: boolean
+  projectPath: string | null
 }
 
 export interface ProjectActions {
-  loadProject: (paths: { videoPath: string; metadataPath: string; webcamVideoPath?: string; audioPath?: string }) => Promise<void>
+  loadProject: (paths: {
+    videoPath: string
+    metadataPath: string
+    webcamVideoPath?: string
+    audioPath?: string
+    systemAudioPath?: string
+    projectPath?: string
+    editorState?: Partial<ProjectEditorState>
+  }) => Promise<void>
+  setProjectPath: (projectPath: string | null) => void
+  getProjectEditorState: () => ProjectEditorState
   setVideoDimensions: (dims: { width: number; height: number }) => void
   setDuration: (duration: number) => void
   resetProjectState: () => void
@@ -269,6 +413,7 @@ export interface UIState {
   isPreviewFullScreen: boolean
   cursorThemeName: string
   cursorStyles: CursorStyles
+  keystrokeStyles: KeystrokeStyles
   activeSidePanelTab: SidePanelTab
 }
 export interface UIActions {
@@ -277,18 +422,26 @@ export interface UIActions {
   togglePreviewFullScreen: () => void
   setCursorThemeName: (themeName: string) => void
   updateCursorStyle: (style: Partial<CursorStyles>) => void
+  updateKeystrokeStyle: (style: Partial<KeystrokeStyles>) => void
   setActiveSidePanelTab: (tab: SidePanelTab) => void
 }
 
+// The separately recorded audio tracks: microphone and desktop (system) audio
+export type AudioTrack = 'mic' | 'system'
+
 export interface AudioState {
   volume: number // 0 to 1
   isMuted: boolean
+  trackVolumes: Record<AudioTrack, number> // 0 to 1, applied on top of the master volume
+  trackOffsets: Record<SyncTrack, number> // Seconds, positive values play the track later
 }
 
 export interface AudioActions {
   setVolume: (volume: number) => void
   toggleMute: () => void
   setIsMuted: (isMuted: boolean) => void
+  setTrackVolume: (track: AudioTrack, volume: number) => void
+  setTrackOffset: (track: SyncTrack, offset: number) => void
 }
 
 export type RenderableState = Pick<
@@ -307,9 +460,33 @@ export type RenderableState = Pick<
   | 'recordingGeometry'
   | 'cursorImages'
   | 'cursorBitmapsToRender'
-  | 'syncOffset'
+  | 'syncSegments'
+  | 'webcamCapture'
+  | 'trackOffsets'
   | 'cursorTheme'
   | 'cursorStyles'
+  | 'keystrokes'
+  | 'keystrokeStyles'
+>
+
+// Editor state persisted in a `.screenarc` project file
+export type ProjectEditorState = Pick<
+  EditorState,
+  | 'frameStyles'
+  | 'aspectRatio'
+  | 'zoomRegions'
+  | 'cutRegions'
+  | 'speedRegions'
+  | 'webcamPosition'
+  | 'webcamStyles'
+  | 'isWebcamVisible'
+  | 'cursorThemeName'
+  | 'cursorStyles'
+  | 'keystrokeStyles'
+  | 'volume'
+  | 'isMuted'
+  | 'trackVolumes'
+  | 'trackOffsets'
 >
 
 // Combined state type for the editor store
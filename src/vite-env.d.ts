@@ -1,6 +1 @@
 /// <reference types="vite/client" />
-
-declare module 'mp4box' {
-	const MP4Box: any
-	export default MP4Box
-}